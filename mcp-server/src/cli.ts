@@ -4,20 +4,39 @@
  *
  * Usage:
  *   ai-lib get <name>              Get a prompt by name
- *   ai-lib search <query>          Search prompts
+ *   ai-lib render <name> [--var key=value]...  Fill in a prompt's variables
+ *   ai-lib search [--semantic] [--facets] <query>  Search prompts
  *   ai-lib suggest <message>       Get suggestions based on intent
  *   ai-lib list [category]         List all prompts or by category
  *   ai-lib chains                  List available chains
+ *   ai-lib chains convert <id>     Write a markdown chain as a chains/*.chain.yaml definition
  *   ai-lib compose <prompts...>    Combine multiple prompts/snippets
  *   ai-lib random [category]       Get a random prompt
  *   ai-lib stats                   Show library statistics
+ *   ai-lib config check            Validate config/intents.json
+ *   ai-lib revisions <id>          List an item's saved revisions
+ *   ai-lib diff <id> <from> [to]   Diff two revisions (or one with the current content)
+ *   ai-lib restore <id> <revision> Roll an item back to a revision
+ *   ai-lib import <bundle>         Install a verified prompt bundle under vendor/
+ *   ai-lib export -o <pack.tgz>    Package items and their dependencies as a bundle
+ *   ai-lib lint [--format sarif]   Check the library for broken references and missing content
+ *   ai-lib graph [id]              Show what an item refers to and what refers to it
  */
 
-import { resolve, dirname, join } from 'path';
+import { resolve, dirname, join, relative, delimiter, basename } from 'path';
 import { fileURLToPath } from 'url';
-import { existsSync } from 'fs';
-import { Library } from './lib/library.js';
-import type { LibraryCategory } from './types.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { Library, openLibraryStore } from './lib/library.js';
+import { parseLayerSpecs } from './lib/layered-store.js';
+import { openBundle, writeBundle } from './lib/bundle.js';
+import { lintLibrary, formatLintSarif, LINT_RULES } from './lib/lint.js';
+import { formatGraphDot, formatGraphMermaid, type GraphEdge } from './lib/graph.js';
+import { chainToDefinition, isChainDefinitionPath, readChainDefinition, ChainDefinitionError } from './lib/chain-definition.js';
+import { parseChain } from './lib/parser.js';
+import { renderSnippet } from './lib/snippets.js';
+import { renderPrompt } from './lib/render.js';
+import { describeVariable } from './lib/variables.js';
+import type { ExportSelection, LibraryCategory } from './types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -41,13 +60,12 @@ const args = process.argv.slice(2);
 const command = args[0];
 const commandArgs = args.slice(1);
 
-// Determine library path
-let libraryPath: string;
-if (process.env.AI_LIBRARY_PATH) {
-  libraryPath = resolve(process.env.AI_LIBRARY_PATH);
-} else {
-  libraryPath = resolve(__dirname, '..', '..');
-}
+// Determine library path(s), highest precedence first
+const libraryPaths = process.env.AI_LIBRARY_PATH
+  ? process.env.AI_LIBRARY_PATH.split(delimiter).filter(Boolean)
+  : [resolve(__dirname, '..', '..')];
+const libraryPath = libraryPaths.join(delimiter);
+const writeLayer = process.env.AI_LIBRARY_WRITE_LAYER;
 
 // Help text
 const HELP = `
@@ -58,13 +76,37 @@ ${c('yellow', 'USAGE:')}
 
 ${c('yellow', 'COMMANDS:')}
   ${c('green', 'get')} <name>              Fetch a prompt by ID or fuzzy name
-  ${c('green', 'search')} <query>          Search prompts by keyword
+  ${c('green', 'render')} <name>           Print a prompt ready to paste, with variables filled in
+                          --var key=value sets a variable (repeatable)
+                          --body renders the whole item, not just its ## Prompt section
+  ${c('green', 'search')} <query>          Search prompts (supports tag:, category:, "phrases", -exclude)
+                          --semantic also matches by meaning
+                          --facets shows counts per category, subcategory and tag
   ${c('green', 'suggest')} <message>       Get smart suggestions for what you're doing
   ${c('green', 'list')} [category]         List prompts (optionally filter by category)
   ${c('green', 'chains')}                  Show available workflow chains
+  ${c('green', 'chains convert')} <id>     Print a markdown chain as a YAML chain definition
+                          -o <file> writes it to a file instead, e.g. chains/bug-fix.chain.yaml
   ${c('green', 'compose')} <items...>      Combine multiple prompts/snippets
   ${c('green', 'random')} [category]       Get a random prompt for inspiration
   ${c('green', 'stats')}                   Show library statistics
+  ${c('green', 'config check')}            Validate config/intents.json
+  ${c('green', 'revisions')} <id>          List the saved revisions of an item
+  ${c('green', 'diff')} <id> <from> [to]   Diff two revisions, or a revision and the current content
+  ${c('green', 'restore')} <id> <revision> Roll an item back to an earlier revision
+  ${c('green', 'import')} <bundle>         Install a bundle (directory or .tar/.tgz/.zip with a manifest.json)
+                          under <category>/vendor/<name>/; --overwrite replaces changed items,
+                          --key <file> requires a signature made with that key
+  ${c('green', 'export')} -o <pack.tgz>    Package items, plus the items they reference, as a bundle
+                          --category, --tag and --id select items (repeatable; default: all)
+                          --name, --version, --description describe the pack
+                          --key <file> signs it (HMAC secret or Ed25519 private key PEM)
+  ${c('green', 'lint')}                    Check for missing titles, broken references, empty chains and more
+                          --format text|json|sarif (default: text); --rule <id> runs only that rule
+                          (repeatable); --strict exits non-zero on warnings as well as errors
+  ${c('green', 'graph')} [id]              Show an item's references and what would break without it
+                          --format dot|mermaid exports the graph (the whole library without an id)
+                          --depth <n> includes items up to n references away (default: 1)
   ${c('green', 'help')}                    Show this help
 
 ${c('yellow', 'CATEGORIES:')}
@@ -73,25 +115,41 @@ ${c('yellow', 'CATEGORIES:')}
 ${c('yellow', 'EXAMPLES:')}
   ai-lib get prd-generator
   ai-lib get debugger
+  ai-lib render prd-generator --var your_idea="A habit tracker" --var context=React
   ai-lib search "security audit"
+  ai-lib search tag:security '"root cause"' -legacy 'updated:>2025-01-01'
+  ai-lib search --semantic "my app is slow under load"
+  ai-lib search --facets review
   ai-lib suggest "I need to build a new feature"
   ai-lib list prompts
   ai-lib compose prd-generator ultrathink step-by-step
   ai-lib random snippets
+  ai-lib chains convert bug-fix -o chains/bug-fix.chain.yaml
+  ai-lib revisions prompts/planning/prd-generator
+  ai-lib restore prompts/planning/prd-generator 3
+  ai-lib import ./acme-prompts-1.2.0.tgz
+  ai-lib export --category prompts --tag security -o pack.tgz --key signing-key.pem
+  ai-lib lint --format sarif > lint.sarif
+  ai-lib graph prompts/planning/prd-generator
+  ai-lib graph --format dot | dot -Tsvg > library.svg
 
 ${c('yellow', 'ENVIRONMENT:')}
-  AI_LIBRARY_PATH    Path to your AI library (default: ${libraryPath})
+  AI_LIBRARY_PATH    Path to your AI library, or a .tar/.tgz/.zip of one (default: ${libraryPath}).
+                     Separate several with "${delimiter}" to layer them, highest precedence first;
+                     name a layer with name=path
+  AI_LIBRARY_WRITE_LAYER  Layer that writes go to (default: the first writable one)
 `;
 
 async function main() {
-  // Initialize library
-  const library = new Library(libraryPath, false);
-
-  if (!existsSync(libraryPath)) {
-    console.error(c('red', `Error: Library not found at ${libraryPath}`));
-    process.exit(1);
+  for (const { location } of parseLayerSpecs(libraryPaths)) {
+    if (!existsSync(location)) {
+      console.error(c('red', `Error: Library not found at ${location}`));
+      process.exit(1);
+    }
   }
 
+  // Initialize library
+  const library = new Library(openLibraryStore(libraryPaths, writeLayer), false);
   await library.initialize();
 
   switch (command) {
@@ -100,6 +158,10 @@ async function main() {
       await cmdGet(library, commandArgs);
       break;
 
+    case 'render':
+      await cmdRender(library, commandArgs);
+      break;
+
     case 'search':
     case 's':
       await cmdSearch(library, commandArgs);
@@ -118,7 +180,7 @@ async function main() {
 
     case 'chains':
     case 'c':
-      await cmdChains(library);
+      await cmdChains(library, commandArgs);
       break;
 
     case 'compose':
@@ -135,6 +197,38 @@ async function main() {
       await cmdStats(library);
       break;
 
+    case 'config':
+      await cmdConfig(library, commandArgs);
+      break;
+
+    case 'revisions':
+      await cmdRevisions(library, commandArgs);
+      break;
+
+    case 'diff':
+      await cmdDiff(library, commandArgs);
+      break;
+
+    case 'restore':
+      await cmdRestore(library, commandArgs);
+      break;
+
+    case 'import':
+      await cmdImport(library, commandArgs);
+      break;
+
+    case 'export':
+      await cmdExport(library, commandArgs);
+      break;
+
+    case 'lint':
+      await cmdLint(library, commandArgs);
+      break;
+
+    case 'graph':
+      await cmdGraph(library, commandArgs);
+      break;
+
     case 'help':
     case '-h':
     case '--help':
@@ -161,11 +255,11 @@ async function cmdGet(library: Library, args: string[]) {
   if (!item) {
     console.error(c('red', `Prompt "${name}" not found.`));
 
-    const suggestions = library.search(name, 3);
+    const suggestions = library.didYouMean(name, 3);
     if (suggestions.length > 0) {
       console.log(c('yellow', '\nDid you mean:'));
-      for (const s of suggestions) {
-        console.log(`  ${c('cyan', s.item.id)}`);
+      for (const suggestion of suggestions) {
+        console.log(`  ${c('cyan', suggestion.id)}`);
       }
     }
     process.exit(1);
@@ -178,6 +272,9 @@ async function cmdGet(library: Library, args: string[]) {
   }
 
   console.log(c('dim', `Category: ${item.category}${item.subcategory ? `/${item.subcategory}` : ''}`));
+  if (item.layer) {
+    console.log(c('dim', `Layer: ${item.layer}`));
+  }
   if (item.metadata.tags?.length) {
     console.log(c('dim', `Tags: ${item.metadata.tags.join(', ')}`));
   }
@@ -186,21 +283,95 @@ async function cmdGet(library: Library, args: string[]) {
   console.log(item.body);
 }
 
+async function cmdRender(library: Library, args: string[]) {
+  const variables: Record<string, string> = {};
+  const nameParts: string[] = [];
+  let body = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--body') {
+      body = true;
+    } else if (arg === '--var' || arg.startsWith('--var=')) {
+      const assignment = arg === '--var' ? args[++i] : arg.slice('--var='.length);
+      const separator = assignment?.indexOf('=') ?? -1;
+      if (separator <= 0) {
+        console.error(c('red', `Expected --var key=value, got "${assignment ?? ''}"`));
+        process.exit(1);
+      }
+      variables[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    } else {
+      nameParts.push(arg);
+    }
+  }
+
+  const name = nameParts.join(' ');
+  if (!name) {
+    console.error(c('red', 'Usage: ai-lib render <name> [--var key=value]... [--body]'));
+    process.exit(1);
+  }
+
+  const item = library.getItem(name);
+  if (!item) {
+    console.error(c('red', `Prompt "${name}" not found.`));
+    process.exit(1);
+  }
+
+  const result = renderPrompt(item, variables, {
+    scope: body ? 'body' : 'prompt',
+    include: (id) => library.resolveInclude(id),
+  });
+
+  if (result.errors.length > 0) {
+    console.error(c('red', `Cannot render "${item.id}":`));
+    for (const error of result.errors) {
+      console.error(`  ${error}`);
+    }
+    if (result.variables.length > 0) {
+      console.error(c('yellow', '\nVariables:'));
+      for (const variable of result.variables) {
+        console.error(`  ${describeVariable(variable)}`);
+      }
+    }
+    process.exit(1);
+  }
+
+  // Notes go to stderr so the rendered text can be piped or redirected
+  console.log(result.text);
+  if (result.unfilled.length > 0) {
+    console.error(c('yellow', `Unfilled (optional): ${result.unfilled.map((v) => v.name).join(', ')}`));
+  }
+  if (result.unused.length > 0) {
+    console.error(c('yellow', `Not used by this prompt: ${result.unused.join(', ')}`));
+  }
+}
+
 async function cmdSearch(library: Library, args: string[]) {
-  const query = args.join(' ');
+  const semantic = args.includes('--semantic');
+  const facets = args.includes('--facets');
+  const query = args.filter((a) => a !== '--semantic' && a !== '--facets').join(' ');
   if (!query) {
-    console.error(c('red', 'Usage: ai-lib search <query>'));
+    console.error(c('red', 'Usage: ai-lib search [--semantic] [--facets] <query>'));
     process.exit(1);
   }
 
-  const results = library.search(query, 10);
+  const response = await library.searchDetailed(query, {
+    limit: 10,
+    mode: semantic ? 'semantic' : 'lexical',
+    facets,
+  });
+  const { results, correctedQuery } = response;
 
   if (results.length === 0) {
     console.log(c('yellow', `No results found for "${query}"`));
     return;
   }
 
-  console.log(c('bright', `\nSearch results for "${query}":\n`));
+  if (correctedQuery) {
+    console.log(c('yellow', `\nNo results for "${query}". Did you mean "${correctedQuery}"?`));
+  }
+
+  console.log(c('bright', `\nSearch results for "${correctedQuery ?? query}":\n`));
 
   for (const result of results) {
     const item = result.item;
@@ -209,6 +380,20 @@ async function cmdSearch(library: Library, args: string[]) {
     if (item.metadata.description) {
       console.log(`  ${c('dim', item.metadata.description.substring(0, 80))}`);
     }
+    for (const snippet of result.snippets) {
+      console.log(`    ${renderSnippet(snippet, (text) => c('yellow', text))}`);
+    }
+    console.log();
+  }
+
+  if (response.facets) {
+    console.log(c('bright', 'Facets:'));
+    for (const [field, counts] of Object.entries(response.facets)) {
+      const entries = Object.entries(counts).slice(0, 10);
+      if (entries.length === 0) continue;
+      console.log(`  ${c('green', field.padEnd(12))} ${entries.map(([value, count]) => `${value} ${c('dim', `(${count})`)}`).join(', ')}`);
+    }
+    console.log(c('dim', '\n  Narrow the query with a filter, e.g. category:prompts or tag:security'));
     console.log();
   }
 }
@@ -282,7 +467,9 @@ async function cmdList(library: Library, args: string[]) {
   }
 }
 
-async function cmdChains(library: Library) {
+async function cmdChains(library: Library, args: string[]) {
+  if (args[0] === 'convert') return cmdChainConvert(library, args.slice(1));
+
   const chains = library.getAllChains();
 
   if (chains.length === 0) {
@@ -306,6 +493,45 @@ async function cmdChains(library: Library) {
   }
 }
 
+async function cmdChainConvert(library: Library, args: string[]) {
+  const usage = 'Usage: ai-lib chains convert <id> [-o <file>]';
+  const outputIndex = args.findIndex((arg) => arg === '-o' || arg === '--output');
+  const output = outputIndex >= 0 ? args[outputIndex + 1] : undefined;
+  const [id] = args.filter((arg, i) => !arg.startsWith('-') && !(outputIndex >= 0 && i === outputIndex + 1));
+  if (!id || (outputIndex >= 0 && !output)) {
+    console.error(c('red', usage));
+    process.exit(1);
+  }
+
+  const item = library.getItem(id.startsWith('chains/') ? id : `chains/${id}`) ?? library.getItem(id);
+  if (!item || item.category !== 'chains') {
+    console.error(c('red', `Chain "${id}" not found.`));
+    process.exit(1);
+  }
+  if (isChainDefinitionPath(item.relativePath)) {
+    console.error(c('red', `${item.relativePath} is already a chain definition.`));
+    process.exit(1);
+  }
+
+  // The markdown as written: **Use:** steps keep their reference, not the resolved prompt
+  const definition = chainToDefinition(parseChain(item));
+
+  try {
+    readChainDefinition(`${item.id}.chain.yaml`, definition);
+  } catch (error) {
+    if (!(error instanceof ChainDefinitionError)) throw error;
+    console.error(c('yellow', `The converted chain needs fixing before it will load:\n${error.message}`));
+  }
+
+  if (!output) {
+    process.stdout.write(definition);
+    return;
+  }
+  writeFileSync(resolve(output), definition, 'utf-8');
+  console.log(c('green', `✓ Wrote ${output}`));
+  console.log(c('dim', `It replaces ${item.relativePath} once it is in chains/; remove the markdown file when you are done.`));
+}
+
 async function cmdCompose(library: Library, args: string[]) {
   if (args.length < 1) {
     console.error(c('red', 'Usage: ai-lib compose <prompt1> [prompt2] [snippet1] ...'));
@@ -405,7 +631,312 @@ async function cmdStats(library: Library) {
   }
 
   console.log();
-  console.log(c('dim', `Library path: ${libraryPath}`));
+  console.log(c('dim', `Library path: ${library.getLocation()}`));
+}
+
+async function cmdConfig(library: Library, args: string[]) {
+  if (args[0] !== 'check') {
+    console.error(c('red', 'Usage: ai-lib config check'));
+    process.exit(1);
+  }
+
+  const report = library.validateConfig();
+  const displayPath = relative(process.cwd(), report.path) || report.path;
+
+  if (!report.exists) {
+    console.log(c('yellow', `No ${displayPath} found - using the built-in intent patterns.`));
+    if (report.issues.length === 0) return;
+
+    console.log();
+    for (const issue of report.issues) {
+      console.log(`  ${c('yellow', 'warning')} ${c('cyan', issue.path)}  ${issue.message}`);
+    }
+    console.log();
+    console.log(`0 error(s), ${report.issues.length} warning(s)`);
+    process.exit(1);
+  }
+
+  if (report.issues.length === 0) {
+    console.log(c('green', `✓ ${displayPath} is valid (${report.patternCount} intent patterns)`));
+    return;
+  }
+
+  console.log(c('bright', `\n${displayPath}:\n`));
+  for (const issue of report.issues) {
+    const label = issue.severity === 'error' ? c('red', 'error  ') : c('yellow', 'warning');
+    console.log(`  ${label} ${c('cyan', issue.path)}  ${issue.message}`);
+  }
+
+  const errors = report.issues.filter((i) => i.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+  console.log();
+  console.log(`${errors} error(s), ${warnings} warning(s)`);
+  process.exit(1);
+}
+
+async function cmdRevisions(library: Library, args: string[]) {
+  const id = args[0];
+  if (!id) {
+    console.error(c('red', 'Usage: ai-lib revisions <id>'));
+    process.exit(1);
+  }
+
+  const revisions = library.listRevisions(id);
+  if (revisions === null) {
+    console.error(c('red', `Item "${id}" not found.`));
+    process.exit(1);
+  }
+  if (revisions.length === 0) {
+    console.log(c('yellow', `No revisions recorded for "${id}".`));
+    return;
+  }
+
+  console.log(c('bright', `\nRevisions of ${id}:\n`));
+  for (const revision of [...revisions].reverse()) {
+    const message = revision.message ? `  ${revision.message}` : '';
+    console.log(`  ${c('cyan', String(revision.revision).padStart(3))}  ${c('dim', revision.timestamp)}  ${revision.hash}  ${c('green', revision.action.padEnd(8))}${message}`);
+  }
+  console.log();
+}
+
+async function cmdDiff(library: Library, args: string[]) {
+  const [id, from, to] = args;
+  if (!id || !from || !/^\d+$/.test(from) || (to !== undefined && !/^\d+$/.test(to))) {
+    console.error(c('red', 'Usage: ai-lib diff <id> <from> [to]'));
+    process.exit(1);
+  }
+
+  const { diff, error } = library.diffRevisions(id, Number(from), to === undefined ? undefined : Number(to));
+  if (error) {
+    console.error(c('red', error));
+    process.exit(1);
+  }
+  if (!diff) {
+    console.log(c('dim', 'No differences.'));
+    return;
+  }
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('---') || line.startsWith('+++')) console.log(c('bright', line));
+    else if (line.startsWith('@@')) console.log(c('cyan', line));
+    else if (line.startsWith('+')) console.log(c('green', line));
+    else if (line.startsWith('-')) console.log(c('red', line));
+    else console.log(line);
+  }
+}
+
+async function cmdRestore(library: Library, args: string[]) {
+  const [id, revision] = args;
+  if (!id || !revision || !/^\d+$/.test(revision)) {
+    console.error(c('red', 'Usage: ai-lib restore <id> <revision>'));
+    process.exit(1);
+  }
+
+  const { item, error } = library.restoreRevision({ id, revision: Number(revision) });
+  if (!item) {
+    console.error(c('red', `Failed to restore: ${error}`));
+    process.exit(1);
+  }
+  console.log(c('green', `✓ Restored ${item.id} to revision ${revision}`));
+}
+
+async function cmdImport(library: Library, args: string[]) {
+  const overwrite = args.includes('--overwrite');
+  const keyIndex = args.indexOf('--key');
+  const keyPath = keyIndex >= 0 ? args[keyIndex + 1] : undefined;
+  const [path] = args.filter((a, i) => !a.startsWith('--') && !(keyIndex >= 0 && i === keyIndex + 1));
+  if (!path || (keyIndex >= 0 && !keyPath)) {
+    console.error(c('red', 'Usage: ai-lib import <bundle> [--overwrite] [--key <file>]'));
+    process.exit(1);
+  }
+
+  // Verification failures throw a BundleError listing every problem
+  const key = keyPath ? readFileSync(resolve(keyPath), 'utf-8') : undefined;
+  const bundle = openBundle(resolve(path), { key });
+  const { name, version } = bundle.manifest;
+  if (bundle.signature) {
+    const status = bundle.signature.verified ? c('green', 'verified') : c('yellow', 'not verified; pass --key to check it');
+    console.log(c('dim', `Signed (${bundle.signature.algorithm}, key ${bundle.signature.keyId}): `) + status);
+  }
+  const { imported, unchanged, previousVersion, error } = library.importBundle(bundle, { overwrite });
+  if (error) {
+    console.error(c('red', `Failed to import ${name}@${version}: ${error}`));
+    process.exit(1);
+  }
+
+  const upgrade = previousVersion && previousVersion !== version ? c('dim', ` (was ${previousVersion})`) : '';
+  console.log(c('green', `✓ Imported ${name}@${version}`) + upgrade);
+  for (const item of imported) {
+    console.log(`  ${c('cyan', item.id)}`);
+  }
+  if (unchanged.length > 0) {
+    console.log(c('dim', `  ${unchanged.length} item(s) already up to date`));
+  }
+}
+
+async function cmdExport(library: Library, args: string[]) {
+  const selection: ExportSelection = { categories: [], tags: [], ids: [] };
+  const options: Record<string, string> = {};
+  const usage = 'Usage: ai-lib export -o <pack.tgz|pack.tar|directory> [--category c] [--tag t] [--id id] [--name n] [--version v] [--key <file>]';
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (!flag.startsWith('-') || value === undefined) {
+      console.error(c('red', usage));
+      process.exit(1);
+    }
+    i++;
+
+    if (flag === '--category') selection.categories!.push(value as LibraryCategory);
+    else if (flag === '--tag') selection.tags!.push(value);
+    else if (flag === '--id') selection.ids!.push(value);
+    else if (flag === '-o' || flag === '--output') options.output = value;
+    else if (['--name', '--version', '--description', '--key'].includes(flag)) options[flag.slice(2)] = value;
+    else {
+      console.error(c('red', `Unknown option ${flag}`));
+      console.error(usage);
+      process.exit(1);
+    }
+  }
+
+  if (!options.output) {
+    console.error(c('red', usage));
+    process.exit(1);
+  }
+
+  const missing = selection.ids!.filter((id) => !library.getAllItems().some((item) => item.id === id.replace(/\.md$/, '')));
+  if (missing.length > 0) {
+    console.error(c('red', `Not in the library: ${missing.join(', ')}`));
+    process.exit(1);
+  }
+
+  const { items, unresolved } = library.collectExport(selection);
+  if (items.length === 0) {
+    console.error(c('red', 'No items match the selection.'));
+    process.exit(1);
+  }
+
+  const output = resolve(options.output);
+  const { manifest, signature } = writeBundle(output, items, {
+    name: options.name || basename(output).replace(/\.(tgz|tar\.gz|tar)$/i, ''),
+    version: options.version || '1.0.0',
+    description: options.description,
+    key: options.key ? readFileSync(resolve(options.key), 'utf-8') : undefined,
+  });
+
+  console.log(c('green', `✓ Exported ${manifest.name}@${manifest.version} (${items.length} items) to ${output}`));
+  for (const { item, dependencies } of items) {
+    const deps = dependencies.length ? c('dim', ` → ${dependencies.join(', ')}`) : '';
+    console.log(`  ${c('cyan', item.id)}${deps}`);
+  }
+  for (const { id, reference } of unresolved) {
+    console.log(c('yellow', `  ! ${id} references "${reference}", which is not in the library`));
+  }
+  if (signature) {
+    console.log(c('dim', `Signed with ${signature.algorithm} key ${signature.keyId}`));
+  }
+}
+
+async function cmdLint(library: Library, args: string[]) {
+  const rules: string[] = [];
+  let format = 'text';
+  let strict = false;
+  const usage = `Usage: ai-lib lint [--format text|json|sarif] [--rule <id>]... [--strict]\nRules: ${LINT_RULES.map((r) => r.id).join(', ')}`;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--strict') strict = true;
+    else if (args[i] === '--format' && args[i + 1]) format = args[++i];
+    else if (args[i] === '--rule' && args[i + 1]) rules.push(args[++i]);
+    else {
+      console.error(c('red', usage));
+      process.exit(1);
+    }
+  }
+  if (!['text', 'json', 'sarif'].includes(format)) {
+    console.error(c('red', `Unknown format "${format}"`));
+    console.error(usage);
+    process.exit(1);
+  }
+
+  const result = lintLibrary(library, { rules });
+  const failed = result.errorCount > 0 || (strict && result.warningCount > 0);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (format === 'sarif') {
+    console.log(formatLintSarif(result));
+  } else {
+    for (const issue of result.issues) {
+      const label = issue.severity === 'error' ? c('red', 'error  ') : c('yellow', 'warning');
+      const location = issue.path ? `${issue.path}${issue.line ? `:${issue.line}` : ''}` : library.getLocation();
+      console.log(`  ${label} ${c('cyan', location)}  ${issue.message} ${c('dim', `[${issue.rule}]`)}`);
+    }
+    if (result.issues.length > 0) console.log();
+    const summary = `${result.itemCount} items checked: ${result.errorCount} error(s), ${result.warningCount} warning(s)`;
+    console.log(failed ? summary : c('green', `✓ ${summary}`));
+  }
+
+  if (failed) process.exit(1);
+}
+
+async function cmdGraph(library: Library, args: string[]) {
+  let format = 'text';
+  let depth = 1;
+  const names: string[] = [];
+  const usage = 'Usage: ai-lib graph [id] [--format text|dot|mermaid] [--depth n]';
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--format' && args[i + 1]) format = args[++i];
+    else if (args[i] === '--depth' && args[i + 1]) depth = parseInt(args[++i], 10);
+    else if (!args[i].startsWith('-')) names.push(args[i]);
+    else {
+      console.error(c('red', usage));
+      process.exit(1);
+    }
+  }
+  if (!['text', 'dot', 'mermaid'].includes(format) || !(depth >= 1) || (format === 'text' && names.length === 0)) {
+    console.error(c('red', usage));
+    process.exit(1);
+  }
+
+  const graph = library.getGraph();
+  const name = names.join(' ');
+  const item = name ? library.getItem(name) : null;
+  const target = item?.id ?? name.replace(/\.md$/, '');
+  if (name && !item && graph.incoming(target).length === 0) {
+    console.error(c('red', `Item "${name}" not found.`));
+    process.exit(1);
+  }
+
+  if (format !== 'text') {
+    const subgraph = name ? graph.neighbourhood(target, depth) : graph;
+    console.log(format === 'dot' ? formatGraphDot(subgraph) : formatGraphMermaid(subgraph));
+    return;
+  }
+
+  const describe = (other: string, edge: GraphEdge) => {
+    const missing = edge.broken && other === edge.to ? c('red', ' (missing)') : '';
+    return `  ${c('cyan', other)} ${c('dim', edge.label ?? edge.kind)}${missing}`;
+  };
+
+  console.log(c('bright', `\n${target}${item ? '' : c('red', ' (not in the library)')}\n`));
+
+  const outgoing = graph.outgoing(target);
+  console.log(c('yellow', 'Refers to:'));
+  console.log(outgoing.length ? outgoing.map((edge) => describe(edge.to, edge)).join('\n') : c('dim', '  nothing'));
+
+  const incoming = graph.incoming(target);
+  console.log(c('yellow', '\nReferenced by:'));
+  console.log(incoming.length ? incoming.map((edge) => describe(edge.from, edge)).join('\n') : c('dim', '  nothing'));
+
+  const direct = new Set(incoming.map((edge) => edge.from));
+  const indirect = graph.dependents(target).filter((id) => !direct.has(id));
+  if (indirect.length > 0) {
+    console.log(c('yellow', '\nIndirectly affected:'));
+    console.log(indirect.map((id) => `  ${c('cyan', id)}`).join('\n'));
+  }
+  console.log();
 }
 
 main().catch((err) => {
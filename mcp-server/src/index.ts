@@ -9,15 +9,24 @@
  * Usage:
  *   ai-library-mcp                    # Uses default library path (parent directory)
  *   ai-library-mcp /path/to/library   # Custom library path
+ *   ai-library-mcp library.tar.gz     # Serve a packed .tar/.tgz/.zip library (read-only)
+ *   ai-library-mcp mine=./personal team=/srv/team   # Layered libraries, highest precedence first
+ *   ai-library-mcp --write-layer team ...           # Layer that writes go to (default: first writable)
  *   ai-library-mcp --debug, -d        # Enable debug logging
- *   ai-library-mcp --read-only, -r    # Read-only mode (disables save_to_library)
+ *   ai-library-mcp --read-only, -r    # Read-only mode (disables the write tools)
+ *   ai-library-mcp --watch, -w        # Reload items on change (config/intents.json always reloads)
+ *   ai-library-mcp --bundle-dir <dir>  # Where import_bundle reads bundles from (default: <library>/bundles)
+ *   ai-library-mcp --bundle-key <file> # Key import_bundle requires bundles to be signed with
+ *   ai-library-mcp --allow-unsigned-bundles  # Let import_bundle install bundles it cannot verify
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
-import { resolve, dirname, join } from 'path';
+import { resolve, dirname, join, delimiter } from 'path';
 import { fileURLToPath } from 'url';
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
+import { isArchivePath } from './lib/archive-store.js';
+import { parseLayerSpecs } from './lib/layered-store.js';
 
 // Get directory of this file
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -26,46 +35,94 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const args = process.argv.slice(2);
 const debug = args.includes('--debug') || args.includes('-d');
 const readOnly = args.includes('--read-only') || args.includes('-r');
-const nonFlagArgs = args.filter((a) => !a.startsWith('-'));
+const watch = args.includes('--watch') || args.includes('-w');
+const allowUnsignedBundles = args.includes('--allow-unsigned-bundles');
+const optionValue = (flag: string) => (args.includes(flag) ? args[args.indexOf(flag) + 1] ?? '' : undefined);
+const writeLayerArg = optionValue('--write-layer');
+const writeLayer = writeLayerArg ?? process.env.AI_LIBRARY_WRITE_LAYER;
+const bundleDirArg = optionValue('--bundle-dir');
+const bundleDirectory = bundleDirArg ?? process.env.AI_LIBRARY_BUNDLE_DIR;
+const bundleKeyArg = optionValue('--bundle-key');
+const bundleKeyFile = bundleKeyArg ?? process.env.AI_LIBRARY_BUNDLE_KEY;
+const valueIndexes = new Set(
+  ['--write-layer', '--bundle-dir', '--bundle-key'].filter((flag) => args.includes(flag)).map((flag) => args.indexOf(flag) + 1)
+);
+const nonFlagArgs = args.filter((a, i) => !a.startsWith('-') && !valueIndexes.has(i));
 
-// Determine library path
-let libraryPath: string;
+// Determine library path(s), highest precedence first
+let libraryPaths: string[];
 
 if (nonFlagArgs.length > 0) {
-  // Use provided path
-  libraryPath = resolve(nonFlagArgs[0]);
+  // Use provided paths
+  libraryPaths = nonFlagArgs;
 } else if (process.env.AI_LIBRARY_PATH) {
   // Use environment variable
-  libraryPath = resolve(process.env.AI_LIBRARY_PATH);
+  libraryPaths = process.env.AI_LIBRARY_PATH.split(delimiter).filter(Boolean);
 } else {
   // Default: parent directory of mcp-server (the ai-library root)
-  libraryPath = resolve(__dirname, '..', '..');
+  libraryPaths = [resolve(__dirname, '..', '..')];
 }
 
-// Validate library path
-if (!existsSync(libraryPath)) {
-  console.error(`Error: Library path does not exist: ${libraryPath}`);
-  process.exit(1);
+for (const [flag, value, what] of [
+  ['--write-layer', writeLayerArg, 'a layer name'],
+  ['--bundle-dir', bundleDirArg, 'a directory'],
+  ['--bundle-key', bundleKeyArg, 'a key file'],
+] as const) {
+  if (value !== undefined && (!value || value.startsWith('-'))) {
+    console.error(`Error: ${flag} needs ${what}`);
+    process.exit(1);
+  }
+}
+
+let bundleKey: string | undefined;
+if (bundleKeyFile) {
+  if (!existsSync(bundleKeyFile)) {
+    console.error(`Error: Bundle key file does not exist: ${bundleKeyFile}`);
+    process.exit(1);
+  }
+  bundleKey = readFileSync(bundleKeyFile, 'utf-8');
+}
+
+// Validate library paths
+const layers = parseLayerSpecs(libraryPaths).map((layer) => ({ ...layer, location: resolve(layer.location) }));
+for (const { location } of layers) {
+  if (!existsSync(location)) {
+    console.error(`Error: Library path does not exist: ${location}`);
+    process.exit(1);
+  }
 }
 
-// Check for prompts directory to validate it's an AI library
-const promptsPath = join(libraryPath, 'prompts');
-if (!existsSync(promptsPath)) {
-  console.error(`Error: Not a valid AI library (missing prompts/ directory): ${libraryPath}`);
+// Check for a prompts directory to validate it's an AI library (archives are checked when opened).
+// When layering, a personal layer may hold only a few overrides, so one layer with prompts/ is enough.
+const hasPrompts = layers.some(({ location }) => isArchivePath(location) || existsSync(join(location, 'prompts')));
+if (!hasPrompts) {
+  console.error(`Error: Not a valid AI library (missing prompts/ directory): ${layers.map((l) => l.location).join(', ')}`);
   console.error('Make sure to point to the root of your AI library.');
   process.exit(1);
 }
 
 // Log startup info (to stderr, not stdout - important for MCP!)
 console.error('AI Library MCP Server');
-console.error(`Library: ${libraryPath}`);
+console.error(`Library: ${layers.map((l) => (layers.length > 1 ? `${l.name}=${l.location}` : l.location)).join(', ')}`);
+if (writeLayer) console.error(`Write layer: ${writeLayer}`);
 console.error(`Debug: ${debug}`);
 console.error(`Read-only: ${readOnly}`);
+console.error(`Watch: ${watch}`);
+if (bundleKey) console.error('Bundles: signature required');
+else if (allowUnsignedBundles) console.error('Bundles: unsigned allowed');
 
 // Create and start server
 async function main() {
   try {
-    const server = createServer(libraryPath, { debug, readOnly });
+    const server = createServer(libraryPaths, {
+      debug,
+      readOnly,
+      watch,
+      writeLayer,
+      bundleDirectory: bundleDirectory && resolve(bundleDirectory),
+      bundleKey,
+      allowUnsignedBundles,
+    });
     const transport = new StdioServerTransport();
 
     console.error('Starting server...');
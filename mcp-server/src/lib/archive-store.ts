@@ -0,0 +1,305 @@
+/**
+ * Archive Store - Serves a library packed into a single .tar, .tar.gz/.tgz
+ * or .zip file. Read-only: the archive is loaded into memory once.
+ * packTar builds the tar archives that bundle export writes.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { gunzipSync, gzipSync, inflateRawSync } from 'zlib';
+import {
+  StoreError,
+  normalizeStorePath,
+  isUnder,
+  isHiddenPath,
+  type LibraryStore,
+  type StoreStat,
+  type StoreWatcher,
+} from './store.js';
+
+const ARCHIVE_EXTENSIONS = /\.(tar|tar\.gz|tgz|zip)$/i;
+
+const TAR_BLOCK = 512;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+
+interface ArchiveEntry {
+  data: Buffer;
+  mtimeMs: number;
+}
+
+export function isArchivePath(path: string): boolean {
+  return ARCHIVE_EXTENSIONS.test(path);
+}
+
+function readOctal(buffer: Buffer, start: number, length: number): number {
+  const text = buffer.toString('ascii', start, start + length).replace(/\0.*$/, '').trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const text = buffer.toString('utf-8', start, start + length);
+  const end = text.indexOf('\0');
+  return end === -1 ? text : text.slice(0, end);
+}
+
+/**
+ * Pax extended header records: "<length> <key>=<value>\n"
+ */
+function parsePaxHeaders(data: Buffer): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    if (space === -1) break;
+    const length = parseInt(data.toString('ascii', position, space), 10);
+    if (!length) break;
+
+    const record = data.toString('utf-8', space + 1, position + length - 1);
+    const equals = record.indexOf('=');
+    if (equals > 0) headers[record.slice(0, equals)] = record.slice(equals + 1);
+    position += length;
+  }
+  return headers;
+}
+
+/**
+ * Regular files in a ustar/GNU/pax tar archive
+ */
+function readTar(buffer: Buffer): Map<string, ArchiveEntry> {
+  const entries = new Map<string, ArchiveEntry>();
+  let longName: string | null = null;
+  let pax: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset + TAR_BLOCK <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const data = buffer.subarray(offset + TAR_BLOCK, offset + TAR_BLOCK + size);
+    offset += TAR_BLOCK + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      pax = parsePaxHeaders(data);
+      continue;
+    }
+    if (type === 'g') continue;
+
+    const prefix = header.toString('ascii', 257, 262) === 'ustar' ? readString(header, 345, 155) : '';
+    const name = pax.path ?? longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const mtime = pax.mtime ? parseFloat(pax.mtime) : readOctal(header, 136, 12);
+    longName = null;
+    pax = {};
+
+    // Regular files only; directories, links and devices are skipped
+    if (type === '0' || type === '\0' || type === '7') {
+      entries.set(name, { data: Buffer.from(data), mtimeMs: mtime * 1000 });
+    }
+  }
+
+  return entries;
+}
+
+function tarHeader(name: string, size: number, type: string, mtimeMs: number): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(name, 0, 100, 'utf-8');
+  header.write('0000644\0', 100);
+  header.write('0000000\0', 108);
+  header.write('0000000\0', 116);
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+  header.write(`${Math.floor(mtimeMs / 1000).toString(8).padStart(11, '0')}\0`, 136);
+  header.write(type, 156);
+  header.write('ustar\u000000', 257);
+
+  // The checksum is computed with its own field as spaces
+  header.write('        ', 148);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+}
+
+/**
+ * A pax record "<length> path=<name>\n", whose length counts its own digits
+ */
+function paxPathRecord(name: string): Buffer {
+  const body = ` path=${name}\n`;
+  let length = Buffer.byteLength(body);
+  while (Buffer.byteLength(`${length}${body}`) !== length) {
+    length = Buffer.byteLength(`${length}${body}`);
+  }
+  return Buffer.from(`${length}${body}`);
+}
+
+/**
+ * A tar archive of regular files, gzipped when `gzip` is set. Names longer
+ * than the 100 bytes ustar allows get a pax header.
+ */
+export function packTar(files: Array<{ path: string; content: string | Buffer }>, gzip = false): Buffer {
+  const blocks: Buffer[] = [];
+  const mtimeMs = Date.now();
+
+  for (const { path, content } of files) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8');
+    if (Buffer.byteLength(path) > 100) {
+      const pax = paxPathRecord(path);
+      blocks.push(tarHeader('PaxHeader', pax.length, 'x', mtimeMs), pax, tarPadding(pax.length));
+    }
+    blocks.push(tarHeader(path, data.length, '0', mtimeMs), data, tarPadding(data.length));
+  }
+
+  const tar = Buffer.concat([...blocks, Buffer.alloc(TAR_BLOCK * 2)]);
+  return gzip ? gzipSync(tar) : tar;
+}
+
+/**
+ * MS-DOS date and time fields of a zip entry, as local time
+ */
+function dosTime(date: number, time: number): number {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+/**
+ * Files in a zip archive, stored or deflated. Zip64 and encryption are not supported.
+ */
+function readZip(buffer: Buffer): Map<string, ArchiveEntry> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new StoreError('Not a zip archive: end of central directory not found');
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (offset === 0xffffffff) throw new StoreError('Zip64 archives are not supported');
+
+  const entries = new Map<string, ArchiveEntry>();
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_DIRECTORY_ENTRY) {
+      throw new StoreError(`Corrupt zip archive: bad central directory entry at byte ${offset}`);
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const mtimeMs = dosTime(buffer.readUInt16LE(offset + 14), buffer.readUInt16LE(offset + 12));
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new StoreError(`Encrypted zip entries are not supported: ${name}`);
+    if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new StoreError(`Corrupt zip archive: bad local header for ${name}`);
+    }
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) data = Buffer.from(compressed);
+    else if (method === 8) data = inflateRawSync(compressed);
+    else throw new StoreError(`Unsupported zip compression method ${method} for ${name}`);
+
+    entries.set(name, { data, mtimeMs });
+  }
+
+  return entries;
+}
+
+/**
+ * A read-only library in an archive. A library packed inside a single
+ * folder (mylib/prompts/...) is served from that folder.
+ */
+export class ArchiveStore implements LibraryStore {
+  readonly readOnly = true;
+  readonly location: string;
+  private entries = new Map<string, ArchiveEntry>();
+
+  constructor(archivePath: string) {
+    this.location = resolve(archivePath);
+
+    let buffer = readFileSync(this.location);
+    const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+    if (isGzip) buffer = gunzipSync(buffer);
+
+    const isZip = !isGzip && buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER;
+    const raw = isZip ? readZip(buffer) : readTar(buffer);
+
+    for (const [name, entry] of raw) {
+      const path = normalizeStorePath(name);
+      // Skip entries that would escape the root and macOS resource forks
+      if (!path || path.startsWith('__MACOSX/')) continue;
+      this.entries.set(path, entry);
+    }
+
+    const paths = Array.from(this.entries.keys());
+    const folders = new Set(paths.map((path) => (path.includes('/') ? path.split('/')[0] : '')));
+    const [folder] = folders;
+    if (folders.size === 1 && folder && !paths.some((path) => path.startsWith('prompts/'))) {
+      this.entries = new Map(Array.from(this.entries, ([path, entry]) => [path.slice(folder.length + 1), entry]));
+    }
+  }
+
+  private normalize(path: string): string {
+    const normalized = normalizeStorePath(path);
+    if (normalized === null) throw new StoreError(`Path "${path}" is outside the library`);
+    return normalized;
+  }
+
+  resolve(path: string): string {
+    return `${this.location}/${this.normalize(path)}`;
+  }
+
+  list(directory: string): string[] {
+    const dir = this.normalize(directory);
+    return Array.from(this.entries.keys()).filter((path) => isUnder(path, dir) && !isHiddenPath(path)).sort();
+  }
+
+  read(path: string): string | null {
+    return this.entries.get(this.normalize(path))?.data.toString('utf-8') ?? null;
+  }
+
+  stat(path: string): StoreStat | null {
+    const entry = this.entries.get(this.normalize(path));
+    return entry ? { mtimeMs: entry.mtimeMs, size: entry.data.length } : null;
+  }
+
+  write(): void {
+    throw new StoreError(`${this.location} is a read-only archive`);
+  }
+
+  delete(): void {
+    throw new StoreError(`${this.location} is a read-only archive`);
+  }
+
+  /**
+   * Archives never change while served
+   */
+  watch(): StoreWatcher {
+    return { close: () => {} };
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Bundles - Packaged collections of library items for sharing between
+ * teams: a directory or .tar/.tgz/.zip archive with a manifest.json that
+ * lists each item with its SHA-256 hash, optionally signed in manifest.sig
+ */
+
+import { existsSync, mkdirSync, readdirSync, realpathSync, writeFileSync } from 'fs';
+import { join, dirname, resolve, relative, isAbsolute } from 'path';
+import { createHash, createHmac, createPrivateKey, createPublicKey, sign, verify, timingSafeEqual, type KeyObject } from 'crypto';
+import { FileSystemStore } from './fs-store.js';
+import { ArchiveStore, isArchivePath, packTar } from './archive-store.js';
+import { normalizeStorePath, isHiddenPath, type LibraryStore } from './store.js';
+import { checkSchema, BundleManifestSchema, BundleSignatureSchema } from './schemas.js';
+import type { BundleManifest, BundleManifestItem, BundleSignature, LibraryItem } from '../types.js';
+
+export const MANIFEST_FILE = 'manifest.json';
+export const SIGNATURE_FILE = 'manifest.sig';
+
+export interface BundleFile {
+  path: string; // as listed in the manifest
+  version?: string;
+  content: string;
+  sha256: string;
+}
+
+// A bundle whose files all matched their manifest hashes
+export interface Bundle {
+  location: string;
+  manifest: BundleManifest;
+  files: BundleFile[];
+  // Present when the bundle is signed; verified only when opened with a key
+  signature?: { algorithm: BundleSignature['algorithm']; keyId: string; verified: boolean };
+}
+
+export interface OpenBundleOptions {
+  /** Shared HMAC secret or Ed25519 key (PEM, public or private); a signature must match it */
+  key?: string;
+  /** Refuse a bundle without manifest.sig (default: when there is a key) */
+  requireSignature?: boolean;
+}
+
+export interface TrustedBundleOptions {
+  /** Directory bundles must be in; relative paths resolve against it */
+  directory: string;
+  /** Key a bundle must be signed with */
+  key?: string;
+  /** Accept bundles that are unsigned, or signed but with no key to check against */
+  allowUnsigned?: boolean;
+}
+
+export interface ExportOptions {
+  name: string;
+  version: string;
+  description?: string;
+  /** Shared HMAC secret or Ed25519 private key (PEM) to sign the manifest with */
+  key?: string;
+}
+
+export class BundleError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = []
+  ) {
+    super(problems.length ? `${message}:\n- ${problems.join('\n- ')}` : message);
+    this.name = 'BundleError';
+  }
+}
+
+export function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+type SigningKey =
+  | { algorithm: 'ed25519'; privateKey?: KeyObject; publicKey: KeyObject }
+  | { algorithm: 'hmac-sha256'; secret: Buffer };
+
+/**
+ * A PEM key is used for Ed25519 signatures; any other text is an HMAC secret
+ */
+function readKey(key: string): SigningKey {
+  if (!key.includes('-----BEGIN')) {
+    const secret = Buffer.from(key.trim(), 'utf-8');
+    if (secret.length === 0) throw new BundleError('The HMAC secret is empty');
+    return { algorithm: 'hmac-sha256', secret };
+  }
+
+  const privateKey = /PRIVATE KEY/.test(key) ? createPrivateKey(key) : undefined;
+  const publicKey = privateKey ? createPublicKey(privateKey) : createPublicKey(key);
+  if (publicKey.asymmetricKeyType !== 'ed25519') {
+    throw new BundleError(`Unsupported ${publicKey.asymmetricKeyType} key; use an Ed25519 key or an HMAC secret`);
+  }
+  return { algorithm: 'ed25519', privateKey, publicKey };
+}
+
+function keyId(key: SigningKey): string {
+  const material = key.algorithm === 'ed25519' ? key.publicKey.export({ type: 'spki', format: 'der' }) : key.secret;
+  return createHash('sha256').update(material).digest('hex').slice(0, 16);
+}
+
+/**
+ * Sign the exact bytes of a manifest.json
+ */
+export function signManifest(manifestJson: string, key: string): BundleSignature {
+  const signingKey = readKey(key);
+  const data = Buffer.from(manifestJson, 'utf-8');
+
+  if (signingKey.algorithm === 'hmac-sha256') {
+    const signature = createHmac('sha256', signingKey.secret).update(data).digest('base64');
+    return { algorithm: 'hmac-sha256', keyId: keyId(signingKey), signature };
+  }
+  if (!signingKey.privateKey) throw new BundleError('Signing needs an Ed25519 private key, not a public key');
+  return { algorithm: 'ed25519', keyId: keyId(signingKey), signature: sign(null, data, signingKey.privateKey).toString('base64') };
+}
+
+export function verifyManifest(manifestJson: string, signature: BundleSignature, key: string): boolean {
+  const signingKey = readKey(key);
+  if (signingKey.algorithm !== signature.algorithm) return false;
+
+  const data = Buffer.from(manifestJson, 'utf-8');
+  const actual = Buffer.from(signature.signature, 'base64');
+  if (signingKey.algorithm === 'hmac-sha256') {
+    const expected = createHmac('sha256', signingKey.secret).update(data).digest();
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+  return verify(null, data, signingKey.publicKey, actual);
+}
+
+/**
+ * Check manifest.sig, if any. With a key a signature must match it.
+ */
+function checkSignature(store: LibraryStore, manifestJson: string, key: string | undefined, required: boolean): Bundle['signature'] {
+  const content = store.read(SIGNATURE_FILE);
+  if (content === null) {
+    if (required) throw new BundleError(`${store.location} is not signed (no ${SIGNATURE_FILE})`);
+    return undefined;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    data = null;
+  }
+  const result = BundleSignatureSchema.safeParse(data);
+  if (!result.success) throw new BundleError(`Invalid ${SIGNATURE_FILE}`);
+
+  const signature = result.data;
+  if (key && !verifyManifest(manifestJson, signature, key)) {
+    throw new BundleError(`The ${signature.algorithm} signature of ${MANIFEST_FILE} does not match the key (signed with key ${signature.keyId})`);
+  }
+  return { algorithm: signature.algorithm, keyId: signature.keyId, verified: Boolean(key) };
+}
+
+/**
+ * Open a bundle and verify every listed file against its hash. Throws a
+ * BundleError listing every problem, so nothing is imported from a bundle
+ * that was tampered with or packed incompletely.
+ */
+export function openBundle(path: string, options: OpenBundleOptions = {}): Bundle {
+  if (!existsSync(path)) throw new BundleError(`Bundle not found: ${path}`);
+
+  const store = isArchivePath(path) ? new ArchiveStore(path) : new FileSystemStore(path);
+  const manifestContent = store.read(MANIFEST_FILE);
+  if (manifestContent === null) throw new BundleError(`${store.location} has no ${MANIFEST_FILE}`);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(manifestContent);
+  } catch (error) {
+    throw new BundleError(`Invalid ${MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { data: manifest, issues } = checkSchema(BundleManifestSchema, data);
+  if (!manifest) {
+    throw new BundleError(`Invalid ${MANIFEST_FILE}`, issues.map((issue) => `${issue.path}: ${issue.message}`));
+  }
+
+  const signature = checkSignature(store, manifestContent, options.key, options.requireSignature ?? Boolean(options.key));
+
+  const problems: string[] = [];
+  const files: BundleFile[] = [];
+  const seen = new Set<string>();
+
+  for (const item of manifest.items) {
+    // SECURITY: manifest paths are untrusted; they must already be clean and relative
+    if (normalizeStorePath(item.path) !== item.path || isHiddenPath(item.path) || !item.path.endsWith('.md')) {
+      problems.push(`${item.path}: not a relative path to a .md file`);
+      continue;
+    }
+    if (seen.has(item.path)) {
+      problems.push(`${item.path}: listed more than once`);
+      continue;
+    }
+    seen.add(item.path);
+
+    const content = store.read(item.path);
+    if (content === null) {
+      problems.push(`${item.path}: missing from the bundle`);
+      continue;
+    }
+
+    const actual = sha256(content);
+    if (actual !== item.sha256.toLowerCase()) {
+      problems.push(`${item.path}: SHA-256 mismatch (expected ${item.sha256.toLowerCase()}, got ${actual})`);
+      continue;
+    }
+
+    files.push({ path: item.path, version: item.version, content, sha256: actual });
+  }
+
+  if (problems.length > 0) {
+    throw new BundleError(`Bundle ${manifest.name}@${manifest.version} failed verification`, problems);
+  }
+
+  return { location: store.location, manifest, files, ...(signature ? { signature } : {}) };
+}
+
+/**
+ * Open a bundle for a client that must not reach arbitrary paths or install
+ * unverified items (the import_bundle tool): the bundle must be inside
+ * `directory` and signed with `key`, unless allowUnsigned is set
+ */
+export function openTrustedBundle(path: string, options: TrustedBundleOptions): Bundle {
+  const directory = resolve(options.directory);
+  const fullPath = resolve(directory, path);
+
+  // Follow symlinks before comparing, so a link cannot point out of the directory
+  const real = (p: string) => (existsSync(p) ? realpathSync(p) : p);
+  const relativePath = relative(real(directory), real(fullPath));
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new BundleError(`Bundles can only be imported from ${directory}`);
+  }
+
+  const bundle = openBundle(fullPath, { key: options.key, requireSignature: !options.allowUnsigned });
+  if (bundle.signature && !bundle.signature.verified && !options.allowUnsigned) {
+    throw new BundleError(
+      `${bundle.location} is signed with ${bundle.signature.algorithm} key ${bundle.signature.keyId}, but no key is configured to verify it`
+    );
+  }
+  return bundle;
+}
+
+/**
+ * The manifest for a set of exported items
+ */
+export function createManifest(
+  entries: Array<{ item: LibraryItem; dependencies: string[] }>,
+  options: ExportOptions
+): BundleManifest {
+  const items: BundleManifestItem[] = entries.map(({ item, dependencies }) => {
+    const { version, ...metadata } = item.metadata;
+    return {
+      path: item.relativePath,
+      id: item.id,
+      ...(typeof version === 'string' ? { version } : {}),
+      sha256: sha256(item.content),
+      metadata,
+      ...(dependencies.length ? { dependencies } : {}),
+    };
+  });
+
+  return {
+    name: options.name,
+    version: options.version,
+    ...(options.description ? { description: options.description } : {}),
+    createdAt: new Date().toISOString(),
+    items,
+  };
+}
+
+/**
+ * Write a bundle of items to a .tgz/.tar.gz or .tar archive, or to a new
+ * directory for any other path. With a key, manifest.sig is written too.
+ */
+export function writeBundle(
+  output: string,
+  entries: Array<{ item: LibraryItem; dependencies: string[] }>,
+  options: ExportOptions
+): { manifest: BundleManifest; signature?: BundleSignature } {
+  const { data: manifest, issues } = checkSchema(BundleManifestSchema, createManifest(entries, options));
+  if (!manifest) {
+    throw new BundleError('Cannot export', issues.map((issue) => `${issue.path}: ${issue.message}`));
+  }
+
+  const manifestJson = `${JSON.stringify(manifest, null, 2)}\n`;
+  const signature = options.key ? signManifest(manifestJson, options.key) : undefined;
+
+  const files = [
+    { path: MANIFEST_FILE, content: manifestJson },
+    ...(signature ? [{ path: SIGNATURE_FILE, content: `${JSON.stringify(signature, null, 2)}\n` }] : []),
+    ...entries.map(({ item }) => ({ path: item.relativePath, content: item.content })),
+  ];
+
+  if (/\.(tgz|tar\.gz|tar)$/i.test(output)) {
+    writeFileSync(output, packTar(files, !/\.tar$/i.test(output)));
+  } else if (isArchivePath(output)) {
+    throw new BundleError(`Cannot write ${output}: bundles are exported as .tgz, .tar.gz, .tar or a directory`);
+  } else {
+    if (existsSync(output) && readdirSync(output).length > 0) {
+      throw new BundleError(`${output} already exists and is not empty`);
+    }
+    for (const file of files) {
+      const path = join(output, file.path);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, file.content, 'utf-8');
+    }
+  }
+
+  return { manifest, ...(signature ? { signature } : {}) };
+}
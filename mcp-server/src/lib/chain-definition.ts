@@ -0,0 +1,225 @@
+/**
+ * Chain Definitions - Chains written as data (chains/*.chain.yaml, .yml or
+ * .json) rather than markdown. They are validated against a schema and
+ * load into the same Chain type, so sessions, branches and **Use:**
+ * references work the same. Problems are reported with their line.
+ */
+
+import { LineCounter, parseDocument, stringify, type Document } from 'yaml';
+import { ChainDefinitionSchema, formatJsonPath, type ChainDefinition } from './schemas.js';
+import { extractVariables } from './variables.js';
+import { STEP_OUTPUTS_VARIABLE } from './parser.js';
+import type { Chain, ChainStep, LibraryItem, LibraryItemMetadata } from '../types.js';
+
+const DEFINITION_PATTERN = /\.chain\.(ya?ml|json)$/;
+
+export const CHAIN_DEFINITION_EXTENSIONS = ['.chain.yaml', '.chain.yml', '.chain.json'];
+
+export interface ChainDefinitionIssue {
+  path: string; // JSON path in the definition, e.g. $.steps[1].title
+  line?: number; // 1-based
+  message: string;
+}
+
+export class ChainDefinitionError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: ChainDefinitionIssue[]
+  ) {
+    super(issues.map((issue) => `${file}${issue.line ? `:${issue.line}` : ''}: ${issue.path}: ${issue.message}`).join('\n'));
+    this.name = 'ChainDefinitionError';
+  }
+}
+
+/**
+ * Whether a library file is a chain definition rather than markdown
+ */
+export function isChainDefinitionPath(relativePath: string): boolean {
+  return relativePath.startsWith('chains/') && DEFINITION_PATTERN.test(relativePath);
+}
+
+/**
+ * The file name without its ".chain.yaml" suffix
+ */
+export function chainDefinitionName(relativePath: string): string {
+  return relativePath.split('/').pop()!.replace(DEFINITION_PATTERN, '');
+}
+
+/**
+ * Title, description, tags and related items for indexing, read leniently
+ * so that an invalid definition is still listed (and linted)
+ */
+export function chainDefinitionMetadata(content: string): LibraryItemMetadata {
+  let data: unknown;
+  try {
+    data = parseDocument(content).toJS();
+  } catch {
+    return {};
+  }
+  if (!data || typeof data !== 'object') return {};
+
+  const { name, description, tags, related } = data as Record<string, unknown>;
+  const strings = (value: unknown) => (Array.isArray(value) ? value.map(String) : undefined);
+  return {
+    ...(typeof name === 'string' ? { title: name } : {}),
+    ...(typeof description === 'string' ? { description } : {}),
+    ...(strings(tags) ? { tags: strings(tags) } : {}),
+    ...(strings(related) ? { related: strings(related) } : {}),
+  };
+}
+
+// Frontmatter fields a definition can hold, and the keys they are stored under
+const METADATA_KEYS: Record<string, string> = { title: 'name', description: 'description', tags: 'tags', related: 'related' };
+
+/**
+ * Merge frontmatter-style metadata into a definition, keeping its format
+ * (and, for YAML, its comments). Throws a ChainDefinitionError if a field
+ * has no place in a definition or the result does not validate.
+ */
+export function updateChainDefinition(relativePath: string, content: string, metadata: LibraryItemMetadata): string {
+  const unsupported = Object.keys(metadata).filter((key) => !(key in METADATA_KEYS));
+  if (unsupported.length > 0) {
+    throw new ChainDefinitionError(
+      relativePath,
+      unsupported.map((key) => ({ path: '$', message: `Metadata field "${key}" cannot be set on a chain definition` }))
+    );
+  }
+
+  readChainDefinition(relativePath, content);
+  const fields = Object.entries(metadata).map(([key, value]) => [METADATA_KEYS[key], value] as const);
+
+  let updated: string;
+  if (relativePath.endsWith('.json')) {
+    updated = `${JSON.stringify({ ...JSON.parse(content), ...Object.fromEntries(fields) }, null, 2)}\n`;
+  } else {
+    const doc = parseDocument(content);
+    for (const [key, value] of fields) doc.set(key, value);
+    updated = doc.toString({ lineWidth: 0 });
+  }
+
+  readChainDefinition(relativePath, updated);
+  return updated;
+}
+
+/**
+ * Line of the node at `path`, or of its closest ancestor when the node is
+ * missing (a required key that was left out)
+ */
+function lineAt(doc: Document, lineCounter: LineCounter, path: Array<string | number>): number | undefined {
+  for (let length = path.length; length >= 0; length--) {
+    const node = length === 0 ? doc.contents : doc.getIn(path.slice(0, length), true);
+    const range = (node as { range?: [number, number, number] } | undefined)?.range;
+    if (range) return lineCounter.linePos(range[0]).line;
+  }
+  return undefined;
+}
+
+/**
+ * Read and validate a definition. Throws a ChainDefinitionError listing
+ * every problem, with its line.
+ */
+export function readChainDefinition(relativePath: string, content: string): ChainDefinition {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, uniqueKeys: true });
+
+  if (doc.errors.length > 0) {
+    throw new ChainDefinitionError(
+      relativePath,
+      doc.errors.map((error) => ({
+        path: '$',
+        line: error.linePos?.[0].line,
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      }))
+    );
+  }
+
+  const result = ChainDefinitionSchema.safeParse(doc.toJS());
+  if (!result.success) {
+    throw new ChainDefinitionError(
+      relativePath,
+      result.error.issues.map((issue) => {
+        // Point unknown keys at the key itself
+        const keys = issue.code === 'unrecognized_keys' ? issue.keys : [];
+        const path = keys.length === 1 ? [...issue.path, keys[0]] : issue.path;
+        return { path: formatJsonPath(issue.path), line: lineAt(doc, lineCounter, path), message: issue.message };
+      })
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Load a chain definition item into a Chain
+ */
+export function parseChainDefinition(item: LibraryItem): Chain {
+  const definition = readChainDefinition(item.relativePath, item.content);
+
+  const steps = definition.steps.map((step, i): ChainStep => {
+    const stepNumber = i + 1;
+    const label = step.id ?? String(stepNumber);
+    return {
+      stepNumber,
+      ...(label !== String(stepNumber) ? { label } : {}),
+      title: step.title,
+      prompt: (step.prompt ?? '').trim(),
+      expectedOutput: step.expectedOutput,
+      decisionPoint: step.decision,
+      ...(step.branches
+        ? { branches: Object.entries(step.branches).map(([outcome, target]) => ({ outcome, step: target })) }
+        : {}),
+      ...(step.use ? { use: { reference: step.use.item, modifiers: step.use.modifiers } } : {}),
+    };
+  });
+
+  // As in markdown chains, variables the prompts read are accepted even if
+  // not declared; {{steps.*}} holds earlier step outputs
+  const prompts = steps.map((step) => step.prompt).join('\n\n');
+  const variables = extractVariables({ variables: definition.variables }, prompts).variables.filter(
+    (v) => v.name !== STEP_OUTPUTS_VARIABLE
+  );
+
+  return {
+    id: item.id,
+    name: definition.name,
+    description: definition.description ?? '',
+    overview: definition.overview ?? '',
+    prerequisites: definition.prerequisites,
+    variables,
+    steps,
+    tips: definition.tips,
+    item,
+  };
+}
+
+/**
+ * Write a chain (e.g. a parsed markdown chain) as a YAML definition.
+ * **Use:** steps keep their reference and their own prompt, not the
+ * resolved one.
+ */
+export function chainToDefinition(chain: Chain): string {
+  const { tags, related } = chain.item.metadata;
+
+  const definition = {
+    name: chain.name,
+    ...(chain.description ? { description: chain.description } : {}),
+    ...(chain.overview ? { overview: chain.overview } : {}),
+    ...(tags?.length ? { tags } : {}),
+    ...(Array.isArray(related) && related.length ? { related } : {}),
+    ...(chain.prerequisites.length ? { prerequisites: chain.prerequisites } : {}),
+    ...(chain.variables.length ? { variables: chain.variables } : {}),
+    steps: chain.steps.map((step) => ({
+      ...(step.label ? { id: step.label } : {}),
+      title: step.title,
+      ...(step.use ? { use: [step.use.reference, ...step.use.modifiers].join(' + ') } : {}),
+      ...(step.prompt ? { prompt: `${step.prompt}\n` } : {}),
+      ...(step.expectedOutput.length ? { expectedOutput: step.expectedOutput } : {}),
+      ...(step.decisionPoint ? { decision: step.decisionPoint } : {}),
+      ...(step.branches?.length
+        ? { branches: Object.fromEntries(step.branches.map((branch) => [branch.outcome, branch.step])) }
+        : {}),
+    })),
+    ...(chain.tips?.length ? { tips: chain.tips } : {}),
+  };
+
+  return stringify(definition, { lineWidth: 0 });
+}
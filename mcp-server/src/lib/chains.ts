@@ -2,11 +2,31 @@
  * Chain Manager - Manages active chain sessions and workflow state
  */
 
-import type { Chain, ChainSession, ChainStep } from '../types.js';
+import type { Chain, ChainPathEntry, ChainSession, ChainStep, ChainStepOutput, VariableDefinition } from '../types.js';
+import { replacePlaceholders, replaceBracketReferences } from './variables.js';
+import { renderTemplate, TemplateError } from './template.js';
+import { stepLabel, STEP_OUTPUTS_VARIABLE } from './parser.js';
 import { randomBytes } from 'crypto';
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 
+/**
+ * A chain session cannot move as asked, e.g. an outcome that is not one of
+ * the current step's branches
+ */
+export class ChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChainError';
+  }
+}
+
+// Capture names become template variables, so they must be usable as {{name}}
+const CAPTURE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+// Context key substituteVariables reads placeholder and [name] values from
+const PLAIN_VALUES = '__values';
+
 function generateSessionId(): string {
   return randomBytes(8).toString('hex');
 }
@@ -20,12 +40,15 @@ interface PersistedSession {
   startedAt: string;
   context: Record<string, string>;
   completedSteps: number[];
+  path?: ChainPathEntry[]; // missing in sessions saved before branching
+  outputs?: ChainStepOutput[]; // missing in sessions saved before step outputs
 }
 
 export class ChainManager {
   private sessions: Map<string, ChainSession> = new Map();
   private debug: boolean;
   private persistPath: string | null = null;
+  private include: ((id: string) => string | null) | undefined;
 
   constructor(debug = false) {
     this.debug = debug;
@@ -58,6 +81,8 @@ export class ChainManager {
         const session: ChainSession = {
           ...p,
           startedAt: new Date(p.startedAt),
+          path: p.path ?? [{ step: p.currentStep }],
+          outputs: p.outputs ?? [],
         };
         this.sessions.set(session.id, session);
       }
@@ -95,6 +120,8 @@ export class ChainManager {
       startedAt: new Date(),
       context,
       completedSteps: [],
+      path: [{ step: 1 }],
+      outputs: [],
     };
 
     this.sessions.set(session.id, session);
@@ -119,18 +146,69 @@ export class ChainManager {
   }
 
   /**
-   * Advance to the next step in a chain
+   * Find a step by its label as written in the chain: 3, "1b" or "Step 1b"
+   */
+  findStep(chain: Chain, reference: string | number): ChainStep | null {
+    const label = String(reference).trim().replace(/^step\s+/i, '').toLowerCase();
+    return chain.steps.find((step) => stepLabel(step).toLowerCase() === label) || null;
+  }
+
+  /**
+   * The step that follows `stepNumber`: the branch matching `outcome` at a
+   * decision point, otherwise the next step. Null when the chain is done.
+   * Throws a ChainError when the step has branches and `outcome` is not one
+   * of them.
+   */
+  nextStep(chain: Chain, stepNumber: number, outcome?: string): number | null {
+    const step = chain.steps.find((s) => s.stepNumber === stepNumber);
+    if (!step?.branches?.length) {
+      return stepNumber < chain.steps.length ? stepNumber + 1 : null;
+    }
+
+    const outcomes = step.branches.map((b) => `"${b.outcome}"`).join(', ');
+    if (!outcome) {
+      throw new ChainError(`Step ${stepLabel(step)} is a decision point; pass an outcome: ${outcomes}`);
+    }
+    const branch = step.branches.find((b) => b.outcome.toLowerCase() === outcome.trim().toLowerCase());
+    if (!branch) {
+      throw new ChainError(`"${outcome}" is not an outcome of step ${stepLabel(step)}; expected ${outcomes}`);
+    }
+    if (branch.step === 'end') return null;
+
+    const target = this.findStep(chain, branch.step);
+    if (!target) {
+      throw new ChainError(`Step ${stepLabel(step)} routes "${branch.outcome}" to step ${branch.step}, which does not exist`);
+    }
+    return target.stepNumber;
+  }
+
+  /**
+   * Advance to the next step in a chain. Given the chain, decision points
+   * route by `outcome`; without it, steps are taken in order. At the end of
+   * the chain the session stays on its last step.
    */
-  advanceStep(sessionId: string): ChainSession | null {
+  advanceStep(sessionId: string, chain?: Chain, outcome?: string): ChainSession | null {
     const session = this.sessions.get(sessionId);
     if (!session) return null;
 
+    const next = chain
+      ? this.nextStep(chain, session.currentStep, outcome)
+      : session.currentStep < session.totalSteps
+        ? session.currentStep + 1
+        : null;
+
     if (!session.completedSteps.includes(session.currentStep)) {
       session.completedSteps.push(session.currentStep);
     }
-
-    if (session.currentStep < session.totalSteps) {
-      session.currentStep++;
+    // Record the outcome as the chain spells it
+    const branches = chain?.steps.find((s) => s.stepNumber === session.currentStep)?.branches || [];
+    const branch = branches.find((b) => b.outcome.toLowerCase() === outcome?.trim().toLowerCase());
+    const last = session.path[session.path.length - 1];
+    if (outcome && last) last.outcome = branch?.outcome ?? outcome;
+
+    if (next !== null) {
+      session.currentStep = next;
+      session.path.push({ step: next });
       this.log('Advanced session', sessionId, 'to step', session.currentStep);
     }
 
@@ -138,6 +216,60 @@ export class ChainManager {
     return session;
   }
 
+  /**
+   * Record what the current step produced: its output and any named
+   * captures. Later steps read them as {{steps.<label>.output}},
+   * {{steps.<label>.<name>}} and {{name}}.
+   */
+  recordOutput(
+    sessionId: string,
+    chain: Chain,
+    output?: string,
+    captures: Record<string, string> = {}
+  ): ChainSession | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    const invalid = Object.keys(captures).filter(
+      (name) => !CAPTURE_NAME_PATTERN.test(name) || name === STEP_OUTPUTS_VARIABLE || name === 'output'
+    );
+    if (invalid.length > 0) {
+      throw new ChainError(
+        `Invalid capture name(s): ${invalid.join(', ')}. Use letters, digits, _ and -, other than "${STEP_OUTPUTS_VARIABLE}" and "output".`
+      );
+    }
+    if (output === undefined && Object.keys(captures).length === 0) return session;
+
+    const step = chain.steps.find((s) => s.stepNumber === session.currentStep);
+    session.outputs.push({
+      step: session.currentStep,
+      label: step ? stepLabel(step) : String(session.currentStep),
+      title: step?.title ?? '',
+      ...(output !== undefined ? { output } : {}),
+      captures,
+    });
+    this.saveSessions();
+    this.log('Recorded output of step', session.currentStep, 'in session', sessionId);
+    return session;
+  }
+
+  /**
+   * Variables a step is rendered with: the session context, then captures
+   * and step outputs in the order they were recorded, so a revisited step's
+   * latest output wins
+   */
+  stepContext(session: ChainSession): Record<string, unknown> {
+    const steps: Record<string, Record<string, string>> = {};
+    const captures: Record<string, string> = {};
+
+    for (const entry of session.outputs) {
+      steps[entry.label] = { ...entry.captures, ...(entry.output !== undefined ? { output: entry.output } : {}) };
+      Object.assign(captures, entry.captures);
+    }
+
+    return { ...session.context, ...captures, [STEP_OUTPUTS_VARIABLE]: steps };
+  }
+
   /**
    * Go back to a previous step
    */
@@ -147,6 +279,7 @@ export class ChainManager {
 
     if (stepNumber >= 1 && stepNumber <= session.totalSteps) {
       session.currentStep = stepNumber;
+      session.path.push({ step: stepNumber });
       this.saveSessions();
       this.log('Moved session', sessionId, 'to step', stepNumber);
     }
@@ -190,42 +323,77 @@ export class ChainManager {
   }
 
   /**
-   * Substitute context variables in a prompt
-   * Variables are in format [variable_name] or {{variable_name}}
+   * Resolve {{> id}} includes in step prompts, e.g. against the library
    */
-  substituteVariables(prompt: string, context: Record<string, string>): string {
-    let result = prompt;
-
-    // Handle [variable] format
-    result = result.replace(/\[([^\]]+)\]/g, (match, varName) => {
-      const key = varName.toLowerCase().replace(/\s+/g, '_');
-      return context[key] || context[varName] || match;
-    });
-
-    // Handle {{variable}} format
-    result = result.replace(/\{\{([^}]+)\}\}/g, (match, varName) => {
-      const key = varName.trim().toLowerCase().replace(/\s+/g, '_');
-      return context[key] || context[varName.trim()] || match;
-    });
+  setIncludeResolver(include: (id: string) => string | null): void {
+    this.include = include;
+  }
 
-    return result;
+  /**
+   * Substitute context variables in a prompt: {{variable}}, {{#if}} and
+   * includes, declared placeholders and [variable_name] references.
+   * Placeholders and references become template lookups before rendering,
+   * so text the template inserts (e.g. a step output) is never rewritten.
+   */
+  substituteVariables(
+    prompt: string,
+    context: Record<string, unknown>,
+    variables: VariableDefinition[] = [],
+    source?: string
+  ): string {
+    // Placeholders are filled from plain values only, not from {{steps}}
+    const values = Object.entries(context).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+    const lookups = Object.fromEntries(values.map(([key, value], i) => [key, value && `{{${PLAIN_VALUES}.${i}}}`]));
+    const toLookups = (text: string) => replaceBracketReferences(replacePlaceholders(text, variables, lookups), lookups);
+
+    const include = this.include;
+    return renderTemplate(
+      toLookups(prompt),
+      { ...context, [PLAIN_VALUES]: values.map(([, value]) => value) },
+      {
+        include: include && ((id) => {
+          const text = include(id);
+          return text === null ? null : toLookups(text);
+        }),
+        source,
+      }
+    );
   }
 
   /**
-   * Format a step for display
+   * Format a step for display. Declared chain variables, and those of the
+   * item a **Use:** step runs, let placeholders differ from the variable
+   * names. A step whose template is malformed is shown as written, with
+   * the error.
    */
-  formatStep(step: ChainStep, session: ChainSession): string {
+  formatStep(step: ChainStep, session: ChainSession, variables: VariableDefinition[] = []): string {
     const lines: string[] = [];
 
-    lines.push(`## Step ${step.stepNumber}: ${step.title}`);
+    lines.push(`## Step ${stepLabel(step)}: ${step.title}`);
     lines.push('');
 
+    if (step.use) {
+      const used = [step.use.itemId ?? step.use.reference, ...(step.use.modifierIds ?? step.use.modifiers)];
+      lines.push(`**Uses:** ${used.map((id) => `\`${id}\``).join(' + ')}`);
+      if (step.use.missing?.length) {
+        lines.push('', `> **Not in the library:** ${step.use.missing.join(', ')}`);
+      }
+      lines.push('');
+    }
+
     if (step.prompt) {
-      const substitutedPrompt = this.substituteVariables(step.prompt, session.context);
       lines.push('### Prompt');
-      lines.push('```');
-      lines.push(substitutedPrompt);
-      lines.push('```');
+      try {
+        const source = `${session.chainId}#step-${step.stepNumber}`;
+        const stepVariables = [...variables, ...(step.variables || [])];
+        const substitutedPrompt = this.substituteVariables(step.prompt, this.stepContext(session), stepVariables, source);
+        lines.push('```');
+        lines.push(substitutedPrompt);
+        lines.push('```');
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        lines.push(`> **Template error:** ${error.message}`, '', '```', step.prompt, '```');
+      }
       lines.push('');
     }
 
@@ -242,26 +410,96 @@ export class ChainManager {
       lines.push('');
     }
 
+    if (step.branches?.length) {
+      lines.push('### Next');
+      for (const branch of step.branches) {
+        const target = branch.step === 'end' ? 'end of chain' : `Step ${branch.step}`;
+        lines.push(`- \`outcome="${branch.outcome}"\` → ${target}`);
+      }
+      lines.push('');
+    }
+
     return lines.join('\n');
   }
 
   /**
-   * Format session status for display
+   * Format session status for display. Given a chain with decision points,
+   * the path taken and the steps ahead replace the linear progress bar.
    */
-  formatSessionStatus(session: ChainSession): string {
+  formatSessionStatus(session: ChainSession, chain?: Chain): string {
     const progress = `${session.completedSteps.length}/${session.totalSteps}`;
-    const progressBar = this.createProgressBar(
-      session.currentStep,
-      session.totalSteps
+    const lines = [`**Chain:** ${session.chainName}`, `**Progress:** ${progress} steps completed`];
+
+    if (!chain?.steps.some((step) => step.branches?.length)) {
+      lines.push(
+        `**Current Step:** ${session.currentStep} of ${session.totalSteps}`,
+        ``,
+        this.createProgressBar(session.currentStep, session.totalSteps)
+      );
+      return lines.join('\n');
+    }
+
+    const label = (stepNumber: number) => {
+      const step = chain.steps.find((s) => s.stepNumber === stepNumber);
+      return step ? stepLabel(step) : String(stepNumber);
+    };
+    const taken = session.path.map((entry, i) =>
+      i === session.path.length - 1
+        ? `**${label(entry.step)}**`
+        : `${label(entry.step)}${entry.outcome ? ` (${entry.outcome})` : ''}`
+    );
+    const current = chain.steps.find((s) => s.stepNumber === session.currentStep);
+    lines.push(
+      `**Current Step:** ${label(session.currentStep)}${current ? `: ${current.title}` : ''}`,
+      `**Path:** ${taken.join(' → ')}`
     );
 
-    return [
-      `**Chain:** ${session.chainName}`,
-      `**Progress:** ${progress} steps completed`,
-      `**Current Step:** ${session.currentStep} of ${session.totalSteps}`,
-      ``,
-      progressBar,
-    ].join('\n');
+    // Steps ahead are certain up to the next decision point
+    const ahead: string[] = [];
+    let stepNumber: number | null = session.currentStep;
+    const seen = new Set([stepNumber]);
+    while (stepNumber !== null) {
+      const step = chain.steps.find((s) => s.stepNumber === stepNumber);
+      if (step?.branches?.length) {
+        const routes = step.branches.map((b) => `${b.outcome} → ${b.step}`).join(', ');
+        ahead.push(`decision at ${stepLabel(step)} (${routes})`);
+        break;
+      }
+      stepNumber = this.nextStep(chain, stepNumber);
+      if (stepNumber === null) {
+        ahead.push('end');
+      } else if (seen.has(stepNumber)) {
+        break;
+      } else {
+        seen.add(stepNumber);
+        ahead.push(label(stepNumber));
+      }
+    }
+    lines.push(`**Ahead:** ${ahead.join(' → ')}`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * The outputs recorded so far, step by step
+   */
+  formatTranscript(session: ChainSession): string {
+    if (session.outputs.length === 0) {
+      return 'No step outputs recorded yet. Pass `step_output` (and `captures`) to `chain_next`.';
+    }
+
+    const lines: string[] = [];
+    for (const entry of session.outputs) {
+      lines.push(`### Step ${entry.label}${entry.title ? `: ${entry.title}` : ''}`, '');
+      if (entry.output !== undefined) {
+        lines.push(entry.output, '');
+      }
+      for (const [name, value] of Object.entries(entry.captures)) {
+        lines.push(`- **${name}:** ${value}`);
+      }
+      if (Object.keys(entry.captures).length > 0) lines.push('');
+    }
+    return lines.join('\n').trimEnd();
   }
 
   /**
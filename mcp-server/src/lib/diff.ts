@@ -0,0 +1,121 @@
+/**
+ * Diff - Line-based unified diffs between two versions of a text
+ */
+
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+export interface DiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  context?: number; // unchanged lines shown around each change
+}
+
+// Beyond this many comparisons the changed middle is shown as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Lines kept, removed and added to turn `before` into `after`, from a
+ * longest common subsequence of the lines between their common ends
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const lines: DiffLine[] = before.slice(0, start).map((line) => ({ type: ' ', line }));
+  const removed = before.slice(start, endBefore);
+  const added = after.slice(start, endAfter);
+
+  if (removed.length * added.length > MAX_LCS_CELLS) {
+    lines.push(...removed.map((line): DiffLine => ({ type: '-', line })));
+    lines.push(...added.map((line): DiffLine => ({ type: '+', line })));
+  } else {
+    // common[i][j]: length of the LCS of removed[i..] and added[j..]
+    const common = Array.from({ length: removed.length + 1 }, () => new Uint32Array(added.length + 1));
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        common[i][j] = removed[i] === added[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < removed.length && j < added.length) {
+      if (removed[i] === added[j]) {
+        lines.push({ type: ' ', line: removed[i] });
+        i++;
+        j++;
+      } else if (common[i + 1][j] >= common[i][j + 1]) {
+        lines.push({ type: '-', line: removed[i++] });
+      } else {
+        lines.push({ type: '+', line: added[j++] });
+      }
+    }
+    while (i < removed.length) lines.push({ type: '-', line: removed[i++] });
+    while (j < added.length) lines.push({ type: '+', line: added[j++] });
+  }
+
+  lines.push(...before.slice(endBefore).map((line): DiffLine => ({ type: ' ', line })));
+  return lines;
+}
+
+/**
+ * Unified diff of two texts, or an empty string when they have the same lines
+ */
+export function unifiedDiff(before: string, after: string, options: DiffOptions = {}): string {
+  const { fromLabel = 'before', toLabel = 'after', context = 3 } = options;
+  const lines = diffLines(splitLines(before), splitLines(after));
+
+  const changes = lines.flatMap((l, i) => (l.type === ' ' ? [] : [i]));
+  if (changes.length === 0) return '';
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+
+  // Line numbers in each text at the start of `lines[position]`
+  let position = 0;
+  let beforeLine = 1;
+  let afterLine = 1;
+  const advanceTo = (index: number) => {
+    for (; position < index; position++) {
+      if (lines[position].type !== '+') beforeLine++;
+      if (lines[position].type !== '-') afterLine++;
+    }
+  };
+
+  for (let c = 0; c < changes.length; c++) {
+    // Changes whose context would touch or overlap share a hunk
+    const first = changes[c];
+    while (c + 1 < changes.length && changes[c + 1] - changes[c] <= context * 2 + 1) c++;
+    const last = changes[c];
+
+    const from = Math.max(0, first - context);
+    const to = Math.min(lines.length, last + context + 1);
+    advanceTo(from);
+
+    const hunk = lines.slice(from, to);
+    const beforeCount = hunk.filter((l) => l.type !== '+').length;
+    const afterCount = hunk.filter((l) => l.type !== '-').length;
+    // An empty side is numbered by the line before it, as in diff -u
+    const beforeStart = beforeCount ? beforeLine : beforeLine - 1;
+    const afterStart = afterCount ? afterLine : afterLine - 1;
+
+    output.push(`@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`);
+    output.push(...hunk.map((l) => `${l.type}${l.line}`));
+  }
+
+  return output.join('\n');
+}
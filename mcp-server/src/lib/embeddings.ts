@@ -0,0 +1,287 @@
+/**
+ * Embeddings - Pluggable text embeddings for semantic search, with an
+ * offline default provider (latent semantic analysis of the library) and an
+ * on-disk vector cache
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { LibraryItem } from '../types.js';
+import { tokenize } from './search.js';
+import { stem } from './intents.js';
+
+/**
+ * Turns text into fixed-length vectors. Implementations may call out to a
+ * model or service; `id` must change whenever the vectors would, since it
+ * scopes the on-disk cache.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  /**
+   * Learn from the library's own text. Called with every item's text before
+   * items are embedded, and again whenever the library changes.
+   */
+  fit?(texts: string[]): void;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Power iterations when computing the latent directions; enough for their
+// order and span to settle on library-sized corpora
+const ITERATIONS = 40;
+
+// Items in the library per latent direction kept, up to `dimensions`.
+// Keeping fewer directions than items is what lets words that occur in
+// similar company ("slow", "latency", "bottleneck") share directions.
+const DOCUMENTS_PER_DIMENSION = 2;
+
+type SparseVector = Array<[number, number]>; // [term index, weight]
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Orthonormalize columns in place (modified Gram-Schmidt). Columns that
+ * turn out to be dependent are zeroed.
+ */
+function orthonormalize(columns: Float64Array[]): void {
+  columns.forEach((column, c) => {
+    for (let prev = 0; prev < c; prev++) {
+      let dot = 0;
+      for (let i = 0; i < column.length; i++) dot += column[i] * columns[prev][i];
+      for (let i = 0; i < column.length; i++) column[i] -= dot * columns[prev][i];
+    }
+    let norm = 0;
+    for (let i = 0; i < column.length; i++) norm += column[i] * column[i];
+    norm = Math.sqrt(norm);
+    for (let i = 0; i < column.length; i++) column[i] = norm > 1e-10 ? column[i] / norm : 0;
+  });
+}
+
+/**
+ * Offline, CPU-only embedding provider: latent semantic analysis of the
+ * library. fit() weights stemmed words by TF-IDF and finds the directions
+ * in which they most often occur together (a truncated SVD of the
+ * term-document matrix). A text's vector is its TF-IDF vector projected
+ * onto those directions, so texts can be close without sharing a word.
+ * Deterministic, so vectors cache cleanly.
+ */
+export class LsaEmbeddingProvider implements EmbeddingProvider {
+  id: string;
+  readonly dimensions: number;
+  private vocabulary = new Map<string, number>();
+  private idf: number[] = [];
+  private directions: Float64Array[] = []; // one weight per vocabulary term
+
+  constructor(dimensions = 64) {
+    this.dimensions = dimensions;
+    this.id = `lsa-v1-${dimensions}-empty`;
+  }
+
+  fit(texts: string[]): void {
+    const documents = texts.map((text) => termCounts(text));
+
+    this.vocabulary = new Map();
+    const documentFrequency: number[] = [];
+    for (const counts of documents) {
+      for (const term of counts.keys()) {
+        if (!this.vocabulary.has(term)) {
+          this.vocabulary.set(term, this.vocabulary.size);
+          documentFrequency.push(0);
+        }
+        documentFrequency[this.vocabulary.get(term)!]++;
+      }
+    }
+    // Words found in every item say nothing about any of them
+    this.idf = documentFrequency.map((df) => Math.log(documents.length / df));
+
+    const matrix = documents.map((counts) => this.weigh(counts));
+    const rank = Math.min(this.dimensions, Math.ceil(documents.length / DOCUMENTS_PER_DIMENSION), this.vocabulary.size);
+    this.directions = latentDirections(matrix, this.vocabulary.size, rank);
+    this.id = `lsa-v1-${this.dimensions}-${contentHash(texts.join('\0'))}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      const weights = this.weigh(termCounts(text));
+      this.directions.forEach((direction, c) => {
+        for (const [term, weight] of weights) vector[c] += direction[term] * weight;
+      });
+      return normalize(vector);
+    });
+  }
+
+  /**
+   * Unit-length TF-IDF vector over the fitted vocabulary; unknown words
+   * carry no weight
+   */
+  private weigh(counts: Map<string, number>): SparseVector {
+    const weights: SparseVector = [];
+    for (const [term, count] of counts) {
+      const index = this.vocabulary.get(term);
+      if (index !== undefined) weights.push([index, (1 + Math.log(count)) * this.idf[index]]);
+    }
+    const norm = Math.sqrt(weights.reduce((sum, [, w]) => sum + w * w, 0));
+    return norm > 0 ? weights.map(([index, w]) => [index, w / norm]) : weights;
+  }
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    if (token.length < 2 || /^\d+$/.test(token)) continue;
+    const term = stem(token);
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * The `rank` strongest left singular vectors of the term-document matrix
+ * (columns are the documents), by subspace iteration on AᵀA so the work
+ * scales with the number of documents rather than the vocabulary
+ */
+function latentDirections(documents: SparseVector[], terms: number, rank: number): Float64Array[] {
+  if (rank <= 0 || documents.length === 0) return [];
+
+  // A·x for x over documents, and Aᵀ·y for y over terms
+  const times = (x: Float64Array) => {
+    const y = new Float64Array(terms);
+    documents.forEach((document, d) => {
+      for (const [term, weight] of document) y[term] += weight * x[d];
+    });
+    return y;
+  };
+  const transposeTimes = (y: Float64Array) =>
+    Float64Array.from(documents, (document) => document.reduce((sum, [term, weight]) => sum + weight * y[term], 0));
+
+  // Deterministic start, so the same library always yields the same vectors
+  let basis = Array.from({ length: rank }, (_, c) =>
+    Float64Array.from(documents, (_, d) => Math.sin((d + 1) * (c + 1) * 12.9898) * 43758.5453 % 1)
+  );
+  orthonormalize(basis);
+  for (let i = 0; i < ITERATIONS; i++) {
+    basis = basis.map((column) => transposeTimes(times(column)));
+    orthonormalize(basis);
+  }
+
+  return basis.map((column) => {
+    const direction = times(column);
+    let norm = 0;
+    for (const v of direction) norm += v * v;
+    norm = Math.sqrt(norm);
+    return norm > 1e-10 ? direction.map((v) => v / norm) : direction.fill(0);
+  });
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Short, stable hash of text content for cache keys
+ */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+/**
+ * Text that represents an item for embedding purposes
+ */
+export function embeddingText(item: LibraryItem): string {
+  return [
+    item.metadata.title,
+    item.metadata.description,
+    ...(item.metadata.tags || []),
+    item.body,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+interface PersistedEmbeddings {
+  provider: string;
+  vectors: Record<string, number[]>;
+}
+
+/**
+ * On-disk cache of vectors keyed by content hash, scoped to one provider
+ */
+export class EmbeddingCache {
+  private vectors = new Map<string, number[]>();
+  private dirty = false;
+
+  constructor(
+    private filePath: string,
+    readonly providerId: string
+  ) {}
+
+  /**
+   * Load vectors from disk, discarding them if another provider wrote them
+   */
+  load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    const persisted: PersistedEmbeddings = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    if (persisted.provider !== this.providerId) return;
+
+    for (const [hash, vector] of Object.entries(persisted.vectors)) {
+      this.vectors.set(hash, vector);
+    }
+  }
+
+  get(hash: string): number[] | undefined {
+    return this.vectors.get(hash);
+  }
+
+  set(hash: string, vector: number[]): void {
+    this.vectors.set(hash, vector);
+    this.dirty = true;
+  }
+
+  /**
+   * Drop vectors for content that no longer exists
+   */
+  retain(hashes: Set<string>): void {
+    for (const hash of this.vectors.keys()) {
+      if (!hashes.has(hash)) {
+        this.vectors.delete(hash);
+        this.dirty = true;
+      }
+    }
+  }
+
+  save(): void {
+    if (!this.dirty) return;
+
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const persisted: PersistedEmbeddings = {
+      provider: this.providerId,
+      vectors: Object.fromEntries(
+        Array.from(this.vectors, ([hash, vector]) => [hash, vector.map((v) => Math.round(v * 1e5) / 1e5)])
+      ),
+    };
+    writeFileSync(this.filePath, JSON.stringify(persisted), 'utf-8');
+    this.dirty = false;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Feedback Store - Records how suggestions are received and turns that
+ * history into per-intent, per-item weights for Library.suggest
+ */
+
+import type { Suggestion } from '../types.js';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+
+// Intent recorded for ratings that cannot be tied to a suggestion
+const ANY_INTENT = '*';
+
+// A get_prompt call this soon after a suggestion counts as selecting it
+const SELECTION_WINDOW_MS = 30 * 60 * 1000;
+
+// Every pair starts as if shown PRIOR_SHOWN times and picked at BASELINE_RATE,
+// so a handful of events nudges the weight and a long history dominates it
+const BASELINE_RATE = 0.2;
+const PRIOR_SHOWN = 5;
+
+// An explicit rating counts as much as this many implicit signals
+const RATING_WEIGHT = 2;
+
+const MIN_WEIGHT = 0.5;
+const MAX_WEIGHT = 1.5;
+
+// Events within this long of each other are written to disk together
+const SAVE_DELAY_MS = 1000;
+
+export interface FeedbackEntry {
+  intent: string;
+  itemId: string;
+  shown: number;
+  selected: number;
+  helpful: number;
+  unhelpful: number;
+  updatedAt: string;
+}
+
+type FeedbackCount = 'shown' | 'selected' | 'helpful' | 'unhelpful';
+
+interface PendingSuggestion {
+  intent: string;
+  shownAt: number;
+  selected: boolean;
+}
+
+function entryKey(intent: string, itemId: string): string {
+  return `${intent}\u0000${itemId}`;
+}
+
+function emptyEntry(intent: string, itemId: string): FeedbackEntry {
+  return { intent, itemId, shown: 0, selected: 0, helpful: 0, unhelpful: 0, updatedAt: '' };
+}
+
+/**
+ * Smoothed engagement relative to the baseline; 1 means "as expected"
+ */
+function engagement(e: FeedbackEntry | undefined): number {
+  const positive = e ? e.selected + RATING_WEIGHT * e.helpful : 0;
+  const exposures = e ? e.shown + RATING_WEIGHT * (e.helpful + e.unhelpful) : 0;
+  return (positive + BASELINE_RATE * PRIOR_SHOWN) / (exposures + PRIOR_SHOWN) / BASELINE_RATE;
+}
+
+export class FeedbackStore {
+  private entries: Map<string, FeedbackEntry> = new Map();
+  private itemTotals: Map<string, FeedbackEntry> = new Map(); // every intent's counts summed per item
+  private pending: Map<string, PendingSuggestion> = new Map();
+  private debug: boolean;
+  private persistPath: string | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(debug = false) {
+    this.debug = debug;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.debug) {
+      console.error('[FeedbackStore]', ...args);
+    }
+  }
+
+  enablePersistence(libraryPath: string): void {
+    this.persistPath = join(libraryPath, '.sessions', 'feedback.json');
+    const dir = dirname(this.persistPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    this.loadEntries();
+    // Saves are delayed; don't lose the last ones when the server exits
+    process.once('exit', () => this.flush());
+    this.log('Persistence enabled at:', this.persistPath);
+  }
+
+  private loadEntries(): void {
+    if (!this.persistPath || !existsSync(this.persistPath)) return;
+
+    try {
+      const persisted: FeedbackEntry[] = JSON.parse(readFileSync(this.persistPath, 'utf-8'));
+      for (const entry of persisted) {
+        this.entries.set(entryKey(entry.intent, entry.itemId), entry);
+        const total = this.itemTotal(entry.itemId);
+        for (const count of ['shown', 'selected', 'helpful', 'unhelpful'] as const) total[count] += entry[count];
+      }
+      this.log(`Loaded ${persisted.length} feedback entries`);
+    } catch (error) {
+      this.log('Failed to load feedback:', error);
+    }
+  }
+
+  /**
+   * Write the history soon, once for a burst of events rather than per event
+   */
+  private scheduleSave(): void {
+    if (!this.persistPath || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write any unsaved history now
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.persistPath) return;
+
+    try {
+      const persisted = Array.from(this.entries.values());
+      writeFileSync(this.persistPath, JSON.stringify(persisted, null, 2), 'utf-8');
+      this.log(`Saved ${persisted.length} feedback entries`);
+    } catch (error) {
+      this.log('Failed to save feedback:', error);
+    }
+  }
+
+  private itemTotal(itemId: string): FeedbackEntry {
+    let total = this.itemTotals.get(itemId);
+    if (!total) {
+      total = emptyEntry('', itemId);
+      this.itemTotals.set(itemId, total);
+    }
+    return total;
+  }
+
+  private count(intent: string, itemId: string, count: FeedbackCount): void {
+    const key = entryKey(intent, itemId);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = emptyEntry(intent, itemId);
+      this.entries.set(key, entry);
+    }
+    entry[count]++;
+    entry.updatedAt = new Date().toISOString();
+    this.itemTotal(itemId)[count]++;
+  }
+
+  /**
+   * Record that suggestions were shown to the user
+   */
+  recordShown(suggestions: Suggestion[]): void {
+    if (suggestions.length === 0) return;
+
+    const now = Date.now();
+    for (const s of suggestions) {
+      this.count(s.intent, s.item.id, 'shown');
+      this.pending.set(s.item.id, { intent: s.intent, shownAt: now, selected: false });
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Record that an item was fetched. Counts as selecting a suggestion only
+   * if the item was suggested recently; returns whether it did.
+   */
+  recordSelection(itemId: string): boolean {
+    const pending = this.pending.get(itemId);
+    if (!pending || pending.selected || Date.now() - pending.shownAt > SELECTION_WINDOW_MS) return false;
+
+    pending.selected = true;
+    this.count(pending.intent, itemId, 'selected');
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Record an explicit rating. Without an intent, the rating applies to the
+   * intent the item was last suggested for, or to the item in general.
+   * Returns the intent the rating was recorded under.
+   */
+  rate(itemId: string, helpful: boolean, intent?: string): string {
+    const resolvedIntent = intent || this.pending.get(itemId)?.intent || ANY_INTENT;
+    this.count(resolvedIntent, itemId, helpful ? 'helpful' : 'unhelpful');
+    this.scheduleSave();
+    return resolvedIntent;
+  }
+
+  /**
+   * Multiplier for a suggestion's confidence, combining how the item fared
+   * for this intent with how it fared overall. 1 when there is no history.
+   */
+  weight(intent: string, itemId: string): number {
+    const forItem = this.itemTotals.get(itemId);
+    if (!forItem) return 1;
+
+    const combined = Math.sqrt(engagement(this.entries.get(entryKey(intent, itemId))) * engagement(forItem));
+    return Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, combined));
+  }
+}
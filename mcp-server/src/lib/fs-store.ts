@@ -0,0 +1,113 @@
+/**
+ * File System Store - A library in a local directory
+ */
+
+import { readFileSync, statSync, existsSync, writeFileSync, mkdirSync, renameSync, unlinkSync } from 'fs';
+import { join, relative, resolve, dirname, basename } from 'path';
+import { globSync } from 'glob';
+import chokidar from 'chokidar';
+import {
+  StoreError,
+  normalizeStorePath,
+  type LibraryStore,
+  type StoreListener,
+  type StoreStat,
+  type StoreWatcher,
+} from './store.js';
+
+export class FileSystemStore implements LibraryStore {
+  readonly readOnly = false;
+  readonly location: string;
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+    this.location = this.directory;
+  }
+
+  /**
+   * Full path of a library-relative path. SECURITY: throws for paths that
+   * would resolve outside the library root.
+   */
+  resolve(path: string): string {
+    const normalized = normalizeStorePath(path);
+    const fullPath = normalized === null ? null : join(this.directory, normalized);
+    if (fullPath === null || !this.isWithinRoot(fullPath)) {
+      throw new StoreError(`Path "${path}" is outside the library`);
+    }
+    return fullPath;
+  }
+
+  private isWithinRoot(fullPath: string): boolean {
+    const normalizedPath = resolve(fullPath).replace(/\\/g, '/');
+    const normalizedRoot = this.directory.replace(/\\/g, '/');
+    const rootWithSlash = normalizedRoot.endsWith('/') ? normalizedRoot : normalizedRoot + '/';
+
+    return normalizedPath.startsWith(rootWithSlash) || normalizedPath === normalizedRoot;
+  }
+
+  list(directory: string): string[] {
+    const dir = this.resolve(directory);
+    if (!existsSync(dir)) return [];
+
+    const prefix = relative(this.directory, dir).replace(/\\/g, '/');
+    return globSync('**/*', { cwd: dir, nodir: true, posix: true }).map((path) => (prefix ? `${prefix}/${path}` : path));
+  }
+
+  read(path: string): string | null {
+    const fullPath = this.resolve(path);
+    return existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null;
+  }
+
+  stat(path: string): StoreStat | null {
+    const fullPath = this.resolve(path);
+    if (!existsSync(fullPath)) return null;
+
+    const stats = statSync(fullPath);
+    return { mtimeMs: stats.mtimeMs, size: stats.size };
+  }
+
+  /**
+   * Write through a temporary file renamed into place, so readers and
+   * the watcher never see a half-written file
+   */
+  write(path: string, content: string): void {
+    const fullPath = this.resolve(path);
+    const dir = dirname(fullPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const tempPath = join(dir, `.${basename(fullPath)}.${process.pid}.tmp`);
+    writeFileSync(tempPath, content, 'utf-8');
+    renameSync(tempPath, fullPath);
+  }
+
+  delete(path: string): void {
+    const fullPath = this.resolve(path);
+    if (existsSync(fullPath)) {
+      unlinkSync(fullPath);
+    }
+  }
+
+  watch(paths: string[], listener: StoreListener): StoreWatcher {
+    const watcher = chokidar.watch(paths.map((path) => this.resolve(path)), {
+      // Skip dotfiles inside the library, even if the library itself lives under a dot-directory
+      ignored: (path: string) => /(^|[\/\\])\../.test(relative(this.directory, path)),
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: 300,
+        pollInterval: 100,
+      },
+    });
+
+    const toStorePath = (fullPath: string) => relative(this.directory, fullPath).replace(/\\/g, '/');
+    watcher
+      .on('add', (path) => listener('add', toStorePath(path)))
+      .on('change', (path) => listener('change', toStorePath(path)))
+      .on('unlink', (path) => listener('unlink', toStorePath(path)));
+
+    return { close: () => void watcher.close() };
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Item Graph - How library items refer to each other: `related` frontmatter,
+ * markdown links, {{> id}} includes, chain steps (**Use:** and includes) and
+ * intent suggestions. Used to show an item's neighbours and what breaks if
+ * it is removed.
+ */
+
+import { posix } from 'path';
+import { templateIncludes } from './template.js';
+import { stepLabel } from './parser.js';
+import type { Chain, IntentPattern, LibraryItem } from '../types.js';
+
+export type GraphEdgeKind = 'related' | 'link' | 'include' | 'step' | 'intent';
+
+export interface GraphEdge {
+  from: string; // item ID, or "intent:<name>" for intent suggestions
+  to: string; // item ID; may not exist (see `broken`)
+  kind: GraphEdgeKind;
+  label?: string; // e.g. "step 2"
+  broken: boolean;
+}
+
+export const INTENT_PREFIX = 'intent:';
+
+// [text](target.md) or [text](target.md#section); external links are skipped
+const LINK_PATTERN = /\]\(\s*<?([^)\s>]+\.md)(?:#[^)\s>]*)?>?(?:\s+"[^"]*")?\s*\)/g;
+
+// `prompts/planning/prd-generator`
+const CODE_SPAN_PATTERN = /`([^`\s]+)`/g;
+
+function safeIncludes(text: string): string[] {
+  try {
+    return templateIncludes(text);
+  } catch {
+    // A malformed template has no includes we can trust; lint reports it
+    return [];
+  }
+}
+
+/**
+ * Resolve a markdown link against the linking item's folder. Links starting
+ * with "/" are relative to the library root. Null for links outside it.
+ */
+function linkTarget(item: LibraryItem, href: string): string | null {
+  let target: string;
+  try {
+    target = decodeURI(href);
+  } catch {
+    target = href;
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target)) return null;
+
+  const path = target.startsWith('/')
+    ? posix.normalize(target.slice(1))
+    : posix.join(posix.dirname(item.relativePath), target);
+  return path.startsWith('../') || path === '..' ? null : path.replace(/\.md$/, '');
+}
+
+export class ItemGraph {
+  private readonly outgoingEdges = new Map<string, GraphEdge[]>();
+  private readonly incomingEdges = new Map<string, GraphEdge[]>();
+
+  constructor(
+    readonly nodes: Set<string>,
+    readonly edges: GraphEdge[]
+  ) {
+    for (const edge of edges) {
+      this.outgoingEdges.set(edge.from, [...(this.outgoingEdges.get(edge.from) || []), edge]);
+      this.incomingEdges.set(edge.to, [...(this.incomingEdges.get(edge.to) || []), edge]);
+    }
+  }
+
+  outgoing(id: string): GraphEdge[] {
+    return this.outgoingEdges.get(id) || [];
+  }
+
+  incoming(id: string): GraphEdge[] {
+    return this.incomingEdges.get(id) || [];
+  }
+
+  /**
+   * Items and intents that refer to `id` directly or through other items:
+   * everything that is left with a broken reference if `id` goes away
+   */
+  dependents(id: string): string[] {
+    const found = new Set<string>();
+    const queue = [id];
+    while (queue.length > 0) {
+      for (const edge of this.incoming(queue.shift() as string)) {
+        if (edge.from === id || found.has(edge.from)) continue;
+        found.add(edge.from);
+        queue.push(edge.from);
+      }
+    }
+    return Array.from(found).sort();
+  }
+
+  broken(): GraphEdge[] {
+    return this.edges.filter((edge) => edge.broken);
+  }
+
+  /**
+   * The part of the graph within `depth` edges of `id`, in either direction
+   */
+  neighbourhood(id: string, depth = 1): ItemGraph {
+    const reached = new Set([id]);
+    let frontier = [id];
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      const next: string[] = [];
+      for (const node of frontier) {
+        for (const edge of [...this.outgoing(node), ...this.incoming(node)]) {
+          for (const other of [edge.from, edge.to]) {
+            if (!reached.has(other)) {
+              reached.add(other);
+              next.push(other);
+            }
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    const edges = this.edges.filter((edge) => reached.has(edge.from) && reached.has(edge.to));
+    return new ItemGraph(new Set(Array.from(reached).filter((node) => this.nodes.has(node))), edges);
+  }
+}
+
+/**
+ * Build the graph for a set of items, their parsed chains and the intent
+ * patterns in use. Edges to IDs that are not among the items are kept and
+ * marked broken.
+ */
+export function buildItemGraph(items: LibraryItem[], chains: Chain[], intents: IntentPattern[]): ItemGraph {
+  const ids = new Set(items.map((item) => item.id));
+  const edges: GraphEdge[] = [];
+  const seen = new Set<string>();
+
+  const add = (from: string, reference: string, kind: GraphEdgeKind, label?: string) => {
+    const to = reference.replace(/\.md$/, '');
+    const key = `${from}\0${to}\0${kind}\0${label ?? ''}`;
+    if (to === from || seen.has(key)) return;
+    seen.add(key);
+    edges.push({ from, to, kind, ...(label ? { label } : {}), broken: !ids.has(to) });
+  };
+
+  const chainsById = new Map(chains.map((chain) => [chain.id, chain]));
+
+  for (const item of items) {
+    const related = Array.isArray(item.metadata.related) ? item.metadata.related.map(String) : [];
+    for (const reference of related) add(item.id, reference, 'related');
+
+    for (const match of item.body.matchAll(LINK_PATTERN)) {
+      const target = linkTarget(item, match[1]);
+      if (target) add(item.id, target, 'link');
+    }
+
+    // Includes inside a chain step are recorded as that step's references
+    const stepTargets = new Set<string>();
+    for (const step of chainsById.get(item.id)?.steps || []) {
+      const label = `step ${stepLabel(step)}`;
+      if (step.use) {
+        // Unresolved references are kept as written, so they show up as broken.
+        // The resolved prompt is the used items' text, so it is not scanned.
+        add(item.id, step.use.itemId ?? step.use.reference, 'step', label);
+        for (const id of step.use.modifierIds ?? []) add(item.id, id, 'step', label);
+        for (const reference of step.use.missing ?? []) add(item.id, reference, 'step', label);
+        continue;
+      }
+      for (const id of safeIncludes(step.prompt)) {
+        stepTargets.add(id.replace(/\.md$/, ''));
+        add(item.id, id, 'step', label);
+      }
+      for (const match of step.prompt.matchAll(CODE_SPAN_PATTERN)) {
+        const id = match[1].replace(/\.md$/, '');
+        if (ids.has(id)) add(item.id, id, 'step', label);
+      }
+    }
+
+    for (const id of safeIncludes(item.body)) {
+      if (!stepTargets.has(id.replace(/\.md$/, ''))) add(item.id, id, 'include');
+    }
+  }
+
+  for (const pattern of intents) {
+    for (const id of pattern.suggestedItems) add(`${INTENT_PREFIX}${pattern.intent}`, id, 'intent');
+  }
+
+  return new ItemGraph(ids, edges);
+}
+
+function edgeLabel(edge: GraphEdge): string {
+  return edge.label ?? edge.kind;
+}
+
+function graphNodes(graph: ItemGraph): string[] {
+  const nodes = new Set(graph.nodes);
+  for (const edge of graph.edges) {
+    nodes.add(edge.from);
+    nodes.add(edge.to);
+  }
+  return Array.from(nodes).sort();
+}
+
+/**
+ * Graphviz DOT. Intents are drawn as ellipses, missing items in red.
+ */
+export function formatGraphDot(graph: ItemGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph library {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const node of graphNodes(graph)) {
+    if (node.startsWith(INTENT_PREFIX)) lines.push(`  ${quote(node)} [shape=ellipse];`);
+    else if (!graph.nodes.has(node)) lines.push(`  ${quote(node)} [color=red, fontcolor=red];`);
+    else lines.push(`  ${quote(node)};`);
+  }
+  for (const edge of graph.edges) {
+    const style = edge.broken ? ', style=dashed, color=red' : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edgeLabel(edge))}${style}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart. Node IDs are numbered, since item IDs contain slashes.
+ */
+export function formatGraphMermaid(graph: ItemGraph): string {
+  const nodes = graphNodes(graph);
+  const key = new Map(nodes.map((node, i) => [node, `n${i}`]));
+  const text = (value: string) => value.replace(/"/g, '#quot;');
+  const lines = ['graph LR'];
+
+  for (const node of nodes) {
+    const shape = node.startsWith(INTENT_PREFIX) ? ['(["', '"])'] : ['["', '"]'];
+    lines.push(`  ${key.get(node)}${shape[0]}${text(node)}${shape[1]}`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.broken ? '-.->' : '-->';
+    lines.push(`  ${key.get(edge.from)} ${arrow}|${text(edgeLabel(edge))}| ${key.get(edge.to)}`);
+  }
+  const missing = nodes.filter((node) => !node.startsWith(INTENT_PREFIX) && !graph.nodes.has(node));
+  if (missing.length > 0) {
+    lines.push('  classDef missing stroke:#d00,color:#d00');
+    lines.push(`  class ${missing.map((node) => key.get(node)).join(',')} missing`);
+  }
+
+  return lines.join('\n');
+}
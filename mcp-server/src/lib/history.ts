@@ -0,0 +1,91 @@
+/**
+ * Revision History - Keeps every version of an item written through the
+ * Library under .history/, so a bad save can be rolled back without git
+ */
+
+import { contentHash } from './embeddings.js';
+import type { LibraryStore } from './store.js';
+
+// Older revisions beyond this many per item are pruned
+const MAX_REVISIONS = 50;
+
+// snapshot: content found on disk that the history did not have yet,
+// from before the history existed or from an edit outside the Library
+export type RevisionAction = 'snapshot' | 'save' | 'update' | 'move' | 'delete' | 'restore';
+
+export interface Revision {
+  revision: number; // 1 for an item's first revision, then one higher per write
+  timestamp: string;
+  hash: string; // contentHash of the content, as Library.itemHash
+  action: RevisionAction;
+  message?: string;
+}
+
+/**
+ * Per-item revision logs, kept in the library's store. Each item has a
+ * directory mirroring its ID with a revisions.json log and one <hash>.md
+ * file per distinct content. IDs must already be validated by the caller.
+ */
+export class RevisionHistory {
+  constructor(
+    private store: LibraryStore,
+    private directory = '.history'
+  ) {}
+
+  private itemDir(id: string): string {
+    return `${this.directory}/${id}`;
+  }
+
+  /**
+   * An item's revisions, oldest first
+   */
+  list(id: string): Revision[] {
+    const log = this.store.read(`${this.itemDir(id)}/revisions.json`);
+    return log === null ? [] : (JSON.parse(log) as Revision[]);
+  }
+
+  latest(id: string): Revision | undefined {
+    const revisions = this.list(id);
+    return revisions[revisions.length - 1];
+  }
+
+  get(id: string, revision: number): { revision: Revision; content: string } | null {
+    const entry = this.list(id).find((r) => r.revision === revision);
+    if (!entry) return null;
+
+    const content = this.store.read(`${this.itemDir(id)}/${entry.hash}.md`);
+    return content === null ? null : { revision: entry, content };
+  }
+
+  /**
+   * Append a revision holding `content`, pruning the oldest past MAX_REVISIONS
+   */
+  record(id: string, content: string, action: RevisionAction, message?: string): Revision {
+    const dir = this.itemDir(id);
+    const revisions = this.list(id);
+    const previous = revisions[revisions.length - 1];
+    const revision: Revision = {
+      revision: (previous?.revision ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      hash: contentHash(content),
+      action,
+      ...(message ? { message } : {}),
+    };
+
+    const contentPath = `${dir}/${revision.hash}.md`;
+    if (this.store.read(contentPath) === null) {
+      this.store.write(contentPath, content);
+    }
+    revisions.push(revision);
+
+    while (revisions.length > MAX_REVISIONS) {
+      const pruned = revisions.shift() as Revision;
+      if (!revisions.some((r) => r.hash === pruned.hash)) {
+        this.store.delete(`${dir}/${pruned.hash}.md`);
+      }
+    }
+
+    this.store.write(`${dir}/revisions.json`, JSON.stringify(revisions, null, 2));
+    return revision;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Index Cache - Persists parsed library items and chains between runs so
+ * a scan only re-parses files whose mtime or size changed
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { Chain, LibraryItem } from '../types.js';
+
+// Bump whenever parsing changes what an item or chain looks like
+const CACHE_VERSION = 5;
+
+export type CachedChain = Omit<Chain, 'item'>;
+
+export interface FileStamp {
+  mtimeMs: number;
+  size: number;
+}
+
+interface CacheEntry extends FileStamp {
+  item: LibraryItem;
+  chain?: CachedChain | null; // null when a chain file failed to parse
+}
+
+interface PersistedIndex {
+  version: number;
+  libraryPath: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Dates (modifiedAt, and frontmatter dates from gray-matter) would come back
+ * from JSON as strings, so they are tagged on write and revived on read
+ */
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$date' in value) {
+    return new Date((value as { $date: string }).$date);
+  }
+  return value;
+}
+
+/**
+ * On-disk cache of parsed files keyed by path relative to the library,
+ * valid only while the file's mtime and size are unchanged
+ */
+export class IndexCache {
+  private entries = new Map<string, CacheEntry>();
+  private dirty = false;
+
+  constructor(
+    private filePath: string,
+    private libraryPath: string
+  ) {}
+
+  /**
+   * Load entries from disk, discarding them if they were written by another
+   * cache version or for a library at another location
+   */
+  load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    const persisted: PersistedIndex = JSON.parse(readFileSync(this.filePath, 'utf-8'), reviver);
+    if (persisted.version !== CACHE_VERSION || persisted.libraryPath !== this.libraryPath) return;
+
+    for (const [relativePath, entry] of Object.entries(persisted.entries)) {
+      this.entries.set(relativePath, entry);
+    }
+  }
+
+  /**
+   * The cached item for a file, if the file is unchanged since it was cached
+   */
+  get(relativePath: string, stamp: FileStamp): { item: LibraryItem; chain?: Chain | null } | undefined {
+    const entry = this.entries.get(relativePath);
+    if (!entry || entry.mtimeMs !== stamp.mtimeMs || entry.size !== stamp.size) return undefined;
+
+    const chain = entry.chain ? { ...entry.chain, item: entry.item } : entry.chain;
+    return { item: entry.item, chain };
+  }
+
+  set(relativePath: string, stamp: FileStamp, item: LibraryItem, chain?: Chain | null): void {
+    let cachedChain: CachedChain | null | undefined = chain;
+    if (chain) {
+      const { item: _item, ...rest } = chain;
+      cachedChain = rest;
+    }
+    this.entries.set(relativePath, { mtimeMs: stamp.mtimeMs, size: stamp.size, item, chain: cachedChain });
+    this.dirty = true;
+  }
+
+  /**
+   * Drop entries for files that no longer exist
+   */
+  retain(relativePaths: Set<string>): void {
+    for (const relativePath of this.entries.keys()) {
+      if (!relativePaths.has(relativePath)) {
+        this.entries.delete(relativePath);
+        this.dirty = true;
+      }
+    }
+  }
+
+  save(): void {
+    if (!this.dirty) return;
+
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const persisted: PersistedIndex = {
+      version: CACHE_VERSION,
+      libraryPath: this.libraryPath,
+      entries: Object.fromEntries(this.entries),
+    };
+    writeFileSync(this.filePath, JSON.stringify(persisted, replacer), 'utf-8');
+    this.dirty = false;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Intent Classifier - Matches user messages against intent keywords from
+ * config/intents.json on word boundaries, with light stemming, multi-word
+ * phrases and negation ("don't refactor, just fix the bug")
+ */
+
+import type { IntentPattern } from '../types.js';
+
+// Words, contractions (don't), and clause punctuation; a period only counts
+// as punctuation at the end of a sentence so "next.js" stays intact
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’]\p{L}+)?|[,;:!?]|\.(?=\s|$)/gu;
+
+const NEGATION_CUES = new Set([
+  'not', 'no', 'never', 'without', 'avoid', 'nor',
+  'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wont', 'cant', 'shouldnt', 'wouldnt',
+]);
+
+// Words that end a negated clause ("don't refactor, just fix", "not X but Y")
+const CLAUSE_BREAKS = new Set(['but', 'just', 'only', 'instead', 'rather', 'however']);
+
+// How many following words a negation cue covers
+const NEGATION_SCOPE = 3;
+
+// Extra score per additional word in a matched phrase
+const PHRASE_BONUS = 0.5;
+
+export interface MessageToken {
+  text: string; // as written
+  stem: string;
+  clause: number;
+  negated: boolean;
+}
+
+interface CompiledPattern {
+  pattern: IntentPattern;
+  keywords: Array<{ keyword: string; stems: string[] }>;
+}
+
+export interface IntentMatch {
+  pattern: IntentPattern;
+  score: number;
+  keywords: string[]; // configured keywords that matched
+  triggers: string[]; // message text that matched them
+  negated: string[]; // keywords that only appeared negated
+}
+
+/**
+ * Reduce inflected forms to a shared stem (tests, testing, tested -> test).
+ * Applied to keywords and messages alike, so it only needs to be consistent.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = result.slice(0, -3) + 'y';
+  } else if (/(s|x|z|ch|sh)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed']) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length);
+      // debugging -> debugg -> debug
+      if (result.length > 3 && /([^aeiouls])\1$/.test(result)) result = result.slice(0, -1);
+      break;
+    }
+  }
+
+  // release / released / releasing all end up as "releas"
+  if (result.endsWith('e') && result.length > 3) result = result.slice(0, -1);
+  return result;
+}
+
+/**
+ * Split a message into stemmed words, marking clause boundaries and the
+ * words that fall within the scope of a negation cue
+ */
+export function tokenizeMessage(message: string): MessageToken[] {
+  const tokens: MessageToken[] = [];
+  let clause = 0;
+  let scope = 0;
+
+  for (const match of message.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const text = match[0];
+    if (!/[\p{L}\p{N}]/u.test(text)) {
+      clause++;
+      scope = 0;
+      continue;
+    }
+
+    const word = text.replace(/['’]/g, '');
+    if (CLAUSE_BREAKS.has(word)) {
+      clause++;
+      scope = 0;
+    }
+
+    tokens.push({ text, stem: stem(word), clause, negated: scope > 0 });
+    scope = NEGATION_CUES.has(word) ? NEGATION_SCOPE : Math.max(0, scope - 1);
+  }
+
+  return tokens;
+}
+
+export class IntentClassifier {
+  private compiled: CompiledPattern[];
+
+  constructor(patterns: IntentPattern[]) {
+    this.compiled = patterns.map((pattern) => ({
+      pattern,
+      keywords: pattern.keywords
+        .map((keyword) => ({ keyword, stems: tokenizeMessage(keyword).map((t) => t.stem) }))
+        .filter((k) => k.stems.length > 0),
+    }));
+  }
+
+  /**
+   * Intents whose keywords appear in the message, best first. An intent is
+   * only returned if at least one of its keywords appears un-negated.
+   */
+  classify(message: string): IntentMatch[] {
+    const tokens = tokenizeMessage(message);
+    const matches: IntentMatch[] = [];
+
+    for (const { pattern, keywords } of this.compiled) {
+      const match: IntentMatch = { pattern, score: 0, keywords: [], triggers: [], negated: [] };
+
+      for (const { keyword, stems } of keywords) {
+        let negatedOnly = false;
+
+        for (let i = 0; i + stems.length <= tokens.length; i++) {
+          const span = tokens.slice(i, i + stems.length);
+          if (!span.every((t, j) => t.stem === stems[j] && t.clause === span[0].clause)) continue;
+
+          // Only a cue before the phrase negates it ("not working" is itself a keyword)
+          if (span[0].negated) {
+            negatedOnly = true;
+            continue;
+          }
+
+          match.keywords.push(keyword);
+          match.triggers.push(span.map((t) => t.text).join(' '));
+          match.score += 1 + PHRASE_BONUS * (stems.length - 1);
+          negatedOnly = false;
+          break;
+        }
+
+        if (negatedOnly) match.negated.push(keyword);
+      }
+
+      if (match.score > 0) matches.push(match);
+    }
+
+    return matches.sort((a, b) => b.score - a.score || b.pattern.priority - a.pattern.priority);
+  }
+}
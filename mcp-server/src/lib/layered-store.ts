@@ -0,0 +1,156 @@
+/**
+ * Layered Store - Several libraries merged into one, e.g. personal → team →
+ * bundled. A file in a higher layer overrides the same path in the layers
+ * below it; writes go to a single write layer.
+ */
+
+import { basename, resolve } from 'path';
+import {
+  StoreError,
+  type LibraryStore,
+  type StoreListener,
+  type StoreStat,
+  type StoreWatcher,
+} from './store.js';
+
+export interface StoreLayer {
+  name: string;
+  store: LibraryStore;
+}
+
+/**
+ * Parse library locations given as "path" or "name=path". Unnamed layers
+ * are named after their folder or archive.
+ */
+export function parseLayerSpecs(specs: string[]): Array<{ name: string; location: string }> {
+  const layers: Array<{ name: string; location: string }> = [];
+
+  for (const spec of specs) {
+    const match = spec.match(/^([\w.-]+)=(.+)$/);
+    const location = match ? match[2] : spec;
+    let name = match ? match[1] : basename(resolve(location)).replace(/\.(tar|tar\.gz|tgz|zip)$/i, '') || 'library';
+
+    if (layers.some((layer) => layer.name === name)) {
+      if (match) throw new StoreError(`Duplicate library layer name "${name}"`);
+      let suffix = 2;
+      while (layers.some((layer) => layer.name === `${name}-${suffix}`)) suffix++;
+      name = `${name}-${suffix}`;
+    }
+    layers.push({ name, location });
+  }
+
+  return layers;
+}
+
+export class LayeredStore implements LibraryStore {
+  readonly readOnly: boolean;
+  readonly location: string;
+  readonly directory?: string;
+  readonly writeLayer: StoreLayer | null;
+
+  /**
+   * @param layers Highest precedence first
+   * @param writeLayer Name of the layer writes go to; defaults to the first writable layer
+   */
+  constructor(
+    readonly layers: StoreLayer[],
+    writeLayer?: string
+  ) {
+    if (layers.length === 0) throw new StoreError('A layered library needs at least one layer');
+
+    if (writeLayer) {
+      const layer = layers.find((l) => l.name === writeLayer);
+      if (!layer) throw new StoreError(`Unknown write layer "${writeLayer}" (layers: ${layers.map((l) => l.name).join(', ')})`);
+      if (layer.store.readOnly) throw new StoreError(`Write layer "${writeLayer}" is read-only`);
+      this.writeLayer = layer;
+    } else {
+      this.writeLayer = layers.find((l) => !l.store.readOnly) ?? null;
+    }
+
+    this.readOnly = this.writeLayer === null;
+    this.location = layers.map((l) => `${l.name}=${l.store.location}`).join(', ');
+    // Caches and sessions are kept with the layer that is written to
+    this.directory = this.writeLayer?.store.directory;
+  }
+
+  /**
+   * The highest layer that has a file at `path`
+   */
+  private layerOf(path: string): StoreLayer | undefined {
+    return this.layers.find((l) => l.store.stat(path) !== null);
+  }
+
+  layer(path: string): string | undefined {
+    return this.layerOf(path)?.name;
+  }
+
+  resolve(path: string): string {
+    const layer = this.layerOf(path) ?? this.writeLayer ?? this.layers[0];
+    return layer.store.resolve(path);
+  }
+
+  list(directory: string): string[] {
+    const paths = new Set(this.layers.flatMap((l) => l.store.list(directory)));
+    return Array.from(paths).sort();
+  }
+
+  read(path: string): string | null {
+    for (const { store } of this.layers) {
+      const content = store.read(path);
+      if (content !== null) return content;
+    }
+    return null;
+  }
+
+  stat(path: string): StoreStat | null {
+    for (const { store } of this.layers) {
+      const stats = store.stat(path);
+      if (stats) return stats;
+    }
+    return null;
+  }
+
+  checkWrite(path: string, operation: 'write' | 'delete'): string | null {
+    if (!this.writeLayer) return `${this.location} has no writable layer`;
+
+    const current = this.layerOf(path);
+    if (operation === 'delete') {
+      return current && current !== this.writeLayer
+        ? `"${path}" is in layer "${current.name}", not the write layer "${this.writeLayer.name}"`
+        : null;
+    }
+
+    const above = this.layers.slice(0, this.layers.indexOf(this.writeLayer));
+    const shadowing = above.find((l) => l.store.stat(path) !== null);
+    return shadowing
+      ? `"${path}" is overridden by layer "${shadowing.name}", above the write layer "${this.writeLayer.name}"`
+      : null;
+  }
+
+  write(path: string, content: string): void {
+    const refused = this.checkWrite(path, 'write');
+    if (refused) throw new StoreError(refused);
+    this.writeLayer!.store.write(path, content);
+  }
+
+  delete(path: string): void {
+    const refused = this.checkWrite(path, 'delete');
+    if (refused) throw new StoreError(refused);
+    this.writeLayer!.store.delete(path);
+  }
+
+  /**
+   * Changes are reported for the merged view: a change hidden by a higher
+   * layer is dropped, and removing an override reports the file below it
+   * as changed rather than deleted
+   */
+  watch(paths: string[], listener: StoreListener): StoreWatcher {
+    const watchers = this.layers.map((layer, index) =>
+      layer.store.watch(paths, (event, path) => {
+        if (this.layers.slice(0, index).some((l) => l.store.stat(path) !== null)) return;
+        listener(event === 'unlink' && this.stat(path) !== null ? 'change' : event, path);
+      })
+    );
+    return { close: () => watchers.forEach((watcher) => watcher.close()) };
+  }
+}
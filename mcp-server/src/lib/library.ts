@@ -2,33 +2,80 @@
  * Library Manager - Scans, indexes, and provides access to the AI library
  */
 
-import { readFileSync, statSync, existsSync, writeFileSync, mkdirSync } from 'fs';
-import { readFile, stat } from 'fs/promises';
-import { join, relative, dirname, basename, extname, resolve } from 'path';
-import { glob } from 'glob';
-import chokidar, { type FSWatcher } from 'chokidar';
+import { join, basename } from 'path';
 import type {
   LibraryItem,
   LibraryCategory,
   LibraryIndex,
-  SearchEntry,
   SearchResult,
+  SearchOptions,
+  SearchResponse,
+  SearchFacets,
   Chain,
+  ChainStep,
   Suggestion,
   IntentPattern,
   SavePromptRequest,
+  UpdateItemRequest,
+  MoveItemRequest,
+  DeleteItemRequest,
+  RestoreRevisionRequest,
+  LibraryWriteResult,
+  ImportBundleRequest,
+  BundleImportResult,
+  ExportSelection,
+  WriteGuard,
   LibraryItemMetadata,
+  ParsedQuery,
+  ConfigIssue,
+  ConfigReport,
 } from '../types.js';
 import {
   parseMarkdown,
+  serializeMarkdown,
   extractTitle,
   extractDescription,
   createSearchableText,
   parseChain,
   fuzzyMatch,
+  editDistance,
   normalizeName,
+  extractPromptSection,
 } from './parser.js';
-import { validateIntentPatterns } from './schemas.js';
+import {
+  isChainDefinitionPath,
+  CHAIN_DEFINITION_EXTENSIONS,
+  chainDefinitionName,
+  chainDefinitionMetadata,
+  parseChainDefinition,
+  updateChainDefinition,
+  ChainDefinitionError,
+} from './chain-definition.js';
+import { SearchIndex } from './search.js';
+import { parseQuery, matchesQuery, hasConstraints } from './query.js';
+import { extractSnippets } from './snippets.js';
+import { IndexCache } from './index-cache.js';
+import { IntentClassifier } from './intents.js';
+import {
+  LsaEmbeddingProvider,
+  EmbeddingCache,
+  cosineSimilarity,
+  contentHash,
+  embeddingText,
+  type EmbeddingProvider,
+} from './embeddings.js';
+import type { FeedbackStore } from './feedback.js';
+import { RevisionHistory, type Revision } from './history.js';
+import { unifiedDiff } from './diff.js';
+import { extractVariables } from './variables.js';
+import { templateIncludes } from './template.js';
+import { buildItemGraph, type ItemGraph } from './graph.js';
+import { normalizeStorePath, isHiddenPath, type LibraryStore, type StoreWatcher } from './store.js';
+import { FileSystemStore } from './fs-store.js';
+import { ArchiveStore, isArchivePath } from './archive-store.js';
+import { LayeredStore, parseLayerSpecs } from './layered-store.js';
+import type { Bundle } from './bundle.js';
+import { checkSchema, formatJsonPath, IntentPatternsSchema } from './schemas.js';
 
 // Valid categories
 const CATEGORIES: LibraryCategory[] = [
@@ -42,6 +89,23 @@ const CATEGORIES: LibraryCategory[] = [
   'examples',
 ];
 
+const CONFIG_PATH = 'config/intents.json';
+
+// Files inside the category folders that are not library items
+const SKIPPED_FILES = new Set(['_index.md', 'README.md']);
+
+// A search result before snippets are attached
+type RankedItem = Omit<SearchResult, 'snippets'>;
+
+// Intent recorded for suggestions that come from semantic search
+const SEMANTIC_INTENT = 'semantic match';
+
+// Share of the final score that comes from embedding similarity in semantic mode
+const SEMANTIC_WEIGHT = 0.6;
+
+// Items less similar than this are not returned on meaning alone
+const MIN_SEMANTIC_SIMILARITY = 0.15;
+
 // Default intent patterns (fallback)
 const DEFAULT_INTENT_PATTERNS: IntentPattern[] = [
   // Planning & starting
@@ -128,7 +192,7 @@ const DEFAULT_INTENT_PATTERNS: IntentPattern[] = [
   {
     keywords: ['setup', 'new project', 'init', 'initialize', 'bootstrap', 'getting started'],
     intent: 'project setup',
-    suggestedItems: ['skills/project-setup', 'templates/claude-md/comprehensive'],
+    suggestedItems: ['skills/project-setup', 'templates/claude-md/full'],
     priority: 9,
   },
   {
@@ -171,20 +235,83 @@ const DEFAULT_INTENT_PATTERNS: IntentPattern[] = [
   },
 ];
 
+/**
+ * Open the store for a library location: a directory, or a .tar, .tar.gz,
+ * .tgz or .zip archive served read-only. Several locations ("path" or
+ * "name=path", highest precedence first) are layered into one library.
+ */
+export function openLibraryStore(location: string | string[], writeLayer?: string): LibraryStore {
+  const locations = typeof location === 'string' ? [location] : location;
+  const open = (path: string) => (isArchivePath(path) ? new ArchiveStore(path) : new FileSystemStore(path));
+
+  if (locations.length === 1 && !writeLayer) return open(locations[0]);
+  const layers = parseLayerSpecs(locations).map(({ name, location }) => ({ name, store: open(location) }));
+  return new LayeredStore(layers, writeLayer);
+}
+
+/**
+ * Whether a file in a category folder is a library item
+ */
+function isItemPath(relativePath: string): boolean {
+  return (
+    (relativePath.endsWith('.md') || isChainDefinitionPath(relativePath)) &&
+    !SKIPPED_FILES.has(basename(relativePath)) &&
+    !isHiddenPath(relativePath)
+  );
+}
+
+/**
+ * Item ID of a file: its path without the extension
+ */
+function itemIdOf(relativePath: string): string {
+  return isChainDefinitionPath(relativePath)
+    ? relativePath.slice(0, relativePath.lastIndexOf('/') + 1) + chainDefinitionName(relativePath)
+    : relativePath.replace(/\.md$/, '');
+}
+
+/**
+ * Files that can hold an item, in the order they win: a chain definition
+ * replaces the markdown chain with the same ID
+ */
+function itemFilesOf(id: string): string[] {
+  const markdown = `${id}.md`;
+  return id.startsWith('chains/') ? [...CHAIN_DEFINITION_EXTENSIONS.map((ext) => `${id}${ext}`), markdown] : [markdown];
+}
+
+/**
+ * Parse a chain item, whichever format it is written in
+ */
+function parseChainItem(item: LibraryItem): Chain {
+  return isChainDefinitionPath(item.relativePath) ? parseChainDefinition(item) : parseChain(item);
+}
+
 /**
  * The Library class manages the AI prompt library
  */
 export class Library {
-  private libraryPath: string;
+  private store: LibraryStore;
   private index: LibraryIndex | null = null;
   private debug: boolean;
   private intentPatterns: IntentPattern[] = DEFAULT_INTENT_PATTERNS;
-  private watcher: FSWatcher | null = null;
+  private intentClassifier = new IntentClassifier(DEFAULT_INTENT_PATTERNS);
+  private watcher: StoreWatcher | null = null;
+  private configWatcher: StoreWatcher | null = null;
   private watchEnabled: boolean = false;
+  private embeddingProvider: EmbeddingProvider = new LsaEmbeddingProvider();
+  private embeddingCache: EmbeddingCache | null = null;
+  private fittedCorpus: string | null = null; // content the embedding provider was last fitted on
+  private itemVectors = new Map<string, number[]>();
+  private graph: ItemGraph | null = null; // built on first use, dropped whenever the index changes
+  private feedback: FeedbackStore | null = null;
+  private history: RevisionHistory;
 
-  constructor(libraryPath: string, debug = false) {
-    this.libraryPath = libraryPath;
+  /**
+   * @param source A library directory or archive, layered locations (see openLibraryStore), or a store
+   */
+  constructor(source: string | string[] | LibraryStore, debug = false) {
+    this.store = typeof source === 'string' || Array.isArray(source) ? openLibraryStore(source) : source;
     this.debug = debug;
+    this.history = new RevisionHistory(this.store);
   }
 
   /**
@@ -200,96 +327,164 @@ export class Library {
    * Initialize the library by scanning all files
    */
   async initialize(): Promise<void> {
-    this.log('Initializing library from:', this.libraryPath);
+    this.log('Initializing library from:', this.store.location);
     await this.loadConfig();
     await this.scan();
   }
 
   /**
-   * Load configuration from config/intents.json
+   * Load configuration from config/intents.json. An invalid file is reported
+   * on stderr and ignored, keeping the intents already in use.
    */
   async loadConfig(): Promise<void> {
-    const configPath = join(this.libraryPath, 'config', 'intents.json');
-    if (existsSync(configPath)) {
-      try {
-        const content = readFileSync(configPath, 'utf-8');
-        const parsed = JSON.parse(content);
-        const customIntents = validateIntentPatterns(parsed);
-        this.intentPatterns = [...customIntents, ...DEFAULT_INTENT_PATTERNS];
-        this.log(`Loaded ${customIntents.length} custom intent patterns`);
-      } catch (error) {
-        this.log('Failed to load intent config:', error);
+    const { patterns, report } = this.readConfig();
+
+    if (patterns) {
+      this.intentPatterns = [...patterns, ...DEFAULT_INTENT_PATTERNS];
+      this.log(`Loaded ${patterns.length} custom intent patterns`);
+    } else if (!report.exists) {
+      this.intentPatterns = DEFAULT_INTENT_PATTERNS;
+    } else {
+      // Keep whatever was loaded before (the defaults on first load)
+      console.error(
+        `[Library] Ignoring invalid ${CONFIG_PATH} - run "ai-lib config check" for details`
+      );
+      for (const issue of report.issues) {
+        this.log(`  ${issue.path}: ${issue.message}`);
       }
     }
+
+    this.intentClassifier = new IntentClassifier(this.intentPatterns);
+    this.graph = null;
+  }
+
+  /**
+   * Read and schema-check config/intents.json
+   */
+  private readConfig(): { patterns: IntentPattern[] | null; report: ConfigReport } {
+    const content = this.store.read(CONFIG_PATH);
+    const report: ConfigReport = { path: this.store.resolve(CONFIG_PATH), exists: content !== null, patternCount: 0, issues: [] };
+    if (content === null) return { patterns: null, report };
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      report.issues.push({
+        path: '$',
+        message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        severity: 'error',
+      });
+      return { patterns: null, report };
+    }
+
+    const { data: patterns, issues } = checkSchema(IntentPatternsSchema, data);
+    report.issues.push(...issues);
+    report.patternCount = patterns ? patterns.length : 0;
+    return { patterns, report };
+  }
+
+  /**
+   * Validate config/intents.json against its schema and check that every
+   * suggested item exists in the index. Unknown items are warnings, since
+   * suggest() skips them rather than failing. Without a config file the
+   * built-in intents are checked instead.
+   */
+  validateConfig(): ConfigReport {
+    const { patterns, report } = this.readConfig();
+    if (!this.index) return report;
+
+    if (patterns) {
+      report.issues.push(...this.unknownSuggestions(patterns));
+    } else if (!report.exists) {
+      report.issues.push(...this.unknownSuggestions(DEFAULT_INTENT_PATTERNS, 'built-in '));
+    }
+    return report;
+  }
+
+  /**
+   * Suggested items that are not in the index, located by JSON path
+   */
+  private unknownSuggestions(patterns: IntentPattern[], source = ''): ConfigIssue[] {
+    return patterns.flatMap((pattern, i) =>
+      pattern.suggestedItems
+        .map((itemId, j) => ({ itemId, j }))
+        .filter(({ itemId }) => !this.index?.items.has(itemId))
+        .map(({ itemId, j }) => {
+          const [closest] = this.didYouMean(itemId, 1);
+          return {
+            path: formatJsonPath([i, 'suggestedItems', j]),
+            message: `Unknown item "${itemId}" in ${source}intent "${pattern.intent}"${closest ? ` - did you mean "${closest.id}"?` : ''}`,
+            severity: 'warning' as const,
+          };
+        })
+    );
   }
 
   /**
-   * Scan the library directory and build the index
+   * Scan the library store and build the index
    */
   async scan(): Promise<void> {
     const items = new Map<string, LibraryItem>();
     const byCategory = new Map<LibraryCategory, LibraryItem[]>();
     const byTag = new Map<string, LibraryItem[]>();
     const chains = new Map<string, Chain>();
-    const searchIndex: SearchEntry[] = [];
+    const searchIndex = new SearchIndex();
 
     for (const cat of CATEGORIES) {
       byCategory.set(cat, []);
     }
 
     // SECURITY: Only scan known category folders to prevent exposing unintended files
-    const categoryPatterns = CATEGORIES.map(cat => `${cat}/**/*.md`);
-    const files = await glob(categoryPatterns, {
-      cwd: this.libraryPath,
-      ignore: [
-        '**/_index.md',
-        '**/README.md', 
-        'node_modules/**', 
-        'mcp-server/**', 
-        '.git/**'
-      ],
-    });
+    const listed = CATEGORIES.flatMap((cat) => this.store.list(cat)).filter(isItemPath);
+    // A chain definition replaces the markdown chain with the same ID
+    const definitionIds = new Set(listed.filter(isChainDefinitionPath).map(itemIdOf));
+    const files = listed.filter((file) => isChainDefinitionPath(file) || !definitionIds.has(itemIdOf(file)));
 
     this.log(`Found ${files.length} markdown files in ${CATEGORIES.length} categories`);
 
-    const filesToParse = files;
+    // Unchanged files are served from the cache instead of being re-parsed.
+    // The cache lives on disk, so only stores backed by a directory have one.
+    const directory = this.store.directory;
+    const cache = directory ? new IndexCache(join(directory, '.cache', 'index.json'), directory) : null;
+    try {
+      cache?.load();
+    } catch (error) {
+      this.log('Failed to load index cache:', error);
+    }
 
-    const BATCH_SIZE = 50;
-    for (let i = 0; i < filesToParse.length; i += BATCH_SIZE) {
-      const batch = filesToParse.slice(i, i + BATCH_SIZE);
-      const parsedItems = await Promise.all(
-        batch.map((file) => this.parseFileAsync(file))
-      );
+    let cacheHits = 0;
+    for (const file of files) {
+      const entry = this.loadFile(file, cache);
+      if (!entry) continue;
+      const { item, chain } = entry;
+      if (entry.cached) cacheHits++;
 
-      for (const item of parsedItems) {
-        if (!item) continue;
+      items.set(item.id, item);
 
-        items.set(item.id, item);
+      const categoryItems = byCategory.get(item.category) || [];
+      categoryItems.push(item);
+      byCategory.set(item.category, categoryItems);
 
-        const categoryItems = byCategory.get(item.category) || [];
-        categoryItems.push(item);
-        byCategory.set(item.category, categoryItems);
+      for (const tag of item.metadata.tags || []) {
+        const tagItems = byTag.get(tag) || [];
+        tagItems.push(item);
+        byTag.set(tag, tagItems);
+      }
 
-        for (const tag of item.metadata.tags || []) {
-          const tagItems = byTag.get(tag) || [];
-          tagItems.push(item);
-          byTag.set(tag, tagItems);
-        }
+      searchIndex.add(item, this.calculateWeight(item));
 
-        searchIndex.push({
-          id: item.id,
-          text: item.searchableText,
-          weight: this.calculateWeight(item),
-        });
-
-        if (item.category === 'chains') {
-          try {
-            const chain = parseChain(item);
-            chains.set(item.id, chain);
-          } catch (error) {
-            this.log('Failed to parse chain:', item.id, error);
-          }
-        }
+      if (chain) {
+        chains.set(item.id, chain);
+      }
+    }
+
+    if (cache) {
+      cache.retain(new Set(files));
+      try {
+        cache.save();
+      } catch (error) {
+        this.log('Failed to save index cache:', error);
       }
     }
 
@@ -300,32 +495,59 @@ export class Library {
       chains,
       searchIndex,
     };
+    this.itemVectors.clear();
+    this.graph = null;
 
-    this.log(`Indexed ${items.size} items, ${chains.size} chains`);
+    this.log(`Indexed ${items.size} items, ${chains.size} chains (${files.length - cacheHits} parsed, ${cacheHits} from cache)`);
   }
 
   private parseFile(relativePath: string): LibraryItem | null {
     try {
-      const fullPath = join(this.libraryPath, relativePath);
-      const content = readFileSync(fullPath, 'utf-8');
-      const stats = statSync(fullPath);
+      const content = this.store.read(relativePath);
+      const stats = this.store.stat(relativePath);
+      if (content === null || !stats) return null;
 
-      return this.parseFileContent(relativePath, fullPath, content, stats.mtime);
+      return this.parseFileContent(relativePath, content, new Date(stats.mtimeMs));
     } catch (error) {
       this.log('Failed to parse file:', relativePath, error);
       return null;
     }
   }
 
-  private async parseFileAsync(relativePath: string): Promise<LibraryItem | null> {
+  /**
+   * Load a file for the index, from the cache when its mtime and size are
+   * unchanged, otherwise by parsing it (and its chain) and caching the result
+   */
+  private loadFile(
+    relativePath: string,
+    cache: IndexCache | null
+  ): { item: LibraryItem; chain?: Chain | null; cached: boolean } | null {
     try {
-      const fullPath = join(this.libraryPath, relativePath);
-      const [content, stats] = await Promise.all([
-        readFile(fullPath, 'utf-8'),
-        stat(fullPath),
-      ]);
+      const stats = this.store.stat(relativePath);
+      if (!stats) return null;
+
+      // A file from another layer can match the cached mtime and size, but not the cached path
+      const hit = cache?.get(relativePath, stats);
+      if (hit && hit.item.path === this.store.resolve(relativePath)) return { ...hit, cached: true };
+
+      const content = this.store.read(relativePath);
+      if (content === null) return null;
+
+      const item = this.parseFileContent(relativePath, content, new Date(stats.mtimeMs));
+      if (!item) return null;
+
+      let chain: Chain | null | undefined;
+      if (item.category === 'chains') {
+        try {
+          chain = parseChainItem(item);
+        } catch (error) {
+          chain = null;
+          this.log('Failed to parse chain:', item.id, error);
+        }
+      }
 
-      return this.parseFileContent(relativePath, fullPath, content, stats.mtime);
+      cache?.set(relativePath, stats, item, chain);
+      return { item, chain, cached: false };
     } catch (error) {
       this.log('Failed to parse file:', relativePath, error);
       return null;
@@ -334,7 +556,6 @@ export class Library {
 
   private parseFileContent(
     relativePath: string,
-    fullPath: string,
     content: string,
     mtime: Date
   ): LibraryItem | null {
@@ -346,22 +567,28 @@ export class Library {
     }
 
     const subcategory = parts.length > 2 ? parts[1] : undefined;
-    const name = basename(relativePath, '.md');
+    const definition = isChainDefinitionPath(relativePath);
+    const name = definition ? chainDefinitionName(relativePath) : basename(relativePath, '.md');
 
-    const { metadata, body } = parseMarkdown(content);
+    // A chain definition is its own body; its name and description are fields
+    const { metadata, body } = definition
+      ? { metadata: chainDefinitionMetadata(content), body: content }
+      : parseMarkdown(content);
 
-    const title = metadata.title || extractTitle(body) || name;
-    const description = metadata.description || extractDescription(body);
+    const title = metadata.title || (definition ? '' : extractTitle(body)) || name;
+    const description = metadata.description || (definition ? '' : extractDescription(body));
 
-    const id = relativePath.replace(/\.md$/, '');
+    const id = itemIdOf(relativePath);
+    const layer = this.store.layer?.(relativePath);
 
     const item: LibraryItem = {
       id,
       name,
       category,
       subcategory,
-      path: fullPath,
+      path: this.store.resolve(relativePath),
       relativePath,
+      ...(layer ? { layer } : {}),
       content,
       body,
       metadata: {
@@ -427,32 +654,27 @@ export class Library {
     const withoutExtMatch = this.index.items.get(withoutExt);
     if (withoutExtMatch) return withoutExtMatch;
 
-    // Try fuzzy matching on name
+    // Try fuzzy matching on ID, name and aliases. Typo corrections of
+    // different items can score the same (an alias of one, the name of
+    // another), so ties go to the item whose own name or ID is closest.
     let bestMatch: LibraryItem | null = null;
     let bestScore = 0;
+    let bestDistance = Infinity;
 
+    const query = normalizeName(idOrName);
     for (const item of this.index.items.values()) {
-      // Match against ID
-      const idScore = fuzzyMatch(idOrName, item.id);
-      if (idScore > bestScore) {
-        bestScore = idScore;
-        bestMatch = item;
-      }
+      const score = Math.max(
+        fuzzyMatch(idOrName, item.id),
+        fuzzyMatch(idOrName, item.name),
+        ...(item.metadata.aliases || []).map((alias) => fuzzyMatch(idOrName, alias))
+      );
+      if (score < bestScore) continue;
 
-      // Match against name
-      const nameScore = fuzzyMatch(idOrName, item.name);
-      if (nameScore > bestScore) {
-        bestScore = nameScore;
+      const distance = Math.min(editDistance(query, normalizeName(item.name)), editDistance(query, normalizeName(item.id)));
+      if (score > bestScore || distance < bestDistance) {
+        bestScore = score;
         bestMatch = item;
-      }
-
-      // Match against aliases
-      for (const alias of item.metadata.aliases || []) {
-        const aliasScore = fuzzyMatch(idOrName, alias);
-        if (aliasScore > bestScore) {
-          bestScore = aliasScore;
-          bestMatch = item;
-        }
+        bestDistance = distance;
       }
     }
 
@@ -461,49 +683,281 @@ export class Library {
   }
 
   /**
-   * Search for items matching a query
+   * Read an item straight from disk by exact ID, without the index.
+   * For callers that need an item before initialize() has run.
+   */
+  readItem(id: string): LibraryItem | null {
+    const location = this.itemPath(id);
+    return location ? this.parseFile(location.relativePath) : null;
+  }
+
+  /**
+   * Text a {{> id}} template include inserts: the item's prompt section
+   * (see extractPromptSection). IDs must match exactly.
+   */
+  resolveInclude(id: string): string | null {
+    const item = this.index?.items.get(id.replace(/\.md$/, ''));
+    return item ? extractPromptSection(item.body) : null;
+  }
+
+  /**
+   * Search for items matching a query.
+   * Accepts the structured syntax from query.ts (field filters, phrases, negation).
    */
   search(query: string, limit = 10): SearchResult[] {
+    const parsed = parseQuery(query);
+    return this.withSnippets(this.rank(parsed, limit), parsed);
+  }
+
+  /**
+   * Score and filter items for a parsed query, without snippets
+   */
+  private rank(parsed: ParsedQuery, limit: number): RankedItem[] {
     if (!this.index) return [];
 
-    const normalizedQuery = query.toLowerCase().trim();
-    const queryWords = normalizedQuery.split(/\s+/);
-    const results: SearchResult[] = [];
+    const rankingText = [...parsed.terms, ...parsed.phrases].join(' ');
 
-    for (const entry of this.index.searchIndex) {
-      const item = this.index.items.get(entry.id);
-      if (!item) continue;
+    let hits = rankingText ? this.index.searchIndex.search(rankingText) : [];
 
-      let score = 0;
-      const matches: string[] = [];
+    // A query made only of filters or exclusions browses every matching item
+    if (!rankingText && hasConstraints(parsed)) {
+      hits = Array.from(this.index.items.values())
+        .map((item) => ({ id: item.id, score: this.calculateWeight(item), matches: [] }))
+        .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    }
 
-      // Check each query word
-      for (const word of queryWords) {
-        if (entry.text.includes(word)) {
-          score += entry.weight;
-          matches.push(word);
-        }
+    const results: RankedItem[] = [];
+
+    for (const hit of hits) {
+      const item = this.index.items.get(hit.id);
+      if (!item || !matchesQuery(item, parsed)) continue;
+
+      results.push({ item, score: hit.score, matches: hit.matches });
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Search, retrying with a spelling-corrected query when nothing matches.
+   * In semantic mode, lexical scores are blended with embedding similarity.
+   */
+  async searchDetailed(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const { limit = 10, mode = 'lexical', facets = false } = options;
+    if (!this.index) return { results: [] };
+
+    // Facets count the whole match set, so rank everything when they are wanted
+    const rankLimit = facets ? this.index.items.size : limit;
+    const run = (q: string) =>
+      mode === 'semantic' ? this.semanticSearch(q, rankLimit) : Promise.resolve(this.search(q, rankLimit));
+
+    const respond = (results: SearchResult[], correctedQuery?: string): SearchResponse => {
+      const response: SearchResponse = { results: results.slice(0, limit) };
+      if (correctedQuery) response.correctedQuery = correctedQuery;
+      if (facets) response.facets = this.countFacets(results);
+      return response;
+    };
+
+    const results = await run(query);
+    if (results.length > 0) return respond(results);
+
+    const correctedQuery = this.index.searchIndex.correct(query);
+    if (!correctedQuery) return respond(results);
+
+    return respond(await run(correctedQuery), correctedQuery);
+  }
+
+  /**
+   * Count results per category, subcategory and tag, most common first
+   */
+  private countFacets(results: SearchResult[]): SearchFacets {
+    const category = new Map<string, number>();
+    const subcategory = new Map<string, number>();
+    const tag = new Map<string, number>();
+    const bump = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+    for (const { item } of results) {
+      bump(category, item.category);
+      if (item.subcategory) bump(subcategory, item.subcategory);
+      for (const t of new Set(item.metadata.tags || [])) bump(tag, t);
+    }
+
+    const sorted = (counts: Map<string, number>) =>
+      Object.fromEntries(Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])));
+
+    return { category: sorted(category), subcategory: sorted(subcategory), tag: sorted(tag) };
+  }
+
+  /**
+   * Rank items by a blend of normalized lexical score and embedding
+   * similarity, so items can match on meaning with no keyword overlap
+   */
+  private async semanticSearch(query: string, limit: number): Promise<SearchResult[]> {
+    if (!this.index) return [];
+
+    const parsed = parseQuery(query);
+    const rankingText = [...parsed.terms, ...parsed.phrases].join(' ');
+    if (!rankingText) return this.search(query, limit);
+
+    const lexical = this.rank(parsed, this.index.items.size);
+    const maxLexical = lexical[0]?.score || 1;
+    const lexicalById = new Map(lexical.map((r) => [r.item.id, r]));
+
+    const vectors = await this.ensureItemVectors();
+    const [queryVector] = await this.embeddingProvider.embed([rankingText]);
+
+    const results: RankedItem[] = [];
+    for (const item of this.index.items.values()) {
+      const lexicalHit = lexicalById.get(item.id);
+      const vector = vectors.get(item.id);
+      const similarity = vector ? Math.max(0, cosineSimilarity(queryVector, vector)) : 0;
+
+      if (!lexicalHit && similarity < MIN_SEMANTIC_SIMILARITY) continue;
+      if (!lexicalHit && !matchesQuery(item, parsed)) continue;
+
+      const lexicalScore = lexicalHit ? lexicalHit.score / maxLexical : 0;
+      results.push({
+        item,
+        score: SEMANTIC_WEIGHT * similarity + (1 - SEMANTIC_WEIGHT) * lexicalScore,
+        matches: lexicalHit?.matches || [],
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return this.withSnippets(results.slice(0, limit), parsed);
+  }
+
+  /**
+   * Attach body excerpts around each result's matched words and phrases
+   */
+  private withSnippets(ranked: RankedItem[], parsed: ParsedQuery): SearchResult[] {
+    return ranked.map((result) => ({
+      ...result,
+      snippets: extractSnippets(result.item.body, [...result.matches, ...parsed.required], parsed.phrases),
+    }));
+  }
+
+  /**
+   * Use recorded suggestion feedback to re-weight suggest() confidence
+   */
+  setFeedbackStore(store: FeedbackStore): void {
+    this.feedback = store;
+  }
+
+  /**
+   * Replace the embedding provider used by semantic search
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider): void {
+    this.embeddingProvider = provider;
+    this.embeddingCache = null;
+    this.fittedCorpus = null;
+    this.itemVectors.clear();
+  }
+
+  /**
+   * Embed every indexed item, reusing vectors cached on disk under .cache/
+   * by content hash so unchanged items are never re-embedded
+   */
+  private async ensureItemVectors(): Promise<Map<string, number[]>> {
+    if (!this.index) return this.itemVectors;
+
+    const items = Array.from(this.index.items.values(), (item) => {
+      const text = embeddingText(item);
+      return { id: item.id, hash: contentHash(text), text };
+    });
+
+    // Providers that learn from the library refit whenever its content
+    // changes, which changes their id and so invalidates every vector
+    if (this.embeddingProvider.fit) {
+      const corpus = contentHash(items.map((item) => item.hash).sort().join('\n'));
+      if (corpus !== this.fittedCorpus) {
+        this.log(`Fitting ${this.embeddingProvider.id} on ${items.length} items`);
+        this.embeddingProvider.fit(items.map((item) => item.text));
+        this.fittedCorpus = corpus;
+        this.itemVectors.clear();
       }
+    }
 
-      // Bonus for name match
-      if (normalizeName(item.name).includes(normalizedQuery)) {
-        score *= 2;
+    // Like the index cache, embeddings are only cached for stores backed by a directory
+    if (this.embeddingCache?.providerId !== this.embeddingProvider.id && this.store.directory) {
+      this.embeddingCache = new EmbeddingCache(
+        join(this.store.directory, '.cache', 'embeddings.json'),
+        this.embeddingProvider.id
+      );
+      try {
+        this.embeddingCache.load();
+      } catch (error) {
+        this.log('Failed to load embedding cache:', error);
       }
+    }
+    const cache = this.embeddingCache;
 
-      // Bonus for title match
-      if (item.metadata.title?.toLowerCase().includes(normalizedQuery)) {
-        score *= 1.5;
+    const hashes = new Set<string>();
+    const missing: Array<{ id: string; hash: string; text: string }> = [];
+
+    for (const { id, hash, text } of items) {
+      hashes.add(hash);
+      if (this.itemVectors.has(id)) continue;
+
+      const cached = cache?.get(hash);
+      if (cached) {
+        this.itemVectors.set(id, cached);
+      } else {
+        missing.push({ id, hash, text });
       }
+    }
 
-      if (score > 0) {
-        results.push({ item, score, matches });
+    if (missing.length > 0) {
+      this.log(`Embedding ${missing.length} items with ${this.embeddingProvider.id}`);
+      const vectors = await this.embeddingProvider.embed(missing.map((m) => m.text));
+      missing.forEach((m, i) => {
+        this.itemVectors.set(m.id, vectors[i]);
+        cache?.set(m.hash, vectors[i]);
+      });
+      if (cache) {
+        cache.retain(hashes);
+        try {
+          cache.save();
+        } catch (error) {
+          this.log('Failed to save embedding cache:', error);
+        }
       }
     }
 
-    // Sort by score descending
-    results.sort((a, b) => b.score - a.score);
+    return this.itemVectors;
+  }
+
+  /**
+   * Find items a mistyped ID or name was probably meant to be.
+   * Ranks by name/alias similarity, then tops up from a corrected search.
+   */
+  didYouMean(idOrName: string, limit = 3): LibraryItem[] {
+    if (!this.index) return [];
+
+    const scored: Array<{ item: LibraryItem; score: number }> = [];
+    for (const item of this.index.items.values()) {
+      const candidates = [item.id, item.name, ...(item.metadata.aliases || [])];
+      const score = Math.max(...candidates.map((c) => fuzzyMatch(idOrName, c)));
+      if (score >= 0.3) {
+        scored.push({ item, score });
+      }
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const suggestions = scored.slice(0, limit).map((s) => s.item);
+    if (suggestions.length < limit) {
+      const query = idOrName.replace(/[-_/]/g, ' ');
+      const corrected = this.index.searchIndex.correct(query);
+      for (const result of this.search(corrected ?? query, limit)) {
+        if (suggestions.length >= limit) break;
+        if (!suggestions.includes(result.item)) {
+          suggestions.push(result.item);
+        }
+      }
+    }
 
-    return results.slice(0, limit);
+    return suggestions;
   }
 
   /**
@@ -512,34 +966,36 @@ export class Library {
   suggest(userMessage: string, limit = 5): Suggestion[] {
     if (!this.index) return [];
 
-    const normalizedMessage = userMessage.toLowerCase();
     const suggestions: Suggestion[] = [];
     const seenIds = new Set<string>();
 
-    // Check intent patterns
-    for (const pattern of this.intentPatterns) {
-      const matchedKeywords = pattern.keywords.filter((kw) =>
-        normalizedMessage.includes(kw)
+    // Strongest intents first, so they claim shared items
+    for (const match of this.intentClassifier.classify(userMessage)) {
+      const { pattern } = match;
+      const confidence = Math.min(
+        0.9,
+        0.3 + match.score * 0.2 + pattern.priority * 0.03
       );
 
-      if (matchedKeywords.length > 0) {
-        const confidence = Math.min(
-          0.9,
-          0.3 + matchedKeywords.length * 0.2 + pattern.priority * 0.03
-        );
-
-        for (const itemId of pattern.suggestedItems) {
-          if (seenIds.has(itemId)) continue;
-          seenIds.add(itemId);
-
-          const item = this.index.items.get(itemId);
-          if (item) {
-            suggestions.push({
-              item,
-              reason: `Detected intent: ${pattern.intent}`,
-              confidence,
-            });
-          }
+      for (const itemId of pattern.suggestedItems) {
+        if (seenIds.has(itemId)) continue;
+        seenIds.add(itemId);
+
+        const item = this.index.items.get(itemId);
+        if (item) {
+          // Re-weight from how this item was received for this intent before
+          const weight = this.feedback ? this.feedback.weight(pattern.intent, itemId) : 1;
+          let reason = `Detected intent: ${pattern.intent} (matched ${match.triggers.map((t) => `"${t}"`).join(', ')})`;
+          if (weight > 1) reason += ', boosted by past feedback';
+          if (weight < 1) reason += ', lowered by past feedback';
+
+          suggestions.push({
+            item,
+            intent: pattern.intent,
+            reason,
+            triggers: match.triggers,
+            confidence: Math.min(0.99, confidence * weight),
+          });
         }
       }
     }
@@ -550,6 +1006,30 @@ export class Library {
     return suggestions.slice(0, limit);
   }
 
+  /**
+   * suggest(), with items that match the message in meaning blended into
+   * the ranking. An item both routes find keeps its intent suggestion.
+   */
+  async suggestSemantic(userMessage: string, limit = 5): Promise<Suggestion[]> {
+    const suggestions = this.suggest(userMessage, Infinity);
+    const seenIds = new Set(suggestions.map((s) => s.item.id));
+
+    const { results } = await this.searchDetailed(userMessage, { limit, mode: 'semantic' });
+    for (const result of results) {
+      if (seenIds.has(result.item.id)) continue;
+      suggestions.push({
+        item: result.item,
+        intent: SEMANTIC_INTENT,
+        reason: 'Similar in meaning to your message',
+        triggers: result.matches,
+        confidence: Math.min(0.9, result.score),
+      });
+    }
+
+    suggestions.sort((a, b) => b.confidence - a.confidence);
+    return suggestions.slice(0, limit);
+  }
+
   /**
    * Get a chain by ID
    */
@@ -558,17 +1038,17 @@ export class Library {
 
     // Try exact match
     const exactMatch = this.index.chains.get(idOrName);
-    if (exactMatch) return exactMatch;
+    if (exactMatch) return this.resolveChain(exactMatch);
 
     // Try with chains/ prefix
     const withPrefix = `chains/${idOrName}`;
     const prefixMatch = this.index.chains.get(withPrefix);
-    if (prefixMatch) return prefixMatch;
+    if (prefixMatch) return this.resolveChain(prefixMatch);
 
     // Fuzzy match
     for (const [id, chain] of this.index.chains) {
       if (fuzzyMatch(idOrName, chain.name) >= 0.6) {
-        return chain;
+        return this.resolveChain(chain);
       }
     }
 
@@ -580,7 +1060,65 @@ export class Library {
    */
   getAllChains(): Chain[] {
     if (!this.index) return [];
-    return Array.from(this.index.chains.values());
+    return Array.from(this.index.chains.values(), (chain) => this.resolveChain(chain));
+  }
+
+  /**
+   * Fill in the steps that run a library item (**Use:**) from the current
+   * index: the item's prompt section, then the step's own prompt, then the
+   * modifiers' prompt sections. Resolved on every read, so a chain always
+   * runs the current version of the items it uses.
+   */
+  private resolveChain(chain: Chain): Chain {
+    if (!chain.steps.some((step) => step.use)) return chain;
+
+    const steps = chain.steps.map((step): ChainStep => {
+      if (!step.use) return step;
+      const { reference, modifiers } = step.use;
+
+      const item = this.useTarget(reference);
+      const modifierItems = modifiers.map((modifier) => ({ modifier, item: this.useTarget(modifier, true) }));
+      const missing = [
+        ...(item ? [] : [reference]),
+        ...modifierItems.filter((m) => !m.item).map((m) => m.modifier),
+      ];
+
+      const parts = [
+        item ? extractPromptSection(item.body) : '',
+        step.prompt,
+        ...modifierItems.map((m) => (m.item ? extractPromptSection(m.item.body) : '')),
+      ];
+
+      return {
+        ...step,
+        prompt: parts.filter(Boolean).join('\n\n'),
+        use: {
+          reference,
+          modifiers,
+          ...(item ? { itemId: item.id } : {}),
+          modifierIds: modifierItems.flatMap((m) => (m.item ? [m.item.id] : [])),
+          ...(missing.length ? { missing } : {}),
+        },
+        ...(item ? { variables: extractVariables(item.metadata, item.body).variables } : {}),
+      };
+    });
+
+    return { ...chain, steps };
+  }
+
+  /**
+   * The item a **Use:** step names, by exact ID. A modifier may also be a
+   * bare snippet name ("ultrathink" for snippets/modifiers/ultrathink) as
+   * long as only one snippet has it. Nothing is fuzzy-matched, so a typo is
+   * reported as missing rather than running some other item.
+   */
+  private useTarget(reference: string, modifier = false): LibraryItem | null {
+    if (!this.index) return null;
+    const exact = this.index.items.get(reference.replace(/\.md$/, ''));
+    if (exact || !modifier) return exact ?? null;
+
+    const snippets = (this.index.byCategory.get('snippets') || []).filter((item) => item.name === reference);
+    return snippets.length === 1 ? snippets[0] : null;
   }
 
   /**
@@ -606,35 +1144,72 @@ export class Library {
   }
 
   /**
-   * Check if a path is safely within the library root (sandbox check).
-   * Prevents path traversal attacks.
+   * Location for an item imported from a bundle: its category, then
+   * vendor/<bundle>/, then its remaining path with every segment sanitized.
+   * Null when the item is not in a category folder or the path escapes the library.
    */
-  private isPathWithinLibrary(fullPath: string): boolean {
-    const normalizedPath = resolve(fullPath).replace(/\\/g, '/');
-    const normalizedRoot = resolve(this.libraryPath).replace(/\\/g, '/');
-    const rootWithSlash = normalizedRoot.endsWith('/') ? normalizedRoot : normalizedRoot + '/';
-    
-    return normalizedPath.startsWith(rootWithSlash) || normalizedPath === normalizedRoot;
+  private vendorItemPath(bundleName: string, bundlePath: string): { id: string; relativePath: string } | null {
+    const [category, ...rest] = bundlePath.replace(/\.md$/, '').split('/');
+    if (!CATEGORIES.includes(category as LibraryCategory) || rest.length === 0) return null;
+
+    const segments = ['vendor', bundleName, ...rest].map((segment) => this.sanitizePathSegment(segment));
+    const relativePath = `${category}/${segments.join('/')}.md`;
+
+    // SECURITY: Verify the path stays within the library root
+    if (normalizeStorePath(relativePath) !== relativePath) {
+      this.log('Blocked import outside library root:', relativePath);
+      return null;
+    }
+
+    return { id: relativePath.replace(/\.md$/, ''), relativePath };
   }
 
   /**
-   * Save a new prompt to the library
+   * Location of an item file by exact ID, whether or not it exists.
+   * Null when the ID points outside the category folders.
    */
-  savePrompt(request: SavePromptRequest): LibraryItem | null {
-    const { category, content, metadata } = request;
-    
+  private itemLocation(id: string): { id: string; relativePath: string } | null {
+    const relativePath = normalizeStorePath(`${id.replace(/\.md$/, '')}.md`);
+    if (relativePath === null || !CATEGORIES.includes(relativePath.split('/')[0] as LibraryCategory)) {
+      return null;
+    }
+    return { id: relativePath.replace(/\.md$/, ''), relativePath };
+  }
+
+  /**
+   * Location of an existing item file, by exact ID
+   */
+  private itemPath(id: string): { id: string; relativePath: string } | null {
+    // Chain definitions are not at <id>.md
+    const indexed = this.index?.items.get(id.replace(/\.md$/, ''));
+    if (indexed && isChainDefinitionPath(indexed.relativePath)) {
+      return { id: indexed.id, relativePath: indexed.relativePath };
+    }
+    const location = this.itemLocation(id);
+    return location && this.store.stat(location.relativePath) ? location : null;
+  }
+
+  /**
+   * Location for a new item, with the name and subcategory sanitized.
+   * Null when the category is unknown or the path escapes the library.
+   */
+  private newItemPath(
+    category: LibraryCategory,
+    subcategory: string | undefined,
+    name: string
+  ): { id: string; relativePath: string } | null {
     // Sanitize name and subcategory to prevent path traversal
-    const sanitizedName = this.sanitizePathSegment(request.name.replace(/\.md$/, ''));
-    const sanitizedSubcategory = request.subcategory 
-      ? this.sanitizePathSegment(request.subcategory) 
+    const sanitizedName = this.sanitizePathSegment(name.replace(/\.md$/, ''));
+    const sanitizedSubcategory = subcategory
+      ? this.sanitizePathSegment(subcategory)
       : undefined;
 
     // Log if sanitization changed the values
-    if (request.name !== sanitizedName) {
-      this.log('Name sanitized:', request.name, '→', sanitizedName);
+    if (name !== sanitizedName) {
+      this.log('Name sanitized:', name, '→', sanitizedName);
     }
-    if (request.subcategory && request.subcategory !== sanitizedSubcategory) {
-      this.log('Subcategory sanitized:', request.subcategory, '→', sanitizedSubcategory);
+    if (subcategory && subcategory !== sanitizedSubcategory) {
+      this.log('Subcategory sanitized:', subcategory, '→', sanitizedSubcategory);
     }
 
     // Validate category is in allowed list
@@ -651,170 +1226,613 @@ export class Library {
       relativePath = `${category}/${sanitizedName}.md`;
     }
 
-    const fullPath = join(this.libraryPath, relativePath);
-
-    // SECURITY: Verify the resolved path is within the library root
-    if (!this.isPathWithinLibrary(fullPath)) {
-      this.log('Blocked save outside library root:', { fullPath, relativePath });
+    // SECURITY: Verify the path stays within the library root
+    if (normalizeStorePath(relativePath) !== relativePath) {
+      this.log('Blocked write outside library root:', relativePath);
       return null;
     }
 
-    // Ensure directory exists
-    const dir = dirname(fullPath);
-    
-    // SECURITY: Also verify directory is within library root
-    if (!this.isPathWithinLibrary(dir)) {
-      this.log('Blocked directory creation outside library root:', dir);
+    return { id: relativePath.replace(/\.md$/, ''), relativePath };
+  }
+
+  /**
+   * Hash of an item's file content. Writes that replace or remove an item
+   * accept it as expectedHash, to detect edits made since it was read.
+   */
+  itemHash(item: LibraryItem): string {
+    return contentHash(item.content);
+  }
+
+  /**
+   * Why a write may not replace an item's file, or null if it may. The
+   * file is re-read, so edits made outside this process are noticed.
+   * Without `required`, an existing file may be replaced unguarded.
+   */
+  private guardError(location: { id: string; relativePath: string }, guard: WriteGuard, required: boolean): string | null {
+    const { id } = location;
+    const content = this.store.read(location.relativePath);
+    if (content === null) {
+      return guard.expectedHash ? `"${id}" no longer exists` : null;
+    }
+
+    if (guard.expectedHash) {
+      const actual = contentHash(content);
+      if (actual !== guard.expectedHash) {
+        return `"${id}" has changed since it was read (hash ${actual}, expected ${guard.expectedHash})`;
+      }
       return null;
     }
-    
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
-    }
-
-    // Build file content with frontmatter if metadata provided
-    let fileContent = content;
-    if (metadata && Object.keys(metadata).length > 0) {
-      const frontmatter = Object.entries(metadata)
-        .map(([key, value]) => {
-          if (Array.isArray(value)) {
-            return `${key}:\n${value.map((v) => `  - ${v}`).join('\n')}`;
-          }
-          return `${key}: ${value}`;
-        })
-        .join('\n');
-      fileContent = `---\n${frontmatter}\n---\n\n${content}`;
+
+    if (required && !guard.overwrite) {
+      return `"${id}" already exists; pass overwrite or its expected hash to replace it`;
     }
+    return null;
+  }
+
+  /**
+   * Where the library lives: its directory, archive or layers
+   */
+  getLocation(): string {
+    return this.store.location;
+  }
+
+  /**
+   * Whether the store refuses saves, updates, moves, deletes and restores
+   */
+  isReadOnly(): boolean {
+    return this.store.readOnly;
+  }
+
+  /**
+   * Why the store would refuse to write or delete an item's file, such as
+   * one overridden by a higher library layer
+   */
+  private storeRefusal(location: { relativePath: string }, operation: 'write' | 'delete'): string | null {
+    return this.store.checkWrite?.(location.relativePath, operation) ?? null;
+  }
 
-    // Write file
-    writeFileSync(fullPath, fileContent, 'utf-8');
+  private readOnlyResult(): LibraryWriteResult {
+    return { item: null, error: `The library at ${this.store.location} is read-only` };
+  }
 
-    // Re-parse and add to index
+  /**
+   * Re-read an item that was just written and put it in the index
+   */
+  private reloadItem(relativePath: string): LibraryWriteResult {
     const item = this.parseFile(relativePath);
-    if (item && this.index) {
-      this.index.items.set(item.id, item);
+    if (!item) return { item: null, error: `Failed to read back "${relativePath}"` };
+
+    this.indexItem(item);
+    return { item };
+  }
+
+  /**
+   * Re-index an item after one of its files changed or was removed. The
+   * file that now provides the ID is indexed: a lower library layer once an
+   * override is gone, or the markdown chain a definition was shadowing.
+   * With none left, the item leaves the index.
+   */
+  private refreshItem(id: string): void {
+    const relativePath = itemFilesOf(id).find((path) => this.store.stat(path) !== null);
+    const item = relativePath ? this.parseFile(relativePath) : null;
+    if (item) {
+      this.indexItem(item);
+    } else {
+      this.unindexItem(id);
+    }
+  }
+
+  /**
+   * Add or replace an item in every index map. Writes and the file
+   * watcher both go through here, so the maps always agree.
+   */
+  private indexItem(item: LibraryItem): void {
+    if (!this.index) return;
+    const { items, byCategory, byTag, chains, searchIndex } = this.index;
 
-      const categoryItems = this.index.byCategory.get(item.category) || [];
+    items.set(item.id, item);
+
+    const categoryItems = byCategory.get(item.category) || [];
+    const existingIndex = categoryItems.findIndex((i) => i.id === item.id);
+    if (existingIndex >= 0) {
+      categoryItems[existingIndex] = item;
+    } else {
       categoryItems.push(item);
-      this.index.byCategory.set(item.category, categoryItems);
+    }
+    byCategory.set(item.category, categoryItems);
 
-      this.index.searchIndex.push({
-        id: item.id,
-        text: item.searchableText,
-        weight: this.calculateWeight(item),
-      });
+    this.removeFromTags(item.id);
+    for (const tag of item.metadata.tags || []) {
+      const tagItems = byTag.get(tag) || [];
+      tagItems.push(item);
+      byTag.set(tag, tagItems);
     }
 
-    return item;
+    searchIndex.add(item, this.calculateWeight(item));
+    this.itemVectors.delete(item.id);
+    this.graph = null;
+
+    if (item.category === 'chains') {
+      try {
+        chains.set(item.id, parseChainItem(item));
+      } catch (error) {
+        chains.delete(item.id);
+        this.log('Failed to parse chain:', item.id, error);
+      }
+    }
   }
 
   /**
-   * Get library stats
+   * Remove an item from every index map
    */
-  getStats(): { total: number; byCategory: Record<string, number> } {
-    if (!this.index) return { total: 0, byCategory: {} };
+  private unindexItem(id: string): void {
+    if (!this.index) return;
+    const item = this.index.items.get(id);
+    if (!item) return;
 
-    const byCategory: Record<string, number> = {};
-    for (const [cat, items] of this.index.byCategory) {
-      byCategory[cat] = items.length;
+    this.index.items.delete(id);
+
+    const categoryItems = this.index.byCategory.get(item.category) || [];
+    this.index.byCategory.set(item.category, categoryItems.filter((i) => i.id !== id));
+
+    this.removeFromTags(id);
+    this.index.searchIndex.remove(id);
+    this.itemVectors.delete(id);
+    this.index.chains.delete(id);
+    this.graph = null;
+  }
+
+  private removeFromTags(id: string): void {
+    if (!this.index) return;
+
+    for (const [tag, tagItems] of this.index.byTag) {
+      const filtered = tagItems.filter((i) => i.id !== id);
+      if (filtered.length > 0) {
+        this.index.byTag.set(tag, filtered);
+      } else {
+        this.index.byTag.delete(tag);
+      }
     }
+  }
 
-    return {
-      total: this.index.items.size,
-      byCategory,
-    };
+  /**
+   * Save a new prompt to the library. Null if it could not be saved;
+   * see saveItem for the reason.
+   */
+  savePrompt(request: SavePromptRequest): LibraryItem | null {
+    const result = this.saveItem(request);
+    if (result.error) {
+      this.log('Save refused:', result.error);
+    }
+    return result.item;
   }
 
-  enableWatch(): void {
-    if (this.watcher || this.watchEnabled) return;
+  /**
+   * Save a new prompt to the library. An item already at that path is
+   * only replaced when the request passes overwrite or its expected hash.
+   */
+  saveItem(request: SavePromptRequest): LibraryWriteResult {
+    const { category, content, metadata } = request;
+    if (this.store.readOnly) return this.readOnlyResult();
 
-    this.watchEnabled = true;
-    const watchPaths = CATEGORIES.map((cat) => join(this.libraryPath, cat));
-
-    this.watcher = chokidar.watch(watchPaths, {
-      ignored: /(^|[\/\\])\../,
-      persistent: true,
-      ignoreInitial: true,
-      awaitWriteFinish: {
-        stabilityThreshold: 300,
-        pollInterval: 100,
-      },
-    });
+    const target = this.newItemPath(category, request.subcategory, request.name);
+    if (!target) return { item: null, error: 'The path is invalid or outside the library' };
+
+    const refused = this.guardError(target, request, true) ?? this.storeRefusal(target, 'write');
+    if (refused) return { item: null, error: refused };
 
-    const handleChange = async (filePath: string) => {
-      if (!filePath.endsWith('.md')) return;
+    const fileContent = serializeMarkdown(metadata || {}, content);
+    this.snapshotRevision(target);
+    this.store.write(target.relativePath, fileContent);
+    this.history.record(target.id, fileContent, 'save', request.message);
+    return this.reloadItem(target.relativePath);
+  }
 
-      const relativePath = relative(this.libraryPath, filePath);
-      this.log('File changed:', relativePath);
+  /**
+   * Replace an item's body and/or merge fields into its frontmatter (for a
+   * chain definition, into its YAML or JSON). Requires overwrite or the
+   * item's expected hash.
+   */
+  updateItem(request: UpdateItemRequest): LibraryWriteResult {
+    if (this.store.readOnly) return this.readOnlyResult();
 
-      const item = this.parseFile(relativePath);
-      if (item && this.index) {
-        this.index.items.set(item.id, item);
+    const location = this.itemPath(request.id);
+    if (!location) return { item: null, error: `Item "${request.id}" not found` };
 
-        const categoryItems = this.index.byCategory.get(item.category) || [];
-        const existingIndex = categoryItems.findIndex((i) => i.id === item.id);
-        if (existingIndex >= 0) {
-          categoryItems[existingIndex] = item;
-        } else {
-          categoryItems.push(item);
-        }
-        this.index.byCategory.set(item.category, categoryItems);
-
-        const searchIdx = this.index.searchIndex.findIndex((e) => e.id === item.id);
-        const newEntry = {
-          id: item.id,
-          text: item.searchableText,
-          weight: this.calculateWeight(item),
-        };
-        if (searchIdx >= 0) {
-          this.index.searchIndex[searchIdx] = newEntry;
-        } else {
-          this.index.searchIndex.push(newEntry);
-        }
+    const refused = this.guardError(location, request, true) ?? this.storeRefusal(location, 'write');
+    if (refused) return { item: null, error: refused };
 
-        if (item.category === 'chains') {
-          try {
-            const chain = parseChain(item);
-            this.index.chains.set(item.id, chain);
-          } catch (error) {
-            this.log('Failed to parse chain:', item.id, error);
-          }
-        }
+    const existing = this.store.read(location.relativePath) ?? '';
+    let fileContent: string;
+    if (isChainDefinitionPath(location.relativePath)) {
+      // Definitions have no frontmatter: content replaces the whole file and
+      // metadata maps onto its own keys, valid either way
+      try {
+        fileContent = updateChainDefinition(location.relativePath, request.content ?? existing, request.metadata ?? {});
+      } catch (error) {
+        if (!(error instanceof ChainDefinitionError)) throw error;
+        return { item: null, error: error.message };
       }
-    };
+    } else {
+      const current = parseMarkdown(existing);
+      const metadata = { ...current.metadata, ...request.metadata };
+      fileContent = serializeMarkdown(metadata, request.content ?? current.body);
+    }
 
-    const handleDelete = (filePath: string) => {
-      if (!filePath.endsWith('.md') || !this.index) return;
+    this.snapshotRevision(location);
+    this.store.write(location.relativePath, fileContent);
+    this.history.record(location.id, fileContent, 'update', request.message);
+    return this.reloadItem(location.relativePath);
+  }
 
-      const relativePath = relative(this.libraryPath, filePath);
-      const id = relativePath.replace(/\.md$/, '');
-      this.log('File deleted:', id);
+  /**
+   * Rename and/or move an item. An item already at the destination is only
+   * replaced with overwrite; expectedHash is checked against the source.
+   */
+  moveItem(request: MoveItemRequest): LibraryWriteResult {
+    if (this.store.readOnly) return this.readOnlyResult();
 
-      const item = this.index.items.get(id);
-      if (item) {
-        this.index.items.delete(id);
+    const source = this.itemPath(request.id);
+    if (!source) return { item: null, error: `Item "${request.id}" not found` };
+
+    let target = this.newItemPath(request.category, request.subcategory, request.name);
+    if (!target) return { item: null, error: 'The destination is invalid or outside the library' };
 
-        const categoryItems = this.index.byCategory.get(item.category) || [];
-        const filtered = categoryItems.filter((i) => i.id !== id);
-        this.index.byCategory.set(item.category, filtered);
+    // A chain definition keeps its format, so it stays a chain
+    const definitionSuffix = isChainDefinitionPath(source.relativePath) && source.relativePath.match(/\.chain\.\w+$/)?.[0];
+    if (definitionSuffix) {
+      const relativePath = target.relativePath.replace(/\.md$/, definitionSuffix);
+      if (!isChainDefinitionPath(relativePath)) return { item: null, error: 'A chain definition can only be moved within chains/' };
+      target = { ...target, relativePath };
+    }
 
-        this.index.searchIndex = this.index.searchIndex.filter((e) => e.id !== id);
+    const sourceId = source.id;
+    const targetId = target.id;
+    if (sourceId === targetId) return { item: null, error: `"${sourceId}" is already at that location` };
 
-        if (item.category === 'chains') {
-          this.index.chains.delete(id);
-        }
+    const refused =
+      this.guardError(source, { expectedHash: request.expectedHash }, false) ??
+      this.guardError(target, { overwrite: request.overwrite }, true) ??
+      this.storeRefusal(target, 'write') ??
+      this.storeRefusal(source, 'delete');
+    if (refused) return { item: null, error: refused };
+
+    this.snapshotRevision(target);
+
+    const content = this.store.read(source.relativePath) ?? '';
+    this.store.write(target.relativePath, content);
+    this.store.delete(source.relativePath);
+
+    // Both histories get the moved content, so either end can be restored
+    const note = request.message ? `${request.message} ` : '';
+    this.history.record(sourceId, content, 'move', `${note}(moved to ${targetId})`.trim());
+    this.history.record(targetId, content, 'move', `${note}(moved from ${sourceId})`.trim());
+
+    this.refreshItem(source.id);
+    return this.reloadItem(target.relativePath);
+  }
+
+  /**
+   * Delete an item, optionally only if it still has the expected hash.
+   * Returns the item as it was before deletion.
+   */
+  deleteItem(request: DeleteItemRequest): LibraryWriteResult {
+    if (this.store.readOnly) return this.readOnlyResult();
+
+    const location = this.itemPath(request.id);
+    if (!location) return { item: null, error: `Item "${request.id}" not found` };
+
+    const { id } = location;
+    const refused = this.guardError(location, request, false) ?? this.storeRefusal(location, 'delete');
+    if (refused) return { item: null, error: refused };
+
+    const item = this.parseFile(location.relativePath);
+    // The deleted content is kept as the last revision, so it can be restored
+    this.history.record(id, this.store.read(location.relativePath) ?? '', 'delete', request.message);
+    this.store.delete(location.relativePath);
+    this.refreshItem(location.id);
+
+    return { item };
+  }
+
+  /**
+   * Record the content on disk as a revision if the history lacks it: an
+   * item from before the history existed, or one edited outside the Library
+   */
+  private snapshotRevision(location: { id: string; relativePath: string }): void {
+    const content = this.store.read(location.relativePath);
+    if (content === null) return;
+
+    if (this.history.latest(location.id)?.hash !== contentHash(content)) {
+      this.history.record(location.id, content, 'snapshot');
+    }
+  }
+
+  /**
+   * Revisions of an item, oldest first, including items since deleted.
+   * Null for IDs outside the category folders.
+   */
+  listRevisions(id: string): Revision[] | null {
+    const location = this.itemLocation(id);
+    return location ? this.history.list(location.id) : null;
+  }
+
+  /**
+   * Unified diff between two revisions of an item; without `to`, between
+   * the revision and the item as it is now
+   */
+  diffRevisions(id: string, from: number, to?: number): { diff: string; error?: string } {
+    const location = this.itemLocation(id);
+    if (!location) return { diff: '', error: `Item "${id}" not found` };
+
+    const before = this.history.get(location.id, from);
+    if (!before) return { diff: '', error: `"${location.id}" has no revision ${from}` };
+
+    let after: string;
+    let toLabel: string;
+    if (to === undefined) {
+      after = this.store.read(location.relativePath) ?? '';
+      toLabel = `${location.id} (current)`;
+    } else {
+      const revision = this.history.get(location.id, to);
+      if (!revision) return { diff: '', error: `"${location.id}" has no revision ${to}` };
+      after = revision.content;
+      toLabel = `${location.id}@${to}`;
+    }
+
+    return { diff: unifiedDiff(before.content, after, { fromLabel: `${location.id}@${from}`, toLabel }) };
+  }
+
+  /**
+   * Write an earlier revision back, recording the restore as a new
+   * revision. Deleted items are recreated.
+   */
+  restoreRevision(request: RestoreRevisionRequest): LibraryWriteResult {
+    if (this.store.readOnly) return this.readOnlyResult();
+
+    const location = this.itemLocation(request.id);
+    if (!location) return { item: null, error: `Item "${request.id}" not found` };
+
+    const { id } = location;
+    const revision = this.history.get(id, request.revision);
+    if (!revision) return { item: null, error: `"${id}" has no revision ${request.revision}` };
+
+    const refused = this.guardError(location, request, false) ?? this.storeRefusal(location, 'write');
+    if (refused) return { item: null, error: refused };
+
+    this.snapshotRevision(location);
+    this.store.write(location.relativePath, revision.content);
+    this.history.record(id, revision.content, 'restore', request.message || `Restored revision ${request.revision}`);
+    return this.reloadItem(location.relativePath);
+  }
+
+  /**
+   * Version recorded by an earlier import. A receipt that is not valid JSON
+   * (e.g. hand-edited) counts as unknown; the import rewrites it.
+   */
+  private receiptVersion(receiptPath: string): string | undefined {
+    const receipt = this.store.read(receiptPath);
+    if (receipt === null) return undefined;
+    try {
+      const { version } = JSON.parse(receipt) as { version?: unknown };
+      return typeof version === 'string' ? version : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Install a verified bundle (see openBundle) under <category>/vendor/<name>/.
+   * All items are checked before any is written, so a refused import
+   * changes nothing. Items already identical to the bundle are left alone.
+   */
+  importBundle(bundle: Bundle, request: ImportBundleRequest = {}): BundleImportResult {
+    if (this.store.readOnly) return { imported: [], unchanged: [], error: this.readOnlyResult().error };
+
+    const { name, version } = bundle.manifest;
+    const receiptPath = `.bundles/${this.sanitizePathSegment(name)}.json`;
+    const previousVersion = this.receiptVersion(receiptPath);
+
+    const problems: string[] = [];
+    const writes: Array<{ target: { id: string; relativePath: string }; content: string }> = [];
+    const unchanged: string[] = [];
+
+    for (const file of bundle.files) {
+      const target = this.vendorItemPath(name, file.path);
+      if (!target) {
+        problems.push(`${file.path} is not in a library category folder`);
+        continue;
+      }
+
+      if (this.store.read(target.relativePath) === file.content) {
+        unchanged.push(target.id);
+        continue;
+      }
+
+      const refused = this.guardError(target, { overwrite: request.overwrite }, true) ?? this.storeRefusal(target, 'write');
+      if (refused) {
+        problems.push(refused);
+        continue;
+      }
+      writes.push({ target, content: file.content });
+    }
+
+    if (problems.length > 0) {
+      return { imported: [], unchanged: [], previousVersion, error: problems.join('; ') };
+    }
+
+    const message = request.message || `Imported from ${name}@${version}`;
+    const imported: LibraryItem[] = [];
+    for (const { target, content } of writes) {
+      this.snapshotRevision(target);
+      this.store.write(target.relativePath, content);
+      this.history.record(target.id, content, 'save', message);
+
+      const { item } = this.reloadItem(target.relativePath);
+      if (item) imported.push(item);
+    }
+
+    // The receipt records what was installed, for upgrades and provenance
+    this.store.write(
+      receiptPath,
+      JSON.stringify(
+        {
+          name,
+          version,
+          source: bundle.location,
+          importedAt: new Date().toISOString(),
+          items: bundle.files.map((file) => ({
+            id: this.vendorItemPath(name, file.path)?.id,
+            version: file.version,
+            sha256: file.sha256,
+          })),
+        },
+        null,
+        2
+      )
+    );
+
+    return { imported, unchanged, previousVersion };
+  }
+
+  /**
+   * IDs an item depends on: those named in `related` and those it includes
+   * with {{> id}}. References to items not in the library are unresolved.
+   */
+  itemDependencies(item: LibraryItem): { dependencies: string[]; unresolved: string[] } {
+    const references = Array.isArray(item.metadata.related) ? item.metadata.related.map(String) : [];
+    try {
+      references.push(...templateIncludes(item.body));
+    } catch (error) {
+      // A malformed template has no includes we can trust; render_prompt reports it
+      this.log('Failed to parse includes:', item.id, error);
+    }
+
+    const dependencies = new Set<string>();
+    const unresolved: string[] = [];
+    for (const reference of references) {
+      const id = reference.replace(/\.md$/, '');
+      if (this.index?.items.has(id)) {
+        if (id !== item.id) dependencies.add(id);
+      } else {
+        unresolved.push(reference);
       }
+    }
+    return { dependencies: Array.from(dependencies), unresolved };
+  }
+
+  /**
+   * Items to export: those matching any criterion of the selection (every
+   * item when it has none), plus everything they depend on, transitively
+   */
+  collectExport(selection: ExportSelection): {
+    items: Array<{ item: LibraryItem; dependencies: string[] }>;
+    unresolved: Array<{ id: string; reference: string }>;
+  } {
+    if (!this.index) return { items: [], unresolved: [] };
+
+    const { categories = [], tags = [], ids = [] } = selection;
+    const unfiltered = categories.length === 0 && tags.length === 0 && ids.length === 0;
+    const wantedIds = new Set(ids.map((id) => id.replace(/\.md$/, '')));
+
+    const queue = Array.from(this.index.items.values())
+      .filter(
+        (item) =>
+          unfiltered ||
+          categories.includes(item.category) ||
+          wantedIds.has(item.id) ||
+          (item.metadata.tags || []).some((tag) => tags.includes(tag))
+      )
+      .map((item) => item.id);
+
+    const items = new Map<string, { item: LibraryItem; dependencies: string[] }>();
+    const unresolved: Array<{ id: string; reference: string }> = [];
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      const item = this.index.items.get(id);
+      if (!item || items.has(id)) continue;
+
+      const found = this.itemDependencies(item);
+      items.set(id, { item, dependencies: found.dependencies });
+      unresolved.push(...found.unresolved.map((reference) => ({ id, reference })));
+      queue.push(...found.dependencies);
+    }
+
+    return {
+      items: Array.from(items.values()).sort((a, b) => a.item.id.localeCompare(b.item.id)),
+      unresolved,
+    };
+  }
+
+  /**
+   * The graph of references between items, and from intents to items
+   */
+  getGraph(): ItemGraph {
+    if (!this.graph) {
+      this.graph = buildItemGraph(this.getAllItems(), this.getAllChains(), this.intentPatterns);
+    }
+    return this.graph;
+  }
+
+  /**
+   * Get library stats
+   */
+  getStats(): { total: number; byCategory: Record<string, number> } {
+    if (!this.index) return { total: 0, byCategory: {} };
+
+    const byCategory: Record<string, number> = {};
+    for (const [cat, items] of this.index.byCategory) {
+      byCategory[cat] = items.length;
+    }
+
+    return {
+      total: this.index.items.size,
+      byCategory,
     };
+  }
 
-    this.watcher
-      .on('add', handleChange)
-      .on('change', handleChange)
-      .on('unlink', handleDelete);
+  /**
+   * Reload config/intents.json whenever it changes; a deleted file falls
+   * back to the defaults. Cheaper than watching items, so the server always
+   * does it.
+   */
+  enableConfigWatch(): void {
+    if (this.configWatcher) return;
 
-    this.log('File watching enabled for:', watchPaths.join(', '));
+    this.configWatcher = this.store.watch([CONFIG_PATH], (_event, relativePath) => {
+      if (relativePath !== CONFIG_PATH) return;
+      this.log('Config changed, reloading intents');
+      void this.loadConfig();
+    });
   }
 
+  /**
+   * Re-index items as their files change, and reload config with them
+   */
+  enableWatch(): void {
+    if (this.watcher || this.watchEnabled) return;
+
+    this.watchEnabled = true;
+    this.enableConfigWatch();
+
+    this.watcher = this.store.watch([...CATEGORIES], (event, relativePath) => {
+      if (!isItemPath(relativePath)) return;
+
+      // Whatever file now provides the ID is indexed, which need not be the
+      // one that changed
+      this.log(event === 'unlink' ? 'File deleted:' : 'File changed:', relativePath);
+      this.refreshItem(itemIdOf(relativePath));
+    });
+
+    this.log('File watching enabled for:', CATEGORIES.map((path) => this.store.resolve(path)).join(', '));
+  }
+
+  /**
+   * Stop watching items and config
+   */
   disableWatch(): void {
+    this.configWatcher?.close();
+    this.configWatcher = null;
     if (this.watcher) {
       this.watcher.close();
       this.watcher = null;
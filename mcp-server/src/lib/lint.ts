@@ -0,0 +1,353 @@
+/**
+ * Library Lint - Checks the parsed index for content that would otherwise
+ * only fail at runtime: unreachable items, dangling references, chains
+ * without steps and undeclared placeholders
+ */
+
+import { parseMarkdown, extractTitle, extractPromptSection, stepLabel } from './parser.js';
+import { extractVariables, variableKey } from './variables.js';
+import { templateIncludes, TemplateError } from './template.js';
+import { isChainDefinitionPath, readChainDefinition, ChainDefinitionError } from './chain-definition.js';
+import type { Library } from './library.js';
+import type { Chain, LibraryItem } from '../types.js';
+
+// Bodies longer than this crowd out the rest of the model's context
+export const DEFAULT_MAX_BODY_LENGTH = 20_000;
+
+// "[your idea]"; links, footnotes and checkboxes are not placeholders
+const PLACEHOLDER_PATTERN = /\[(?!\^|[xX]\])([^\]\n]*[A-Za-z][^\]\n]*)\](?![(:[])/g;
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  itemId?: string;
+  path?: string; // library-relative file path
+  line?: number; // 1-based line in the file
+}
+
+export interface LintOptions {
+  rules?: string[]; // only run these rules
+  maxBodyLength?: number;
+}
+
+export interface LintResult {
+  itemCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: LintIssue[];
+}
+
+interface LintContext {
+  library: Library;
+  items: LibraryItem[];
+  ids: Set<string>;
+  chains: Map<string, Chain>; // resolved once, by ID
+  options: Required<Pick<LintOptions, 'maxBodyLength'>>;
+}
+
+type RuleIssue = Omit<LintIssue, 'rule' | 'severity'> & { severity?: LintSeverity };
+
+interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(context: LintContext): RuleIssue[];
+}
+
+/**
+ * 1-based line of the first occurrence of `text` in `content`, if any
+ */
+function lineOf(content: string, text: string): number | undefined {
+  const index = content.indexOf(text);
+  return index === -1 ? undefined : content.slice(0, index).split('\n').length;
+}
+
+function at(item: LibraryItem, text?: string): Pick<LintIssue, 'itemId' | 'path' | 'line'> {
+  const line = text ? lineOf(item.content, text) : undefined;
+  return { itemId: item.id, path: item.relativePath, ...(line ? { line } : {}) };
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'missing-title',
+    severity: 'warning',
+    description: 'Item has neither a title in its frontmatter nor a # heading',
+    check: ({ items }) =>
+      items
+        // A chain definition's name is required by its schema
+        .filter((item) => !isChainDefinitionPath(item.relativePath))
+        .filter((item) => !parseMarkdown(item.content).metadata.title && !extractTitle(item.body))
+        .map((item) => ({ ...at(item), message: `No title; it is listed as "${item.name}"` })),
+  },
+  {
+    id: 'missing-description',
+    severity: 'warning',
+    description: 'Item has no description in its frontmatter, > blockquote or first paragraph',
+    check: ({ items }) =>
+      items.filter((item) => !item.metadata.description).map((item) => ({ ...at(item), message: 'No description' })),
+  },
+  {
+    id: 'duplicate-name',
+    severity: 'warning',
+    description: 'Several items share a file name, so fuzzy lookups by name pick one arbitrarily',
+    check: ({ items }) => {
+      const byName = new Map<string, LibraryItem[]>();
+      for (const item of items) {
+        byName.set(item.name, [...(byName.get(item.name) || []), item]);
+      }
+
+      return items
+        .filter((item) => (byName.get(item.name) || []).length > 1)
+        .map((item) => {
+          const others = (byName.get(item.name) || []).filter((other) => other !== item).map((other) => other.id);
+          return { ...at(item), message: `Name "${item.name}" is also used by ${others.join(', ')}` };
+        });
+    },
+  },
+  {
+    id: 'broken-related',
+    severity: 'error',
+    description: '`related` names an item that is not in the library',
+    check: ({ items, ids }) =>
+      items.flatMap((item) => {
+        const related = Array.isArray(item.metadata.related) ? item.metadata.related.map(String) : [];
+        return related
+          .filter((reference) => !ids.has(reference.replace(/\.md$/, '')))
+          .map((reference) => ({ ...at(item, reference), message: `Related item "${reference}" does not exist` }));
+      }),
+  },
+  {
+    id: 'broken-include',
+    severity: 'error',
+    description: '{{> id}} includes an item that is not in the library',
+    check: ({ items, ids }) =>
+      items.flatMap((item) => {
+        let includes: string[];
+        try {
+          includes = templateIncludes(item.body);
+        } catch (error) {
+          if (!(error instanceof TemplateError)) throw error;
+          return [{ ...at(item), message: `Template does not parse: ${error.message}` }];
+        }
+        return includes
+          .filter((id) => !ids.has(id.replace(/\.md$/, '')))
+          .map((id) => ({ ...at(item, `{{> ${id}`), message: `Included item "${id}" does not exist` }));
+      }),
+  },
+  {
+    id: 'broken-intent',
+    severity: 'error',
+    description: 'config/intents.json (or, without one, the built-in intents) is invalid or suggests an item that is not in the library',
+    check: ({ library }) => {
+      const report = library.validateConfig();
+      return report.issues.map((issue) => ({
+        severity: issue.severity,
+        ...(report.exists ? { path: 'config/intents.json' } : {}),
+        message: `${issue.path}: ${issue.message}`,
+      }));
+    },
+  },
+  {
+    id: 'empty-chain',
+    severity: 'error',
+    description: 'A chain failed to parse, has no steps, or has a step with no prompt',
+    check: ({ items, chains }) =>
+      items
+        .filter((item) => item.category === 'chains')
+        .flatMap((item) => {
+          const chain = chains.get(item.id);
+          // Invalid definitions are reported by invalid-chain-definition
+          if (!chain && isChainDefinitionPath(item.relativePath)) return [];
+          if (!chain) return [{ ...at(item), message: 'Chain could not be parsed' }];
+          if (chain.steps.length === 0) return [{ ...at(item), message: 'Chain has no ## Step sections' }];
+          return chain.steps
+            // A **Use:** step with a missing item is reported by broken-step-reference
+            .filter((step) => !step.prompt.trim() && !step.use?.missing)
+            .map((step) => ({ ...at(item, step.title), message: `Step ${stepLabel(step)} (${step.title}) has an empty prompt` }));
+        }),
+  },
+  {
+    id: 'invalid-chain-definition',
+    severity: 'error',
+    description: 'A chains/*.chain.yaml file is not valid YAML or does not match the chain schema',
+    check: ({ items }) =>
+      items
+        .filter((item) => isChainDefinitionPath(item.relativePath))
+        .flatMap((item) => {
+          try {
+            readChainDefinition(item.relativePath, item.content);
+            return [];
+          } catch (error) {
+            if (!(error instanceof ChainDefinitionError)) throw error;
+            return error.issues.map((issue) => ({
+              ...at(item),
+              ...(issue.line ? { line: issue.line } : {}),
+              message: `${issue.path}: ${issue.message}`,
+            }));
+          }
+        }),
+  },
+  {
+    id: 'broken-step-reference',
+    severity: 'error',
+    description: 'A chain step uses (**Use:**) an item or modifier that is not in the library by that exact ID',
+    check: ({ library, chains }) =>
+      [...chains.values()].flatMap((chain) =>
+        chain.steps.flatMap((step) =>
+          (step.use?.missing || []).map((reference) => {
+            // What a loose lookup would pick, to help fix a typo or partial name
+            const closest = library.getItem(reference);
+            return {
+              ...at(chain.item, `**Use:**`),
+              line: lineOf(chain.item.content, `## Step ${stepLabel(step)}:`),
+              message: `Step ${stepLabel(step)} (${step.title}) uses "${reference}", which is not in the library${
+                closest ? ` - did you mean "${closest.id}"?` : ''
+              }`,
+            };
+          })
+        )
+      ),
+  },
+  {
+    id: 'broken-branch',
+    severity: 'error',
+    description: 'A decision point routes an outcome to a step the chain does not have',
+    check: ({ chains }) =>
+      [...chains.values()].flatMap((chain) => {
+        const labels = new Set(chain.steps.map((step) => stepLabel(step).toLowerCase()));
+        return chain.steps.flatMap((step) =>
+          (step.branches || [])
+            .filter((branch) => branch.step !== 'end' && !labels.has(branch.step))
+            .map((branch) => ({
+              ...at(chain.item, step.decisionPoint),
+              message: `Step ${stepLabel(step)} (${step.title}) routes "${branch.outcome}" to step ${branch.step}, which does not exist`,
+            }))
+        );
+      }),
+  },
+  {
+    id: 'undeclared-placeholder',
+    severity: 'warning',
+    description: 'An item that declares variables has a [placeholder] that is not one of them, so render_prompt cannot fill it',
+    check: ({ items }) =>
+      items
+        .filter((item) => item.category !== 'chains')
+        .flatMap((item) => {
+          // Items without variables use brackets as free-form guidance for the reader
+          const { variables } = extractVariables(item.metadata, item.body);
+          if (variables.length === 0) return [];
+          const declared = new Set(variables.flatMap((v) => [v.name, ...(v.placeholder ? [variableKey(v.placeholder)] : [])]));
+
+          const seen = new Set<string>();
+          const issues: RuleIssue[] = [];
+          for (const match of extractPromptSection(item.body).matchAll(PLACEHOLDER_PATTERN)) {
+            const key = variableKey(match[1]);
+            if (!key || declared.has(key) || seen.has(key)) continue;
+            seen.add(key);
+            issues.push({ ...at(item, match[0]), message: `Placeholder ${match[0]} is not declared in variables: or a ## Variables section` });
+          }
+          return issues;
+        }),
+  },
+  {
+    id: 'oversized-body',
+    severity: 'warning',
+    description: 'Item body is longer than the configured maximum',
+    check: ({ items, options }) =>
+      items
+        .filter((item) => item.body.length > options.maxBodyLength)
+        .map((item) => ({
+          ...at(item),
+          message: `Body is ${item.body.length} characters (maximum ${options.maxBodyLength})`,
+        })),
+  },
+];
+
+/**
+ * Run the lint rules over an initialized library
+ */
+export function lintLibrary(library: Library, options: LintOptions = {}): LintResult {
+  const unknown = (options.rules || []).filter((id) => !LINT_RULES.some((rule) => rule.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown lint rule(s): ${unknown.join(', ')} (rules: ${LINT_RULES.map((r) => r.id).join(', ')})`);
+  }
+
+  const items = library.getAllItems();
+  const context: LintContext = {
+    library,
+    items,
+    ids: new Set(items.map((item) => item.id)),
+    chains: new Map(library.getAllChains().map((chain) => [chain.id, chain])),
+    options: { maxBodyLength: options.maxBodyLength ?? DEFAULT_MAX_BODY_LENGTH },
+  };
+
+  const rules = options.rules?.length ? LINT_RULES.filter((rule) => options.rules?.includes(rule.id)) : LINT_RULES;
+  const issues = rules.flatMap((rule) =>
+    rule.check(context).map((issue) => ({ rule: rule.id, severity: rule.severity, ...issue }))
+  );
+  issues.sort((a, b) => (a.path ?? '').localeCompare(b.path ?? '') || (a.line ?? 0) - (b.line ?? 0));
+
+  return {
+    itemCount: items.length,
+    errorCount: issues.filter((issue) => issue.severity === 'error').length,
+    warningCount: issues.filter((issue) => issue.severity === 'warning').length,
+    issues,
+  };
+}
+
+/**
+ * One line per issue, "path:line  severity  message  [rule]", then a summary
+ */
+export function formatLintText(result: LintResult): string {
+  const lines = result.issues.map((issue) => {
+    const location = issue.path ? `${issue.path}${issue.line ? `:${issue.line}` : ''}` : '(library)';
+    return `${location}  ${issue.severity}  ${issue.message}  [${issue.rule}]`;
+  });
+  lines.push(`${result.itemCount} items checked: ${result.errorCount} error(s), ${result.warningCount} warning(s)`);
+  return lines.join('\n');
+}
+
+/**
+ * SARIF 2.1.0 log, for code scanning tools
+ */
+export function formatLintSarif(result: LintResult): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'ai-lib lint',
+            rules: LINT_RULES.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.severity },
+            })),
+          },
+        },
+        results: result.issues.map((issue) => ({
+          ruleId: issue.rule,
+          level: issue.severity,
+          message: { text: issue.message },
+          ...(issue.path
+            ? {
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: issue.path },
+                      ...(issue.line ? { region: { startLine: issue.line } } : {}),
+                    },
+                  },
+                ],
+              }
+            : {}),
+        })),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
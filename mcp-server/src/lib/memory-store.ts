@@ -0,0 +1,89 @@
+/**
+ * Memory Store - A library held in memory, for tests and embedding
+ */
+
+import {
+  StoreError,
+  normalizeStorePath,
+  isUnder,
+  isHiddenPath,
+  type LibraryStore,
+  type StoreListener,
+  type StoreStat,
+  type StoreWatcher,
+} from './store.js';
+
+interface MemoryFile {
+  content: string;
+  mtimeMs: number;
+}
+
+export class MemoryStore implements LibraryStore {
+  readonly readOnly = false;
+  readonly location = 'memory:';
+  private files = new Map<string, MemoryFile>();
+  private watchers = new Set<{ paths: string[]; listener: StoreListener }>();
+
+  /**
+   * @param files Initial content by library-relative path
+   */
+  constructor(files: Record<string, string> = {}) {
+    for (const [path, content] of Object.entries(files)) {
+      this.files.set(this.normalize(path), { content, mtimeMs: Date.now() });
+    }
+  }
+
+  private normalize(path: string): string {
+    const normalized = normalizeStorePath(path);
+    if (normalized === null) throw new StoreError(`Path "${path}" is outside the library`);
+    return normalized;
+  }
+
+  resolve(path: string): string {
+    return `${this.location}${this.normalize(path)}`;
+  }
+
+  list(directory: string): string[] {
+    const dir = this.normalize(directory);
+    return Array.from(this.files.keys()).filter((path) => isUnder(path, dir) && !isHiddenPath(path)).sort();
+  }
+
+  read(path: string): string | null {
+    return this.files.get(this.normalize(path))?.content ?? null;
+  }
+
+  stat(path: string): StoreStat | null {
+    const file = this.files.get(this.normalize(path));
+    return file ? { mtimeMs: file.mtimeMs, size: Buffer.byteLength(file.content) } : null;
+  }
+
+  write(path: string, content: string): void {
+    const normalized = this.normalize(path);
+    const existed = this.files.has(normalized);
+    this.files.set(normalized, { content, mtimeMs: Date.now() });
+    this.emit(existed ? 'change' : 'add', normalized);
+  }
+
+  delete(path: string): void {
+    const normalized = this.normalize(path);
+    if (this.files.delete(normalized)) {
+      this.emit('unlink', normalized);
+    }
+  }
+
+  /**
+   * Listeners are called synchronously after each write and delete
+   */
+  watch(paths: string[], listener: StoreListener): StoreWatcher {
+    const entry = { paths: paths.map((path) => this.normalize(path)), listener };
+    this.watchers.add(entry);
+    return { close: () => void this.watchers.delete(entry) };
+  }
+
+  private emit(event: 'add' | 'change' | 'unlink', path: string): void {
+    if (isHiddenPath(path)) return;
+    for (const { paths, listener } of this.watchers) {
+      if (paths.some((dir) => isUnder(path, dir))) listener(event, path);
+    }
+  }
+}
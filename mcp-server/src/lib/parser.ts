@@ -3,7 +3,8 @@
  */
 
 import matter from 'gray-matter';
-import type { LibraryItemMetadata, ChainStep, Chain, LibraryItem } from '../types.js';
+import type { LibraryItemMetadata, ChainStep, ChainStepUse, ChainBranch, Chain, LibraryItem } from '../types.js';
+import { extractVariables } from './variables.js';
 
 /**
  * Parse a markdown file with optional frontmatter
@@ -27,6 +28,16 @@ export function parseMarkdown(content: string): {
   }
 }
 
+/**
+ * Build file content from frontmatter and a body; the inverse of parseMarkdown.
+ * Without frontmatter the body is written as-is.
+ */
+export function serializeMarkdown(metadata: LibraryItemMetadata, body: string): string {
+  const data = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+  if (Object.keys(data).length === 0) return body;
+  return matter.stringify(`\n${body}`, data);
+}
+
 /**
  * Extract title from markdown content
  * Looks for H1 heading or first line
@@ -69,6 +80,86 @@ export function extractDescription(body: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Extract the prompt text from a body: the contents of its first fenced
+ * code block, without the fence's language tag
+ */
+export function extractPromptBlock(body: string): string | undefined {
+  const match = body.match(/^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^\1[ \t]*$/m);
+  return match ? match[2].trim() : undefined;
+}
+
+// Headings that introduce an item's ready-to-use text
+const PROMPT_HEADING = /^##\s+(?:the\s+)?(?:prompt|snippet)\s*$/i;
+
+/**
+ * Find the section under a level-2 heading, up to the next level-1 or 2
+ * heading. Headings inside fenced code blocks are part of the content.
+ */
+export function extractSection(body: string, heading: RegExp): string | undefined {
+  const lines = body.split('\n');
+  let fence: string | null = null;
+  let start = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const marker = line.match(/^(`{3,}|~{3,})/);
+    if (marker) {
+      if (!fence) {
+        fence = marker[1];
+      } else if (line.trim() === fence) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence) continue;
+
+    if (start === -1) {
+      if (heading.test(line)) start = i + 1;
+    } else if (/^#{1,2}\s/.test(line)) {
+      return lines.slice(start, i).join('\n').trim();
+    }
+  }
+
+  return start === -1 ? undefined : lines.slice(start).join('\n').trim();
+}
+
+/**
+ * The text an item is meant to be used as: the first code block of its
+ * ## Prompt (or ## Snippet) section, the section itself if it has no code
+ * block, or the first code block / whole body for items without one
+ */
+export function extractPromptSection(body: string): string {
+  const scope = extractSection(body, PROMPT_HEADING) ?? body;
+  return extractPromptBlock(scope) ?? scope.trim();
+}
+
+// "yes → Step 3", "no -> 1b", "done → end"
+const BRANCH_PATTERN = /([^,;?.\n]+?)\s*(?:→|->|=>)\s*(?:Step\s+)?(\d+[a-z]*|end)\b/gi;
+
+/**
+ * Branches written at a decision point. The step "end" finishes the chain.
+ */
+export function parseBranches(text: string): ChainBranch[] {
+  const branches: ChainBranch[] = [];
+  for (const match of text.matchAll(BRANCH_PATTERN)) {
+    const outcome = match[1].replace(/^[\s*-]+/, '').replace(/[`*]/g, '').trim();
+    if (!outcome || branches.some((b) => b.outcome.toLowerCase() === outcome.toLowerCase())) continue;
+    branches.push({ outcome, step: match[2].toLowerCase() });
+  }
+  return branches;
+}
+
+// Template variable holding the outputs of earlier steps: {{steps.2.output}}
+export const STEP_OUTPUTS_VARIABLE = 'steps';
+
+/**
+ * How a step is referred to: its label as written ("1b"), or its number
+ */
+export function stepLabel(step: ChainStep): string {
+  return step.label ?? String(step.stepNumber);
+}
+
 /**
  * Parse a chain markdown file into structured Chain object
  */
@@ -100,18 +191,24 @@ export function parseChain(item: LibraryItem): Chain {
     }
   }
 
+  // Variables the chain expects in its start_chain context; {{steps.*}}
+  // refers to earlier step outputs, recorded as the chain runs
+  const variables = extractVariables(item.metadata, body).variables.filter((v) => v.name !== STEP_OUTPUTS_VARIABLE);
+
   // Extract steps
   const steps: ChainStep[] = [];
-  const stepPattern = /## Step (\d+):\s*(.+?)(?=\n##|\n---|\*\*Chain|\*\*Tips|$)/gs;
+  const stepPattern = /## Step (\d+[a-z]*):\s*(.+?)(?=\n##|\n---|\*\*Chain|\*\*Tips|$)/gs;
   let stepMatch;
 
   while ((stepMatch = stepPattern.exec(body)) !== null) {
-    const stepNumber = parseInt(stepMatch[1], 10);
-    const stepContent = stepMatch[2] + body.substring(stepMatch.index + stepMatch[0].length).split(/\n## Step \d+:/)[0];
+    // Steps are numbered by position; "## Step 1b:" keeps "1b" as its label
+    const stepNumber = steps.length + 1;
+    const label = stepMatch[1];
+    const stepContent = stepMatch[2] + body.substring(stepMatch.index + stepMatch[0].length).split(/\n## Step \d+[a-z]*:/)[0];
 
     // Extract title (after the colon in "## Step N: Title")
     const titleMatch = stepContent.match(/^([^\n]+)/);
-    const title = titleMatch ? titleMatch[1].trim() : `Step ${stepNumber}`;
+    const title = titleMatch ? titleMatch[1].trim() : `Step ${label}`;
 
     // Extract prompt (in code block after **Prompt:**)
     let prompt = '';
@@ -133,11 +230,25 @@ export function parseChain(item: LibraryItem): Chain {
       }
     }
 
-    // Extract decision point
+    // Extract decision point, and the branches it routes to, either inline
+    // ("yes → Step 3, no → Step 1b") or as a list below it
     let decisionPoint: string | undefined;
-    const decisionMatch = stepContent.match(/\*\*Decision Point:\*\*\s*(.+)/);
+    let branches: ChainBranch[] = [];
+    const decisionMatch = stepContent.match(/\*\*Decision Point:\*\*\s*(.+)((?:\n[ \t]*[-*][ \t]+.+)*)/);
     if (decisionMatch) {
       decisionPoint = decisionMatch[1].trim();
+      branches = parseBranches(`${decisionMatch[1]}${decisionMatch[2]}`);
+    }
+
+    // Extract a library item to run (**Use:** id + modifier + ...); resolved by the library
+    let use: ChainStepUse | undefined;
+    const useMatch = stepContent.match(/\*\*Use:\*\*\s*(.+)/);
+    if (useMatch) {
+      const [reference, ...modifiers] = useMatch[1]
+        .split('+')
+        .map((part) => part.trim().replace(/^`(.*)`$/, '$1').trim())
+        .filter(Boolean);
+      if (reference) use = { reference, modifiers };
     }
 
     steps.push({
@@ -146,6 +257,9 @@ export function parseChain(item: LibraryItem): Chain {
       prompt,
       expectedOutput,
       decisionPoint,
+      ...(label !== String(stepNumber) ? { label } : {}),
+      ...(branches.length ? { branches } : {}),
+      ...(use ? { use } : {}),
     });
   }
 
@@ -168,6 +282,7 @@ export function parseChain(item: LibraryItem): Chain {
     description,
     overview,
     prerequisites,
+    variables,
     steps,
     tips,
     item,
@@ -234,14 +349,45 @@ export function fuzzyMatch(query: string, target: string): number {
   const matchedWords = queryWords.filter((qw) =>
     targetWords.some((tw) => tw.includes(qw) || qw.includes(tw))
   );
-  if (matchedWords.length > 0) {
-    return 0.5 * (matchedWords.length / queryWords.length);
-  }
+  const wordScore = 0.5 * (matchedWords.length / queryWords.length);
+
+  // Edit-distance similarity for typos ("debuger" → "debugger")
+  const maxLength = Math.max(normalizedQuery.length, normalizedTarget.length);
+  const similarity = 1 - editDistance(normalizedQuery, normalizedTarget) / maxLength;
+  const typoScore = 0.6 * Math.max(0, similarity);
+
+  return Math.max(wordScore, typoScore);
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment): the number of
+ * insertions, deletions, substitutions and adjacent transpositions needed
+ * to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
 
-  // Levenshtein-like partial matching for typos
-  let matches = 0;
-  for (let i = 0; i < Math.min(normalizedQuery.length, normalizedTarget.length); i++) {
-    if (normalizedQuery[i] === normalizedTarget[i]) matches++;
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        prev[j] + 1,
+        current[j - 1] + 1,
+        prev[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], prevPrev[j - 2] + 1);
+      }
+    }
+    prevPrev = prev;
+    prev = current;
   }
-  return 0.3 * (matches / Math.max(normalizedQuery.length, normalizedTarget.length));
+
+  return prev[b.length];
 }
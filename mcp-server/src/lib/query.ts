@@ -0,0 +1,297 @@
+/**
+ * Query Parser - Parses structured search queries into terms and filters
+ *
+ * Supported syntax:
+ *   security audit            free-text words, ranked (OR by default)
+ *   "root cause"              exact phrase, must appear
+ *   -legacy, NOT legacy       exclude a word or phrase
+ *   +auth, auth AND session   require a word
+ *   tag:security              field filter (tag, category, subcategory, or any metadata key)
+ *   tag:security,auth         any of several values
+ *   -tag:legacy               negated filter
+ *   updated:>2025-01-01       comparison (>, >=, <, <=) on dates or numbers
+ */
+
+import type { LibraryItem, ParsedQuery, QueryFilter, QueryOperator } from '../types.js';
+
+// sign, optional field name, then a quoted or bare value
+const TOKEN_PATTERN = /([+-]?)(?:([a-z_][\w-]*):)?(?:"([^"]*)"?|([^\s"]+))/gi;
+
+// Shorthand field names accepted in filters
+const FIELD_ALIASES: Record<string, string> = {
+  tags: 'tag',
+  cat: 'category',
+  sub: 'subcategory',
+  modified: 'updated',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?/;
+
+/**
+ * Lowercase and collapse text to space-separated words for containment checks
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .join(' ');
+}
+
+function parseFilter(field: string, raw: string, negated: boolean): QueryFilter {
+  const match = raw.match(/^(>=|<=|>|<|=)?(.*)$/) as RegExpMatchArray;
+  const operator = (match[1] || '=') as QueryOperator;
+  const values = match[2]
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+  const name = field.toLowerCase();
+  return {
+    field: FIELD_ALIASES[name] || name,
+    operator,
+    values,
+    negated,
+  };
+}
+
+interface QueryToken {
+  sign: string;
+  field?: string;
+  quoted?: string;
+  bare?: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let match: RegExpExecArray | null;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(input)) !== null) {
+    const [text, sign, field, quoted, bare] = match;
+    tokens.push({ sign, field, quoted, bare, start: match.index, end: match.index + text.length });
+  }
+  return tokens;
+}
+
+/**
+ * Where a query's free-text words are, as [start, end) offsets. Filters,
+ * quoted phrases, exclusions and boolean operators are left out, so they
+ * can be kept as typed (e.g. by spelling correction).
+ */
+export function freeTextRanges(input: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let negateNext = false;
+
+  for (const { sign, field, quoted, bare, start, end } of tokenize(input)) {
+    if (!sign && !field && quoted === undefined && (bare === 'NOT' || bare === 'AND' || bare === 'OR')) {
+      negateNext = bare === 'NOT';
+      continue;
+    }
+
+    const negated = sign === '-' || negateNext;
+    negateNext = false;
+    if (!field && quoted === undefined && !negated) ranges.push([start + sign.length, end]);
+  }
+  return ranges;
+}
+
+/**
+ * Parse a search query string into ranked terms and hard constraints
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    terms: [],
+    required: [],
+    phrases: [],
+    excluded: [],
+    filters: [],
+  };
+
+  let negateNext = false;
+  let requireNext = false;
+  let lastTerm: string | null = null;
+
+  for (const { sign, field, quoted, bare } of tokenize(input)) {
+    const isQuoted = quoted !== undefined;
+    const value = isQuoted ? quoted.trim() : bare;
+
+    // Boolean operators are only recognized as bare uppercase words
+    if (!sign && !field && !isQuoted) {
+      if (value === 'NOT') {
+        negateNext = true;
+        continue;
+      }
+      if (value === 'AND') {
+        if (lastTerm && !parsed.required.includes(lastTerm)) {
+          parsed.required.push(lastTerm);
+        }
+        requireNext = true;
+        continue;
+      }
+      if (value === 'OR') {
+        continue;
+      }
+    }
+
+    const negated = sign === '-' || negateNext;
+    const required = sign === '+' || requireNext;
+    negateNext = false;
+    requireNext = false;
+    lastTerm = null;
+
+    if (!value) continue;
+
+    if (field) {
+      const filter = parseFilter(field, value, negated);
+      if (filter.values.length > 0) {
+        parsed.filters.push(filter);
+      }
+      continue;
+    }
+
+    if (negated) {
+      parsed.excluded.push(value);
+    } else if (isQuoted) {
+      parsed.phrases.push(value);
+    } else {
+      parsed.terms.push(value);
+      lastTerm = value;
+      if (required) {
+        parsed.required.push(value);
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a parsed query constrains results beyond ranking
+ */
+export function hasConstraints(query: ParsedQuery): boolean {
+  return (
+    query.required.length > 0 ||
+    query.phrases.length > 0 ||
+    query.excluded.length > 0 ||
+    query.filters.length > 0
+  );
+}
+
+/**
+ * Resolve the values a filter field refers to on an item
+ */
+function getFieldValues(item: LibraryItem, field: string): unknown[] {
+  switch (field) {
+    case 'tag':
+      return item.metadata.tags || [];
+    case 'category':
+      return [item.category];
+    case 'subcategory':
+      return item.subcategory ? [item.subcategory] : [];
+    case 'name':
+      return [item.name];
+    case 'id':
+      return [item.id];
+    case 'updated':
+      return [item.metadata.updated ?? item.modifiedAt];
+    default: {
+      const value = item.metadata[field];
+      if (value === undefined || value === null) return [];
+      return Array.isArray(value) ? value : [value];
+    }
+  }
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function compareValue(actual: unknown, operator: QueryOperator, expected: string): boolean {
+  // Dates: "=" matches at the precision given (2025-01 matches any day that month)
+  const expectedDate = DATE_PATTERN.test(expected) ? toDate(expected) : null;
+  const actualDate = toDate(actual);
+  if (expectedDate && actualDate) {
+    if (operator === '=') {
+      return actualDate.toISOString().startsWith(expected);
+    }
+    return compareOrdered(actualDate.getTime() - expectedDate.getTime(), operator);
+  }
+
+  const expectedNumber = Number(expected);
+  if (typeof actual === 'number' && !isNaN(expectedNumber)) {
+    if (operator === '=') return actual === expectedNumber;
+    return compareOrdered(actual - expectedNumber, operator);
+  }
+
+  const actualText = String(actual).toLowerCase();
+  const expectedText = expected.toLowerCase();
+  if (operator === '=') return actualText === expectedText;
+  return compareOrdered(actualText.localeCompare(expectedText), operator);
+}
+
+function compareOrdered(difference: number, operator: QueryOperator): boolean {
+  switch (operator) {
+    case '>':
+      return difference > 0;
+    case '>=':
+      return difference >= 0;
+    case '<':
+      return difference < 0;
+    case '<=':
+      return difference <= 0;
+    default:
+      return difference === 0;
+  }
+}
+
+/**
+ * Check a single filter against an item
+ */
+export function matchesFilter(item: LibraryItem, filter: QueryFilter): boolean {
+  const actualValues = getFieldValues(item, filter.field);
+  const matched = actualValues.some((actual) =>
+    filter.values.some((expected) => compareValue(actual, filter.operator, expected))
+  );
+  return filter.negated ? !matched : matched;
+}
+
+/**
+ * Check whether an item satisfies every constraint in a parsed query.
+ * Free-text terms are not checked here - they only affect ranking.
+ */
+export function matchesQuery(item: LibraryItem, query: ParsedQuery): boolean {
+  if (!query.filters.every((filter) => matchesFilter(item, filter))) {
+    return false;
+  }
+
+  const textConstraints = query.required.length + query.phrases.length + query.excluded.length;
+  if (textConstraints === 0) return true;
+
+  const text = ` ${normalizeText([
+    item.name,
+    item.metadata.title,
+    item.metadata.description,
+    ...(item.metadata.tags || []),
+    ...(item.metadata.aliases || []),
+    item.body,
+  ].filter(Boolean).join(' '))} `;
+
+  const contains = (words: string) => {
+    const normalized = normalizeText(words);
+    return normalized.length > 0 && text.includes(` ${normalized} `);
+  };
+
+  return (
+    query.required.every(contains) &&
+    query.phrases.every(contains) &&
+    !query.excluded.some(contains)
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Render - Turns a library item and variable values into ready-to-paste
+ * prompt text, reporting the variables that were left unfilled
+ */
+
+import type { LibraryItem, VariableDefinition } from '../types.js';
+import { extractPromptSection } from './parser.js';
+import { templateVariables, TemplateError } from './template.js';
+import {
+  extractVariables,
+  resolveVariables,
+  renderVariables,
+  replaceBracketReferences,
+  bracketReferences,
+  variableKey,
+} from './variables.js';
+
+// prompt: only the item's ## Prompt section; body: the whole item
+export type RenderScope = 'prompt' | 'body';
+
+export interface RenderOptions {
+  scope?: RenderScope; // default prompt
+  include?: (id: string) => string | null; // resolves {{> id}} includes
+}
+
+export interface RenderResult {
+  text: string; // empty when there are errors
+  variables: VariableDefinition[]; // declared variables the rendered text uses
+  unfilled: VariableDefinition[]; // optional variables left without a value
+  unused: string[]; // supplied values nothing in the text refers to
+  errors: string[]; // missing or invalid values, template errors
+}
+
+/**
+ * Whether a variable appears in the text as its placeholder, a template
+ * variable or a [name] reference
+ */
+function isUsedIn(variable: VariableDefinition, text: string, templateNames: string[], brackets: Set<string>): boolean {
+  return (
+    (variable.placeholder !== undefined && text.includes(variable.placeholder)) ||
+    templateNames.includes(variable.name) ||
+    brackets.has(variable.name)
+  );
+}
+
+/**
+ * Render an item with the supplied values. Only variables the selected
+ * text uses are validated, so a required variable mentioned only in usage
+ * notes does not block rendering the prompt.
+ */
+export function renderPrompt(
+  item: LibraryItem,
+  supplied: Record<string, string>,
+  options: RenderOptions = {}
+): RenderResult {
+  const { scope = 'prompt', include } = options;
+  const text = scope === 'body' ? item.body : extractPromptSection(item.body);
+
+  let templateNames: string[] = [];
+  try {
+    templateNames = templateVariables(text);
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    return { text: '', variables: [], unfilled: [], unused: [], errors: [`${item.id}: ${error.message}`] };
+  }
+
+  const brackets = bracketReferences(text);
+  const variables = extractVariables(item.metadata, item.body).variables.filter((v) =>
+    isUsedIn(v, text, templateNames, brackets)
+  );
+
+  const resolved = resolveVariables(variables, supplied, { allowUnknown: true });
+  const unused = Object.keys(supplied).filter(
+    (key) => !variables.some((v) => v.name === key || v.name === variableKey(key)) && !brackets.has(key)
+  );
+
+  if (resolved.errors.length > 0) {
+    return { text: '', variables, unfilled: [], unused, errors: resolved.errors };
+  }
+
+  let rendered: string;
+  try {
+    rendered = renderVariables(text, variables, resolved.values, { include, source: item.id });
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    return { text: '', variables, unfilled: [], unused, errors: [error.message] };
+  }
+
+  return {
+    text: replaceBracketReferences(rendered, resolved.values),
+    variables,
+    unfilled: variables.filter((v) => resolved.values[v.name] === ''),
+    unused,
+    errors: [],
+  };
+}
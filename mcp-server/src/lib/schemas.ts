@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { ConfigIssue } from '../types.js';
 
 export const IntentPatternSchema = z.object({
   keywords: z.array(z.string()).min(1),
@@ -18,3 +19,181 @@ export function validateIntentPatterns(data: unknown): ValidatedIntentPattern[]
   }
   return result.data;
 }
+
+/**
+ * Format a zod issue path as a JSON path, e.g. ['3', 'keywords'] -> $[3].keywords
+ */
+export function formatJsonPath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (result, segment) => (typeof segment === 'number' ? `${result}[${segment}]` : `${result}.${segment}`),
+    '$'
+  );
+}
+
+/**
+ * Validate data against a schema without throwing, reporting every problem
+ * with its JSON path
+ */
+export function checkSchema<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown
+): { data: z.output<T> | null; issues: ConfigIssue[] } {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { data: result.data, issues: [] };
+  }
+
+  return {
+    data: null,
+    issues: result.error.issues.map((issue) => ({
+      path: formatJsonPath(issue.path),
+      message: issue.message,
+      severity: 'error' as const,
+    })),
+  };
+}
+
+const VARIABLE_TYPES = ['string', 'enum', 'number', 'boolean', 'multiline'] as const;
+
+// YAML reads `default: 3` or `default: yes` as non-strings; values are handled as text
+const scalar = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+
+export const VariableDefinitionSchema = z
+  .object({
+    name: z.string().regex(/^[A-Za-z_][\w-]*$/, 'Must start with a letter or underscore and contain only letters, digits, _ or -'),
+    description: z.string().optional(),
+    type: z.enum(VARIABLE_TYPES).optional(),
+    required: z.boolean().default(false),
+    default: scalar.optional(),
+    enum: z.array(scalar).min(1).optional(),
+    placeholder: z.string().min(1).optional(),
+  })
+  .transform((variable) => ({
+    ...variable,
+    // A list of allowed values implies an enum
+    type: variable.type ?? (variable.enum ? ('enum' as const) : ('string' as const)),
+  }))
+  .superRefine((variable, ctx) => {
+    if (variable.type === 'enum' && !variable.enum) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['enum'], message: 'Enum variables must list their allowed values' });
+    }
+    if (variable.enum && variable.type !== 'enum') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['type'], message: `Allowed values are only valid for enum variables, not ${variable.type}` });
+    }
+  });
+
+export const VariableDefinitionsSchema = z.array(VariableDefinitionSchema).superRefine((variables, ctx) => {
+  const seen = new Set<string>();
+  variables.forEach((variable, i) => {
+    if (seen.has(variable.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'name'], message: `Duplicate variable "${variable.name}"` });
+    }
+    seen.add(variable.name);
+  });
+});
+
+export const BundleManifestSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/i, 'Must contain only letters, digits, ., _ or -'),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  createdAt: z.string().optional(),
+  items: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        id: z.string().optional(),
+        version: z.string().min(1).optional(),
+        sha256: z.string().regex(/^[0-9a-f]{64}$/i, 'Must be a hex SHA-256 hash'),
+        metadata: z.record(z.unknown()).optional(),
+        dependencies: z.array(z.string()).optional(),
+      })
+    )
+    .min(1),
+});
+
+export const BundleSignatureSchema = z.object({
+  algorithm: z.enum(['hmac-sha256', 'ed25519']),
+  keyId: z.string(),
+  signature: z.string().min(1),
+});
+
+// A step label as written in a chain: 3, "1b"
+const stepLabelText = z.union([z.string(), z.number().int().min(1)]).transform((id) => String(id).trim().toLowerCase());
+const stepId = stepLabelText.refine(
+  (id) => /^\d+[a-z]*$/.test(id),
+  'Must be a step number, optionally followed by letters (3, 1b)'
+);
+const stepTarget = stepLabelText.refine(
+  (id) => id === 'end' || /^\d+[a-z]*$/.test(id),
+  'Must be a step (3, 1b) or end'
+);
+
+// "prompts/development/debugger + ultrathink", or the same as an object
+const stepUse = z.union([
+  z
+    .string()
+    .min(1)
+    .transform((text) => {
+      const [item, ...modifiers] = text.split('+').map((part) => part.trim());
+      return { item, modifiers };
+    }),
+  z.object({ item: z.string().min(1), modifiers: z.array(z.string().min(1)).default([]) }).strict(),
+]);
+
+export const ChainStepDefinitionSchema = z
+  .object({
+    id: stepId.optional(),
+    title: z.string().min(1),
+    use: stepUse.optional(),
+    prompt: z.string().optional(),
+    expectedOutput: z.array(z.string()).default([]),
+    decision: z.string().min(1).optional(),
+    branches: z
+      .record(stepTarget)
+      .refine((branches) => Object.keys(branches).length > 0, 'List at least one outcome')
+      .optional(),
+  })
+  .strict()
+  .superRefine((step, ctx) => {
+    if (!step.use && !step.prompt?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['prompt'], message: 'A step needs a prompt, a use, or both' });
+    }
+  });
+
+/**
+ * A chain written as data (chains/*.chain.yaml) instead of markdown
+ */
+export const ChainDefinitionSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    overview: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    related: z.array(z.string()).optional(),
+    prerequisites: z.array(z.string()).default([]),
+    variables: VariableDefinitionsSchema.default([]),
+    steps: z.array(ChainStepDefinitionSchema).min(1),
+    tips: z.array(z.string()).default([]),
+  })
+  .strict()
+  .superRefine((chain, ctx) => {
+    const ids = chain.steps.map((step, i) => step.id ?? String(i + 1));
+    ids.forEach((id, i) => {
+      if (ids.indexOf(id) !== i) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', i, 'id'], message: `Duplicate step "${id}"` });
+      }
+    });
+    chain.steps.forEach((step, i) => {
+      for (const [outcome, target] of Object.entries(step.branches || {})) {
+        if (target !== 'end' && !ids.includes(target)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['steps', i, 'branches', outcome],
+            message: `No step "${target}" (steps: ${Array.from(new Set(ids)).join(', ')} or end)`,
+          });
+        }
+      }
+    });
+  });
+
+export type ChainDefinition = z.infer<typeof ChainDefinitionSchema>;
@@ -0,0 +1,265 @@
+/**
+ * Search Index - Inverted index with BM25F ranking over library items
+ */
+
+import type { LibraryItem, SearchEntry, SearchField } from '../types.js';
+import { editDistance } from './parser.js';
+import { freeTextRanges } from './query.js';
+
+// BM25 tuning: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'tags', 'aliases', 'body'];
+
+// How much a term occurrence in each field counts relative to the body
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3.0,
+  tags: 2.5,
+  aliases: 2.0,
+  body: 1.0,
+};
+
+// Words too common to carry any ranking signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to',
+  'was', 'what', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercased word tokens, dropping stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token));
+}
+
+/**
+ * Edits allowed when correcting a word: short words tolerate fewer
+ */
+function maxEditsFor(word: string): number {
+  if (word.length <= 3) return 0;
+  if (word.length <= 5) return 1;
+  return 2;
+}
+
+/**
+ * Collect the text of each indexed field for an item
+ */
+function extractFields(item: LibraryItem): Record<SearchField, string> {
+  return {
+    title: [item.name.replace(/[-_]/g, ' '), item.metadata.title].filter(Boolean).join(' '),
+    tags: (item.metadata.tags || []).join(' '),
+    aliases: (item.metadata.aliases || []).join(' '),
+    body: [item.metadata.description, item.category, item.subcategory, item.body]
+      .filter(Boolean)
+      .join(' '),
+  };
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function emptyFieldTotals(): Record<SearchField, number> {
+  return { title: 0, tags: 0, aliases: 0, body: 0 };
+}
+
+/**
+ * A ranked hit from the index, before it is joined back to its item
+ */
+export interface IndexHit {
+  id: string;
+  score: number;
+  matches: string[];
+}
+
+/**
+ * Inverted index supporting incremental add/remove and BM25F scoring.
+ * Each field keeps its own term frequencies and length statistics so that
+ * a title hit outranks the same word buried in a long body.
+ */
+export class SearchIndex {
+  private entries = new Map<string, SearchEntry>();
+  private postings = new Map<string, Set<string>>();
+  private fieldTotals = emptyFieldTotals();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Add an item to the index, replacing any previous entry with the same ID
+   */
+  add(item: LibraryItem, weight: number): void {
+    this.remove(item.id);
+
+    const fields = extractFields(item);
+    const entry: SearchEntry = {
+      id: item.id,
+      terms: {} as Record<SearchField, Map<string, number>>,
+      lengths: emptyFieldTotals(),
+      weight,
+    };
+
+    for (const field of SEARCH_FIELDS) {
+      const tokens = tokenize(fields[field]);
+      entry.terms[field] = countTerms(tokens);
+      entry.lengths[field] = tokens.length;
+      this.fieldTotals[field] += tokens.length;
+
+      for (const term of entry.terms[field].keys()) {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Set();
+          this.postings.set(term, docs);
+        }
+        docs.add(item.id);
+      }
+    }
+
+    this.entries.set(item.id, entry);
+  }
+
+  /**
+   * Remove an item from the index
+   */
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    for (const field of SEARCH_FIELDS) {
+      this.fieldTotals[field] -= entry.lengths[field];
+      for (const term of entry.terms[field].keys()) {
+        const docs = this.postings.get(term);
+        if (!docs) continue;
+        docs.delete(id);
+        if (docs.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+    }
+
+    this.entries.delete(id);
+    return true;
+  }
+
+  /**
+   * Score every item containing at least one query term, best first
+   */
+  search(query: string): IndexHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.entries.size;
+    if (terms.length === 0 || total === 0) return [];
+
+    const averages = {} as Record<SearchField, number>;
+    for (const field of SEARCH_FIELDS) {
+      averages[field] = this.fieldTotals[field] / total || 1;
+    }
+
+    const hits = new Map<string, IndexHit>();
+
+    for (const term of terms) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+
+      const idf = Math.log(1 + (total - docs.size + 0.5) / (docs.size + 0.5));
+
+      for (const id of docs) {
+        const entry = this.entries.get(id);
+        if (!entry) continue;
+
+        // BM25F: combine boosted, length-normalized frequencies before saturating
+        let weightedTf = 0;
+        for (const field of SEARCH_FIELDS) {
+          const tf = entry.terms[field].get(term);
+          if (!tf) continue;
+          const norm = 1 - B + B * (entry.lengths[field] / averages[field]);
+          weightedTf += (FIELD_BOOSTS[field] * tf) / norm;
+        }
+
+        const termScore = (idf * weightedTf * (K1 + 1)) / (K1 + weightedTf);
+        const hit = hits.get(id) || { id, score: 0, matches: [] };
+        hit.score += termScore;
+        hit.matches.push(term);
+        hits.set(id, hit);
+      }
+    }
+
+    const results = Array.from(hits.values());
+    for (const hit of results) {
+      hit.score *= this.entries.get(hit.id)?.weight ?? 1;
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Find the closest indexed term for a misspelled word.
+   * Returns null when the word is already known or nothing is close enough.
+   */
+  correctTerm(word: string): string | null {
+    const normalized = word.toLowerCase();
+    if (this.postings.has(normalized) || STOPWORDS.has(normalized)) return null;
+    if (/\d/.test(normalized)) return null;
+
+    const maxEdits = maxEditsFor(normalized);
+    if (maxEdits === 0) return null;
+
+    let best: string | null = null;
+    let bestDistance = maxEdits + 1;
+    let bestFrequency = 0;
+
+    for (const [term, docs] of this.postings) {
+      if (Math.abs(term.length - normalized.length) > maxEdits) continue;
+
+      const distance = editDistance(normalized, term);
+      if (
+        distance < bestDistance ||
+        (distance === bestDistance && docs.size > bestFrequency)
+      ) {
+        best = term;
+        bestDistance = distance;
+        bestFrequency = docs.size;
+      }
+    }
+
+    return bestDistance <= maxEdits ? best : null;
+  }
+
+  /**
+   * Rewrite a query with misspelled words replaced by indexed terms
+   * ("secruity audit" → "security audit"). Only free-text words are
+   * corrected: filters, quoted phrases and exclusions say exactly what the
+   * user asked for. Returns null if nothing changed.
+   */
+  correct(query: string): string | null {
+    let changed = false;
+    let corrected = '';
+    let copied = 0;
+
+    for (const [start, end] of freeTextRanges(query)) {
+      corrected += query.slice(copied, start);
+      corrected += query.slice(start, end).replace(/[\p{L}\p{N}]+/gu, (word) => {
+        const replacement = this.correctTerm(word);
+        if (!replacement) return word;
+        changed = true;
+        return replacement;
+      });
+      copied = end;
+    }
+
+    return changed ? corrected + query.slice(copied) : null;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Snippets - Short excerpts of an item's body around the words a search
+ * matched, with the matched words marked as highlight ranges
+ */
+
+import type { SearchSnippet, SnippetHighlight } from '../types.js';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export interface SnippetOptions {
+  maxSnippets?: number; // default 3
+  width?: number; // target characters per snippet, default 160
+}
+
+interface Span {
+  start: number;
+  end: number;
+  term: string;
+}
+
+interface Word {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Reduce markdown to a single line of readable text. Emphasis markers are
+ * dropped so they cannot be confused with highlight markup when rendered.
+ */
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*`]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findWords(text: string): Word[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (m) => ({
+    start: m.index as number,
+    end: (m.index as number) + m[0].length,
+    text: m[0].toLowerCase(),
+  }));
+}
+
+/**
+ * Locate every whole-word occurrence of the terms and phrases in the text
+ */
+function findSpans(text: string, terms: string[], phrases: string[]): Span[] {
+  const words = findWords(text);
+  const termSet = new Set(terms.map((t) => t.toLowerCase()));
+  const spans: Span[] = [];
+
+  for (const word of words) {
+    if (termSet.has(word.text)) {
+      spans.push({ start: word.start, end: word.end, term: word.text });
+    }
+  }
+
+  for (const phrase of phrases) {
+    const phraseWords = findWords(phrase).map((w) => w.text);
+    if (phraseWords.length === 0) continue;
+
+    for (let i = 0; i + phraseWords.length <= words.length; i++) {
+      if (phraseWords.every((w, j) => words[i + j].text === w)) {
+        spans.push({ start: words[i].start, end: words[i + phraseWords.length - 1].end, term: phrase.toLowerCase() });
+      }
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cut [start, end) out of the text at word boundaries, adding ellipses
+ * where it was truncated, and translate spans into snippet offsets
+ */
+function buildSnippet(text: string, start: number, end: number, spans: Span[]): SearchSnippet {
+  const first = spans.length > 0 ? spans[0].start : end;
+  const last = spans.length > 0 ? spans[spans.length - 1].end : start;
+
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space >= last && space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  // Merge overlapping spans (a term inside a matched phrase)
+  const highlights: SnippetHighlight[] = [];
+  for (const span of spans) {
+    const previous = highlights[highlights.length - 1];
+    if (previous && span.start + offset <= previous.end) {
+      previous.end = Math.max(previous.end, span.end + offset);
+    } else {
+      highlights.push({ start: span.start + offset, end: span.end + offset });
+    }
+  }
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * Pick up to `maxSnippets` non-overlapping windows of the body, preferring
+ * windows that cover the most distinct terms, then the most occurrences.
+ * Falls back to the opening of the body when nothing matched.
+ */
+export function extractSnippets(
+  body: string,
+  terms: string[],
+  phrases: string[] = [],
+  options: SnippetOptions = {}
+): SearchSnippet[] {
+  const { maxSnippets = 3, width = 160 } = options;
+  const text = plainText(body);
+  if (!text) return [];
+
+  const spans = findSpans(text, terms, phrases);
+  if (spans.length === 0) {
+    return [buildSnippet(text, 0, Math.min(text.length, width), [])];
+  }
+
+  const lead = Math.floor(width / 3);
+  const windows: Array<{ start: number; end: number; spans: Span[] }> = [];
+
+  while (windows.length < maxSnippets) {
+    let best: { start: number; end: number; spans: Span[]; score: number } | null = null;
+
+    for (const span of spans) {
+      const start = Math.max(0, span.start - lead);
+      const end = Math.min(text.length, Math.max(start + width, span.end));
+      if (windows.some((w) => start < w.end && end > w.start)) continue;
+
+      const inside = spans.filter((s) => s.start >= start && s.end <= end);
+      const score = new Set(inside.map((s) => s.term)).size * 1000 + inside.length;
+      if (!best || score > best.score) {
+        best = { start, end, spans: inside, score };
+      }
+    }
+
+    if (!best) break;
+    windows.push(best);
+  }
+
+  return windows.map((w) => buildSnippet(text, w.start, w.end, w.spans));
+}
+
+/**
+ * Render a snippet with each highlighted range wrapped by `mark`
+ */
+export function renderSnippet(snippet: SearchSnippet, mark: (text: string) => string): string {
+  let output = '';
+  let position = 0;
+  for (const { start, end } of snippet.highlights) {
+    output += snippet.text.slice(position, start) + mark(snippet.text.slice(start, end));
+    position = end;
+  }
+  return output + snippet.text.slice(position);
+}
@@ -0,0 +1,76 @@
+/**
+ * Library Store - Where library files live. The Library reads, writes and
+ * watches files only through a store, addressed by paths relative to the
+ * library root ("prompts/planning/prd-generator.md").
+ */
+
+import { posix } from 'path';
+
+export interface StoreStat {
+  mtimeMs: number;
+  size: number;
+}
+
+export type StoreEvent = 'add' | 'change' | 'unlink';
+
+export type StoreListener = (event: StoreEvent, path: string) => void;
+
+export interface StoreWatcher {
+  close(): void;
+}
+
+export interface LibraryStore {
+  /** Where the library lives, for messages */
+  readonly location: string;
+  /** Local directory backing the store, where caches can be kept; absent for stores without one */
+  readonly directory?: string;
+  readonly readOnly: boolean;
+
+  /** Paths of all files under a directory ('' for the root), recursively, skipping dotfiles */
+  list(directory: string): string[];
+  /** File content, or null if there is no such file */
+  read(path: string): string | null;
+  stat(path: string): StoreStat | null;
+  /** Create or replace a file; readers never see it half-written */
+  write(path: string, content: string): void;
+  delete(path: string): void;
+  /** Report changes to files under the given paths (directories or files) */
+  watch(paths: string[], listener: StoreListener): StoreWatcher;
+  /** Full path of a file, as shown to users and stored on items */
+  resolve(path: string): string;
+  /** Name of the layer a file comes from, for stores that merge several libraries */
+  layer?(path: string): string | undefined;
+  /** Why writing or deleting a file would be refused, or null; omitted by stores that only refuse when read-only */
+  checkWrite?(path: string, operation: 'write' | 'delete'): string | null;
+}
+
+export class StoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoreError';
+  }
+}
+
+/**
+ * Normalize a library-relative path, or null if it is absolute or climbs
+ * out of the library root
+ */
+export function normalizeStorePath(path: string): string | null {
+  const normalized = posix.normalize(path.replace(/\\/g, '/').replace(/\0/g, ''));
+  if (normalized.startsWith('/') || normalized === '..' || normalized.startsWith('../')) return null;
+  return normalized === '.' ? '' : normalized.replace(/\/$/, '');
+}
+
+/**
+ * Whether `path` is `directory` or inside it
+ */
+export function isUnder(path: string, directory: string): boolean {
+  return directory === '' || path === directory || path.startsWith(`${directory}/`);
+}
+
+/**
+ * Whether any segment of a path is hidden (.history/, .cache/, .tmp files)
+ */
+export function isHiddenPath(path: string): boolean {
+  return path.split('/').some((segment) => segment.startsWith('.'));
+}
@@ -0,0 +1,397 @@
+/**
+ * Template Engine - Renders prompt bodies with {{variables}}, filters,
+ * {{#if}} / {{#each}} blocks and {{> id}} includes of other library items.
+ * Sandboxed: templates can only read the context they are given.
+ */
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+// A path is dot-separated names; a name may contain spaces ("Another Var")
+// since lookups also match case-insensitively with spaces as underscores.
+// Later segments may be keys like "1b" (chain step labels).
+const NAME = String.raw`[A-Za-z_@][\w@-]*(?: [\w-]+)*`;
+const PATH = String.raw`(?:${NAME}|\d+)(?:\.(?:${NAME}|\d+[a-z]*))*`;
+const ARG = String.raw`"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[\w.-]+`;
+const FILTER = String.raw`\|\s*[a-z][\w-]*\s*(?::\s*(?:${ARG})(?:\s*,\s*(?:${ARG}))*)?`;
+
+const EXPRESSION_PATTERN = new RegExp(String.raw`^\s*(${PATH})\s*((?:${FILTER}\s*)*)$`);
+const FILTER_PATTERN = new RegExp(String.raw`\|\s*([a-z][\w-]*)\s*(?::\s*((?:${ARG})(?:\s*,\s*(?:${ARG}))*))?`, 'g');
+const ARG_PATTERN = new RegExp(ARG, 'g');
+const BLOCK_PATTERN = new RegExp(String.raw`^\s*#(if|unless|each)\s+(${PATH})\s*$`);
+const CLOSE_PATTERN = /^\s*\/(if|unless|each)\s*$/;
+const ELSE_PATTERN = /^\s*else\s*$/;
+const INCLUDE_PATTERN = /^\s*>\s*([\w./-]+)\s*$/;
+
+// Properties that could reach outside the context through prototypes
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const MAX_INCLUDE_DEPTH = 10;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface TemplateOptions {
+  include?: (id: string) => string | null; // template text of an included item, null if unknown
+  source?: string; // name of the template being rendered, for errors and cycle detection
+}
+
+type Filter = { name: string; args: string[] };
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'output'; raw: string; path: string[]; filters: Filter[] }
+  | { kind: 'block'; block: 'if' | 'unless' | 'each'; path: string[]; body: Node[]; inverse: Node[]; line: number }
+  | { kind: 'include'; id: string; line: number };
+
+type Token =
+  | { kind: 'text'; text: string }
+  | { kind: 'tag'; raw: string; content: string; standalone: boolean; line: number };
+
+type Scope = Record<string, unknown>;
+
+const FILTERS: Record<string, (value: unknown, args: string[]) => unknown> = {
+  default: (value, [fallback = '']) => (isBlank(value) ? fallback : value),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  indent: (value, [width = '2']) => {
+    const pad = ' '.repeat(Math.max(0, parseInt(width, 10) || 0));
+    return toText(value).split('\n').map((line) => (line ? pad + line : line)).join('\n');
+  },
+  'code-fence': (value, [language = '']) => `\`\`\`${language}\n${toText(value)}\n\`\`\``,
+  join: (value, [separator = ', ']) => (Array.isArray(value) ? value.map(toText).join(separator) : toText(value)),
+};
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Block conditions follow variable values, which arrive as strings:
+ * "" and "false" are false, as are empty lists
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !isBlank(value) && value !== false && value !== 0 && value !== 'false';
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+function unquote(arg: string): string {
+  const quote = arg[0];
+  if ((quote === '"' || quote === "'") && arg.endsWith(quote)) {
+    return arg.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return arg;
+}
+
+function lineAt(template: string, index: number): number {
+  return template.slice(0, index).split('\n').length;
+}
+
+/**
+ * Split a template into text and tags. Block tags alone on their line are
+ * marked standalone so the line they occupy can be dropped from the output.
+ */
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index as number;
+    if (index > position) tokens.push({ kind: 'text', text: template.slice(position, index) });
+
+    const content = match[1];
+    const structural = /^\s*[#/]/.test(content) || ELSE_PATTERN.test(content);
+    const before = template.slice(template.lastIndexOf('\n', index - 1) + 1, index);
+    const afterEnd = template.indexOf('\n', index + match[0].length);
+    const after = template.slice(index + match[0].length, afterEnd === -1 ? template.length : afterEnd);
+
+    tokens.push({
+      kind: 'tag',
+      raw: match[0],
+      content,
+      standalone: structural && !before.trim() && !after.trim(),
+      line: lineAt(template, index),
+    });
+    position = index + match[0].length;
+  }
+
+  if (position < template.length) tokens.push({ kind: 'text', text: template.slice(position) });
+
+  // Drop the indentation before and the line break after standalone tags
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'tag' || !token.standalone) return;
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    if (previous?.kind === 'text') previous.text = previous.text.replace(/[ \t]*$/, '');
+    if (next?.kind === 'text') next.text = next.text.replace(/^[ \t]*\r?\n?/, '');
+  });
+
+  return tokens;
+}
+
+function parseFilters(source: string): Filter[] {
+  return Array.from(source.matchAll(FILTER_PATTERN), (match) => ({
+    name: match[1],
+    args: match[2] ? Array.from(match[2].matchAll(ARG_PATTERN), (arg) => unquote(arg[0])) : [],
+  }));
+}
+
+/**
+ * Parse a template into nodes. Tags that are not template syntax, such as
+ * JSX style={{ color: 'red' }}, are kept as text.
+ */
+function parse(template: string): Node[] {
+  const root: Node[] = [];
+  const stack: Array<{ node: Extract<Node, { kind: 'block' }>; inElse: boolean }> = [];
+  const target = (): Node[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.node.inverse : open.node.body;
+  };
+
+  for (const token of tokenize(template)) {
+    if (token.kind === 'text') {
+      target().push({ kind: 'text', text: token.text });
+      continue;
+    }
+
+    const { content, line } = token;
+    let match: RegExpMatchArray | null;
+
+    if ((match = content.match(BLOCK_PATTERN))) {
+      const node: Node = {
+        kind: 'block',
+        block: match[1] as 'if' | 'unless' | 'each',
+        path: match[2].split('.'),
+        body: [],
+        inverse: [],
+        line,
+      };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if ((match = content.match(CLOSE_PATTERN))) {
+      const open = stack.pop();
+      if (!open) throw new TemplateError(`Unexpected {{/${match[1]}}} on line ${line}`);
+      if (open.node.block !== match[1]) {
+        throw new TemplateError(`Expected {{/${open.node.block}}} to close the block from line ${open.node.line}, found {{/${match[1]}}} on line ${line}`);
+      }
+    } else if (ELSE_PATTERN.test(content)) {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) throw new TemplateError(`Unexpected {{else}} on line ${line}`);
+      open.inElse = true;
+    } else if ((match = content.match(INCLUDE_PATTERN))) {
+      target().push({ kind: 'include', id: match[1], line });
+    } else if ((match = content.match(EXPRESSION_PATTERN))) {
+      const filters = parseFilters(match[2]);
+      for (const filter of filters) {
+        if (!FILTERS[filter.name]) {
+          throw new TemplateError(`Unknown filter "${filter.name}" on line ${line} (available: ${Object.keys(FILTERS).join(', ')})`);
+        }
+      }
+      target().push({ kind: 'output', raw: token.raw, path: match[1].split('.'), filters });
+    } else {
+      target().push({ kind: 'text', text: token.raw });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`Unclosed {{#${unclosed.node.block}}} from line ${unclosed.node.line}`);
+  }
+  return root;
+}
+
+function own(value: unknown, key: string): unknown {
+  if (value === null || typeof value !== 'object' || FORBIDDEN_KEYS.has(key)) return undefined;
+  if (Object.prototype.hasOwnProperty.call(value, key)) return (value as Record<string, unknown>)[key];
+
+  // Fall back to a case- and spacing-insensitive match ("Another Var" -> another_var)
+  const normalized = normalizeKey(key);
+  const found = Object.keys(value).find((k) => normalizeKey(k) === normalized && !FORBIDDEN_KEYS.has(k));
+  return found === undefined ? undefined : (value as Record<string, unknown>)[found];
+}
+
+/**
+ * Look a path up through the scopes, innermost first
+ */
+function lookup(scopes: Scope[], path: string[]): unknown {
+  const [head, ...rest] = path;
+  let value: unknown;
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    value = own(scopes[i], head);
+    if (value !== undefined) break;
+  }
+
+  for (const segment of rest) {
+    value = own(value, segment);
+  }
+  return value;
+}
+
+/**
+ * Items an {{#each}} block iterates over. Strings are split into their
+ * non-empty lines, so a multiline variable can be looped over.
+ */
+function iterable(value: unknown): Array<{ item: unknown; key: string }> {
+  if (Array.isArray(value)) return value.map((item, i) => ({ item, key: String(i) }));
+  if (typeof value === 'string') {
+    return value.split('\n').map((l) => l.trim()).filter(Boolean).map((item, i) => ({ item, key: String(i) }));
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .filter((key) => !FORBIDDEN_KEYS.has(key))
+      .map((key) => ({ item: (value as Record<string, unknown>)[key], key }));
+  }
+  return [];
+}
+
+function renderNodes(nodes: Node[], scopes: Scope[], options: TemplateOptions, includeStack: string[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'output': {
+        let value = lookup(scopes, node.path);
+
+        // Unknown variables stay as written so unfilled prompts remain readable
+        if (value === undefined && !node.filters.some((f) => f.name === 'default')) {
+          output += node.raw;
+          break;
+        }
+
+        for (const filter of node.filters) {
+          value = FILTERS[filter.name](value, filter.args);
+        }
+        output += toText(value);
+        break;
+      }
+
+      case 'block': {
+        const value = lookup(scopes, node.path);
+        if (node.block === 'each') {
+          const entries = iterable(value);
+          if (entries.length === 0) {
+            output += renderNodes(node.inverse, scopes, options, includeStack);
+          }
+          entries.forEach(({ item, key }, i) => {
+            const scope: Scope = {
+              ...(item && typeof item === 'object' && !Array.isArray(item) ? (item as Scope) : {}),
+              this: item,
+              '@index': i,
+              '@key': key,
+              '@first': i === 0,
+              '@last': i === entries.length - 1,
+            };
+            output += renderNodes(node.body, [...scopes, scope], options, includeStack);
+          });
+        } else {
+          const show = isTruthy(value) === (node.block === 'if');
+          output += renderNodes(show ? node.body : node.inverse, scopes, options, includeStack);
+        }
+        break;
+      }
+
+      case 'include': {
+        if (includeStack.includes(node.id)) {
+          throw new TemplateError(`Include cycle: ${[...includeStack, node.id].join(' -> ')}`);
+        }
+        if (includeStack.length > MAX_INCLUDE_DEPTH) {
+          throw new TemplateError(`Includes nested deeper than ${MAX_INCLUDE_DEPTH} levels at "${node.id}"`);
+        }
+
+        const included = options.include?.(node.id) ?? null;
+        if (included === null) {
+          const current = includeStack[includeStack.length - 1];
+          const message = `Unknown include "${node.id}" on line ${node.line}`;
+          throw new TemplateError(current ? `${current}: ${message}` : message);
+        }
+        output += renderNodes(parseSource(included, node.id), scopes, options, [...includeStack, node.id]);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function parseSource(template: string, source: string | undefined): Node[] {
+  try {
+    return parse(template);
+  } catch (error) {
+    if (error instanceof TemplateError && source) throw new TemplateError(`${source}: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Render a template against a context. Throws TemplateError for malformed
+ * blocks, unknown filters, and missing or cyclic includes.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>, options: TemplateOptions = {}): string {
+  const includeStack = options.source ? [options.source] : [];
+  return renderNodes(parseSource(template, options.source), [context], options, includeStack);
+}
+
+/**
+ * Top-level variable names a template reads, in order of first use.
+ * Names inside {{#each}} blocks refer to the items and are skipped.
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+
+  const visit = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'output' || node.kind === 'block') {
+        const head = node.path[0];
+        if (!head.startsWith('@') && head !== 'this' && !/^\d+$/.test(head)) names.add(head);
+      }
+      if (node.kind === 'block') {
+        if (node.block !== 'each') visit(node.body);
+        visit(node.inverse);
+      }
+    }
+  };
+
+  visit(parse(template));
+  return Array.from(names);
+}
+
+/**
+ * IDs of the items a template includes with {{> id}}, in order of first use
+ */
+export function templateIncludes(template: string): string[] {
+  const ids = new Set<string>();
+
+  const visit = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'include') ids.add(node.id);
+      if (node.kind === 'block') {
+        visit(node.body);
+        visit(node.inverse);
+      }
+    }
+  };
+
+  visit(parse(template));
+  return Array.from(ids);
+}
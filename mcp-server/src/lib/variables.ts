@@ -0,0 +1,264 @@
+/**
+ * Variables - Reads the variables an item or chain declares, validates
+ * supplied values against them and substitutes the values into its text
+ */
+
+import type { ConfigIssue, LibraryItemMetadata, VariableDefinition } from '../types.js';
+import { checkSchema, VariableDefinitionsSchema } from './schemas.js';
+import { renderTemplate, templateVariables, TemplateError, type TemplateOptions } from './template.js';
+
+// "- `[your idea]` - Brief description" under a ## Variables heading
+const SECTION_PATTERN = /^##\s+Variables\s*$([\s\S]*?)(?=^##\s|(?![\s\S]))/m;
+const SECTION_LINE = /^[-*]\s+`([^`]+)`\s*(?:[-–—:]\s*(.*))?$/;
+
+// "(Optional)" or "(optional, for targeted analysis)" in a prose description
+const OPTIONAL_MARKER = /\(\s*optional\b[^)]*\)/i;
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', 'on', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', 'off', '0']);
+
+export interface ResolveOptions {
+  allowUnknown?: boolean; // accept values no variable declares (chain context)
+}
+
+export interface ResolvedVariables {
+  values: Record<string, string>;
+  errors: string[];
+}
+
+/**
+ * Turn a placeholder into a variable name: "[your idea]" -> "your_idea"
+ */
+export function variableKey(placeholder: string): string {
+  return placeholder
+    .replace(/^\[|\]$/g, '')
+    .replace(/^\{\{\s*|\s*\}\}$/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Variables described in prose under a ## Variables heading. A variable is
+ * required unless its description says it is optional.
+ */
+export function parseVariableSection(body: string): VariableDefinition[] {
+  const section = body.match(SECTION_PATTERN);
+  if (!section) return [];
+
+  const variables: VariableDefinition[] = [];
+  for (const line of section[1].split('\n')) {
+    const match = line.trim().match(SECTION_LINE);
+    if (!match) continue;
+
+    const placeholder = match[1].trim();
+    const name = variableKey(placeholder);
+    if (!name || variables.some((v) => v.name === name)) continue;
+
+    const prose = (match[2] || '').trim();
+    const description = prose.replace(OPTIONAL_MARKER, '').replace(/\s+/g, ' ').replace(/^[\s,;:-]+/, '').trim();
+
+    variables.push({
+      name,
+      description: description || undefined,
+      type: 'string',
+      required: !OPTIONAL_MARKER.test(prose),
+      placeholder,
+    });
+  }
+  return variables;
+}
+
+/**
+ * Check a raw value against a variable's type, normalizing it
+ * (booleans to true/false, enum values to their declared spelling)
+ */
+export function coerceValue(variable: VariableDefinition, raw: unknown): { value: string } | { error: string } {
+  const text = String(raw).trim();
+
+  switch (variable.type) {
+    case 'number':
+      if (text === '' || !Number.isFinite(Number(text))) {
+        return { error: `"${variable.name}" must be a number, got "${text}"` };
+      }
+      return { value: String(Number(text)) };
+    case 'boolean':
+      if (TRUE_VALUES.has(text.toLowerCase())) return { value: 'true' };
+      if (FALSE_VALUES.has(text.toLowerCase())) return { value: 'false' };
+      return { error: `"${variable.name}" must be true or false, got "${text}"` };
+    case 'enum': {
+      const allowed = variable.enum || [];
+      const match = allowed.find((v) => v.toLowerCase() === text.toLowerCase());
+      if (match === undefined) {
+        return { error: `"${variable.name}" must be one of ${allowed.join(', ')}; got "${text}"` };
+      }
+      return { value: match };
+    }
+    default:
+      // Strings keep their formatting; only the emptiness check trims
+      return { value: String(raw) };
+  }
+}
+
+/**
+ * The variables an item declares: its `variables:` frontmatter when valid,
+ * otherwise its ## Variables section, plus any other variable the body
+ * reads as a template ({{name}}, {{#if name}}) as an optional string.
+ * Frontmatter problems are returned as issues with JSON paths rooted at
+ * the list ($[0].type).
+ */
+export function extractVariables(
+  metadata: LibraryItemMetadata,
+  body: string
+): { variables: VariableDefinition[]; issues: ConfigIssue[] } {
+  let variables: VariableDefinition[] | null = null;
+  const issues: ConfigIssue[] = [];
+
+  if (metadata.variables !== undefined) {
+    const checked = checkSchema(VariableDefinitionsSchema, metadata.variables);
+    issues.push(...checked.issues);
+
+    checked.data?.forEach((variable, i) => {
+      if (variable.default === undefined) return;
+      const result = coerceValue(variable, variable.default);
+      if ('error' in result) {
+        issues.push({ path: `$[${i}].default`, message: `Default ${result.error}`, severity: 'error' });
+      }
+    });
+
+    if (issues.length === 0) variables = checked.data;
+  }
+
+  variables ??= parseVariableSection(body);
+
+  let referenced: string[] = [];
+  try {
+    referenced = templateVariables(body);
+  } catch (error) {
+    // A malformed template fails when rendered, with the parse error
+    if (!(error instanceof TemplateError)) throw error;
+  }
+  for (const name of referenced) {
+    if (!variables.some((v) => v.name === name)) {
+      variables.push({ name, type: 'string', required: false });
+    }
+  }
+
+  return { variables, issues };
+}
+
+/**
+ * Validate supplied values against declared variables, filling in defaults.
+ * Values may be keyed by name or by placeholder ("your idea"). Optional
+ * variables with no value resolve to an empty string.
+ */
+export function resolveVariables(
+  variables: VariableDefinition[],
+  supplied: Record<string, unknown>,
+  options: ResolveOptions = {}
+): ResolvedVariables {
+  const values: Record<string, string> = {};
+  const errors: string[] = [];
+  const used = new Set<string>();
+
+  for (const variable of variables) {
+    const key = Object.keys(supplied).find((k) => k === variable.name || variableKey(k) === variable.name);
+    const raw = key === undefined ? undefined : supplied[key];
+    if (key !== undefined) used.add(key);
+
+    if (raw === undefined || raw === null || String(raw).trim() === '') {
+      if (variable.default !== undefined) {
+        values[variable.name] = variable.default;
+      } else if (variable.required) {
+        errors.push(`Missing required variable "${variable.name}"${variable.description ? ` (${variable.description})` : ''}`);
+      } else {
+        values[variable.name] = '';
+      }
+      continue;
+    }
+
+    const result = coerceValue(variable, raw);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else {
+      values[variable.name] = result.value;
+    }
+  }
+
+  for (const key of Object.keys(supplied)) {
+    if (used.has(key)) continue;
+    if (options.allowUnknown) {
+      values[key] = String(supplied[key]);
+    } else {
+      const declared = variables.map((v) => v.name).join(', ') || 'none';
+      errors.push(`Unknown variable "${key}" (declared: ${declared})`);
+    }
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Render text as a template with the resolved values, then replace each
+ * declared variable's placeholder. Values are inserted after the template
+ * is rendered, so template syntax inside a value is never evaluated.
+ */
+export function renderVariables(
+  text: string,
+  variables: VariableDefinition[],
+  values: Record<string, string>,
+  options: TemplateOptions = {}
+): string {
+  return replacePlaceholders(renderTemplate(text, values, options), variables, values);
+}
+
+/**
+ * Replace each declared variable's placeholder ("[your idea]") with its value.
+ * Variables without a resolved value are left as written.
+ */
+export function replacePlaceholders(text: string, variables: VariableDefinition[], values: Record<string, string>): string {
+  let result = text;
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (value !== undefined && variable.placeholder) {
+      result = result.split(variable.placeholder).join(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace [variable name] references with the value keyed by that name or
+ * by its snake_case form. References without a non-empty value are kept.
+ */
+export function replaceBracketReferences(text: string, values: Record<string, string>): string {
+  return text.replace(/\[([^\]]+)\]/g, (match, name: string) => {
+    const key = name.toLowerCase().replace(/\s+/g, '_');
+    return values[key] || values[name] || match;
+  });
+}
+
+/**
+ * Names a [variable name] reference in the text can be supplied under
+ */
+export function bracketReferences(text: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\[([^\]]+)\]/g)) {
+    names.add(match[1]);
+    names.add(match[1].toLowerCase().replace(/\s+/g, '_'));
+  }
+  return names;
+}
+
+/**
+ * One-line summary of a variable, e.g. `your_idea` (multiline, required) - Brief description
+ */
+export function describeVariable(variable: VariableDefinition): string {
+  const details: string[] = [variable.type === 'enum' && variable.enum ? variable.enum.join(' | ') : variable.type];
+  if (variable.required) details.push('required');
+  if (variable.default !== undefined) details.push(`default: ${variable.default}`);
+
+  const description = variable.description ? ` - ${variable.description}` : '';
+  return `\`${variable.name}\` (${details.join(', ')})${description}`;
+}
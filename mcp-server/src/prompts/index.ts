@@ -6,50 +6,16 @@
  * 
  * Features:
  * - Auto-registers all 74+ library items as prompts
- * - Extracts {{variables}} from prompt bodies as arguments
- * - Substitutes variables when prompts are invoked
+ * - Exposes declared variables (frontmatter or ## Variables) as arguments
+ * - Validates and substitutes variables when prompts are invoked
  * - Groups prompts by category for organization
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Library } from '../lib/library.js';
-import type { LibraryItem } from '../types.js';
-
-/**
- * Extract template variables from a prompt body
- * Looks for {{variable_name}} patterns
- */
-function extractVariables(body: string): string[] {
-  const regex = /\{\{([^}]+)\}\}/g;
-  const variables = new Set<string>();
-  let match;
-  
-  while ((match = regex.exec(body)) !== null) {
-    // Clean up variable name (trim whitespace, handle modifiers)
-    const varName = match[1].trim().split('|')[0].trim();
-    if (varName && !varName.startsWith('#') && !varName.startsWith('/')) {
-      variables.add(varName);
-    }
-  }
-  
-  return Array.from(variables);
-}
-
-/**
- * Substitute variables in prompt body
- */
-function substituteVariables(body: string, values: Record<string, string>): string {
-  let result = body;
-  
-  for (const [key, value] of Object.entries(values)) {
-    // Replace {{key}} and {{ key }} patterns
-    const regex = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g');
-    result = result.replace(regex, value);
-  }
-  
-  return result;
-}
+import { extractVariables, resolveVariables, renderVariables } from '../lib/variables.js';
+import type { LibraryItem, VariableDefinition } from '../types.js';
 
 /**
  * Convert library item ID to a valid prompt name
@@ -61,16 +27,22 @@ function toPromptName(id: string): string {
 }
 
 /**
- * Build Zod schema for prompt arguments based on extracted variables
+ * Build Zod schema for prompt arguments from declared variables.
+ * MCP prompt arguments are always strings, so types are checked on render.
  */
-function buildArgumentSchema(variables: string[]): Record<string, z.ZodTypeAny> {
+function buildArgumentSchema(variables: VariableDefinition[]): Record<string, z.ZodTypeAny> {
   const schema: Record<string, z.ZodTypeAny> = {};
-  
+
   for (const variable of variables) {
-    // Make all variables optional with a description
-    schema[variable] = z.string().optional().describe(`Value for {{${variable}}}`);
+    const hints = [variable.description || `Value for ${variable.placeholder || `{{${variable.name}}}`}`];
+    if (variable.type === 'enum' && variable.enum) hints.push(`one of: ${variable.enum.join(', ')}`);
+    if (variable.type === 'number' || variable.type === 'boolean') hints.push(variable.type);
+    if (variable.default !== undefined) hints.push(`default: ${variable.default}`);
+
+    const argument = z.string().describe(hints.join('; '));
+    schema[variable.name] = variable.required && variable.default === undefined ? argument : argument.optional();
   }
-  
+
   return schema;
 }
 
@@ -145,13 +117,13 @@ export function registerPrompts(
       const item = library.getItem(id);
       
       if (!item) {
-        const suggestions = library.search(id, 3);
+        const suggestions = library.didYouMean(id, 3);
         let errorMsg = `Prompt "${id}" not found.`;
         
         if (suggestions.length > 0) {
           errorMsg += '\n\nDid you mean:\n';
-          for (const s of suggestions) {
-            errorMsg += `- ${s.item.id}\n`;
+          for (const suggestion of suggestions) {
+            errorMsg += `- ${suggestion.id}\n`;
           }
         }
         
@@ -281,8 +253,8 @@ export function registerPrompts(
   // These are registered at startup with known schemas
   const keyPrompts = [
     { id: 'prompts/planning/prd-generator', name: 'prd-generator', description: 'Generate a Product Requirements Document' },
-    { id: 'prompts/analysis/debugger', name: 'debugger', description: 'Systematic debugging assistant' },
-    { id: 'prompts/analysis/security-audit', name: 'security-audit', description: 'Security vulnerability analysis' },
+    { id: 'prompts/development/debugger', name: 'debugger', description: 'Systematic debugging assistant' },
+    { id: 'prompts/quality/security-audit', name: 'security-audit', description: 'Security vulnerability analysis' },
     { id: 'prompts/development/code-review', name: 'code-review', description: 'Comprehensive code review' },
     { id: 'skills/code-review', name: 'skill-code-review', description: 'Code review skill with checklist' },
     { id: 'skills/debugging', name: 'skill-debugging', description: 'Advanced debugging skill' },
@@ -294,13 +266,21 @@ export function registerPrompts(
   ];
 
   for (const kp of keyPrompts) {
+    // Arguments are fixed at registration, so read the item's declarations from disk
+    const declared = library.readItem(kp.id);
+    const variables = declared ? extractVariables(declared.metadata, declared.body).variables : [];
+    const hasContextVariable = variables.some((v) => v.name === 'context');
+
     server.prompt(
       kp.name,
       kp.description,
       {
-        context: z.string().optional().describe('Optional context to prepend to the prompt'),
+        ...(hasContextVariable ? {} : {
+          context: z.string().optional().describe('Optional context to prepend to the prompt'),
+        }),
+        ...buildArgumentSchema(variables),
       },
-      async ({ context }) => {
+      async (args: Record<string, string | undefined>) => {
         await ensureInitialized();
         const item = library.getItem(kp.id);
         
@@ -314,9 +294,20 @@ export function registerPrompts(
             ],
           };
         }
-        
-        let text = item.body;
-        if (context) {
+
+        const { context, ...supplied } = args;
+        if (hasContextVariable) supplied.context = context;
+
+        const resolved = resolveVariables(variables, supplied);
+        if (resolved.errors.length > 0) {
+          throw new Error(`Cannot render prompt "${kp.name}": ${resolved.errors.join('; ')}`);
+        }
+
+        let text = renderVariables(item.body, variables, resolved.values, {
+          include: (id) => library.resolveInclude(id),
+          source: item.id,
+        });
+        if (context && !hasContextVariable) {
           text = `Context:\n${context}\n\n---\n\n${text}`;
         }
         
@@ -8,9 +8,11 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { Library } from './lib/library.js';
+import { Library, openLibraryStore } from './lib/library.js';
 import { ChainManager } from './lib/chains.js';
+import { FeedbackStore } from './lib/feedback.js';
 import type { LibraryCategory, LibraryItem } from './types.js';
+import { join } from 'path';
 
 // Import modular tool registrations
 import { registerLibraryTools } from './tools/library.js';
@@ -37,23 +39,34 @@ export interface ServerOptions {
   /** Enable debug logging */
   debug?: boolean;
   /** 
-   * Read-only mode - disables save_to_library tool.
+   * Read-only mode - disables the tools that write to the library.
    * Recommended for production/CI environments.
    */
   readOnly?: boolean;
+  /** Watch library items, reloading on change (config/intents.json always reloads) */
+  watch?: boolean;
+  /** Layer that writes go to when several libraries are layered */
+  writeLayer?: string;
+  /** Directory import_bundle reads bundles from (default: bundles/ in the library) */
+  bundleDirectory?: string;
+  /** HMAC secret or Ed25519 public key (PEM) that import_bundle requires bundles to be signed with */
+  bundleKey?: string;
+  /** Let import_bundle install unsigned bundles, or signed ones when there is no key */
+  allowUnsignedBundles?: boolean;
 }
 
 /**
- * Create and configure the MCP server
+ * Create and configure the MCP server. Several library paths are layered,
+ * highest precedence first (see openLibraryStore).
  */
-export function createServer(libraryPath: string, options: ServerOptions | boolean = false): McpServer {
+export function createServer(libraryPath: string | string[], options: ServerOptions | boolean = false): McpServer {
   // Support legacy boolean signature for backwards compatibility
   const opts: ServerOptions = typeof options === 'boolean' 
     ? { debug: options } 
     : options;
   
   const debug = opts.debug ?? false;
-  const readOnly = opts.readOnly ?? false;
+  const watch = opts.watch ?? false;
 
   const server = new McpServer({
     name: 'ai-library',
@@ -61,8 +74,17 @@ export function createServer(libraryPath: string, options: ServerOptions | boole
   });
 
   // Initialize library and chain manager
-  const library = new Library(libraryPath, debug);
+  const store = openLibraryStore(libraryPath, opts.writeLayer);
+  const library = new Library(store, debug);
+  // Archive libraries are always served read-only
+  const readOnly = (opts.readOnly ?? false) || library.isReadOnly();
   const chainManager = new ChainManager(debug);
+  chainManager.setIncludeResolver((id) => library.resolveInclude(id));
+
+  // Suggestion feedback is kept in memory only in read-only mode
+  const feedback = new FeedbackStore(debug);
+  if (!readOnly && store.directory) feedback.enablePersistence(store.directory);
+  library.setFeedbackStore(feedback);
 
   // Debug logging
   const log = (...args: unknown[]) => {
@@ -74,6 +96,9 @@ export function createServer(libraryPath: string, options: ServerOptions | boole
   const ensureInitialized = async () => {
     if (!initialized) {
       await library.initialize();
+      // config/intents.json always reloads on change; --watch adds items
+      library.enableConfigWatch();
+      if (watch) library.enableWatch();
       initialized = true;
       log('Library initialized');
     }
@@ -174,7 +199,11 @@ export function createServer(libraryPath: string, options: ServerOptions | boole
 
   log('Registering library tools...');
   log(`Read-only mode: ${readOnly ? 'ENABLED' : 'disabled'}`);
-  registerLibraryTools(server, library, ensureInitialized, { readOnly });
+  const bundleDirectory = opts.bundleDirectory ?? (store.directory && join(store.directory, 'bundles'));
+  const bundles = bundleDirectory
+    ? { directory: bundleDirectory, key: opts.bundleKey, allowUnsigned: opts.allowUnsignedBundles }
+    : undefined;
+  registerLibraryTools(server, library, ensureInitialized, { readOnly, feedback, bundles });
 
   log('Registering chain tools...');
   registerChainTools(server, library, chainManager, ensureInitialized);
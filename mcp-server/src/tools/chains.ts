@@ -4,7 +4,10 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Library } from '../lib/library.js';
-import { ChainManager } from '../lib/chains.js';
+import { ChainManager, ChainError } from '../lib/chains.js';
+import { stepLabel } from '../lib/parser.js';
+import { isChainDefinitionPath, readChainDefinition, ChainDefinitionError } from '../lib/chain-definition.js';
+import { resolveVariables, describeVariable } from '../lib/variables.js';
 
 export function registerChainTools(
   server: McpServer,
@@ -30,6 +33,9 @@ export function registerChainTools(
         lines.push(`## ${chain.name}`);
         lines.push(`**ID:** \`${chain.id}\``);
         lines.push(`**Steps:** ${chain.steps.length}`);
+        if (chain.variables.length > 0) {
+          lines.push(`**Variables:** ${chain.variables.map((v) => `\`${v.name}\`${v.required ? ' (required)' : ''}`).join(', ')}`);
+        }
         if (chain.description) lines.push(`> ${chain.description}`);
         if (chain.overview) lines.push(`\`\`\`\n${chain.overview}\n\`\`\``);
         lines.push('');
@@ -52,6 +58,17 @@ export function registerChainTools(
       const chain = library.getChain(chainName);
 
       if (!chain) {
+        // A chain definition that does not load is reported with its problems
+        const item = library.getItem(chainName);
+        if (item && isChainDefinitionPath(item.relativePath)) {
+          try {
+            readChainDefinition(item.relativePath, item.content);
+          } catch (error) {
+            if (!(error instanceof ChainDefinitionError)) throw error;
+            return { content: [{ type: 'text', text: `Chain "${item.id}" is invalid:\n${error.message}` }], isError: true };
+          }
+        }
+
         const allChains = library.getAllChains();
         let errorMsg = `Chain "${chainName}" not found.`;
         if (allChains.length > 0) {
@@ -63,10 +80,18 @@ export function registerChainTools(
         return { content: [{ type: 'text', text: errorMsg }], isError: true };
       }
 
-      const session = chainManager.startChain(chain, context);
+      // Declared variables must be satisfied up front; other keys still substitute freely
+      const resolved = resolveVariables(chain.variables, context, { allowUnknown: true });
+      if (resolved.errors.length > 0) {
+        const lines = [`Cannot start "${chain.name}":`, ...resolved.errors.map((e) => `- ${e}`)];
+        lines.push('', 'Declared variables:', ...chain.variables.map((v) => `- ${describeVariable(v)}`));
+        return { content: [{ type: 'text', text: lines.join('\n') }], isError: true };
+      }
+
+      const session = chainManager.startChain(chain, resolved.values);
       const currentStep = chainManager.getCurrentStep(session, chain);
 
-      const lines = [`# Started Chain: ${chain.name}`, '', chainManager.formatSessionStatus(session), ''];
+      const lines = [`# Started Chain: ${chain.name}`, '', chainManager.formatSessionStatus(session, chain), ''];
 
       if (chain.prerequisites.length > 0) {
         lines.push('## Prerequisites');
@@ -77,7 +102,7 @@ export function registerChainTools(
       }
 
       if (currentStep) {
-        lines.push(chainManager.formatStep(currentStep, session));
+        lines.push(chainManager.formatStep(currentStep, session, chain.variables));
       }
 
       lines.push('---');
@@ -85,6 +110,8 @@ export function registerChainTools(
       lines.push('');
       lines.push('**Commands:**');
       lines.push('- `chain_next session_id="..."` - Advance to next step');
+      lines.push('- `chain_next session_id="..." outcome="..."` - Take a branch at a decision point');
+      lines.push('- `chain_next session_id="..." step_output="..."` - Pass this step\'s result on to later steps');
       lines.push('- `chain_status session_id="..."` - View current progress');
       lines.push('- `chain_step session_id="..." step=N` - Jump to specific step');
 
@@ -95,11 +122,14 @@ export function registerChainTools(
   // chain_next
   server.tool(
     'chain_next',
-    'Advance to the next step in an active chain session',
+    'Advance to the next step in an active chain session. At a decision point, `outcome` picks the branch to follow. `step_output` and `captures` record what this step produced, for later steps to use as {{steps.N.output}} and {{name}}.',
     {
       session_id: z.string().describe('The session ID from start_chain'),
+      outcome: z.string().optional().describe('Outcome of the current step\'s decision point, e.g. "yes" or "no"'),
+      step_output: z.string().optional().describe('What the current step produced, available to later steps as {{steps.N.output}}'),
+      captures: z.record(z.string()).optional().describe('Named values from the current step, available to later steps as {{name}} and {{steps.N.name}}'),
     },
-    async ({ session_id }) => {
+    async ({ session_id, outcome, step_output, captures }) => {
       await ensureInitialized();
       const session = chainManager.getSession(session_id);
 
@@ -112,25 +142,40 @@ export function registerChainTools(
         return { content: [{ type: 'text', text: 'Chain no longer exists.' }], isError: true };
       }
 
-      if (session.currentStep >= session.totalSteps) {
+      let next: number | null;
+      try {
+        next = chainManager.nextStep(chain, session.currentStep, outcome);
+        chainManager.recordOutput(session_id, chain, step_output, captures);
+      } catch (error) {
+        if (!(error instanceof ChainError)) throw error;
+        return { content: [{ type: 'text', text: error.message }], isError: true };
+      }
+
+      if (next === null) {
         chainManager.endSession(session_id);
-        return {
-          content: [{
-            type: 'text',
-            text: `# Chain Complete!\n\nYou have completed all ${session.totalSteps} steps of "${chain.name}".\n\nSession ended.`
-          }]
-        };
+        const completed = new Set([...session.completedSteps, session.currentStep]).size;
+        const lines = [
+          '# Chain Complete!',
+          '',
+          `You have completed ${completed} of ${session.totalSteps} steps of "${chain.name}".`,
+          '',
+          'Session ended.',
+        ];
+        if (session.outputs.length > 0) {
+          lines.push('', '## Transcript', '', chainManager.formatTranscript(session));
+        }
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
       }
 
-      const updatedSession = chainManager.advanceStep(session_id);
+      const updatedSession = chainManager.advanceStep(session_id, chain, outcome);
       if (!updatedSession) {
         return { content: [{ type: 'text', text: 'Failed to advance step.' }], isError: true };
       }
 
       const currentStep = chainManager.getCurrentStep(updatedSession, chain);
-      const lines = [chainManager.formatSessionStatus(updatedSession), ''];
+      const lines = [chainManager.formatSessionStatus(updatedSession, chain), ''];
       if (currentStep) {
-        lines.push(chainManager.formatStep(currentStep, updatedSession));
+        lines.push(chainManager.formatStep(currentStep, updatedSession, chain.variables));
       }
 
       return { content: [{ type: 'text', text: lines.join('\n') }] };
@@ -143,8 +188,9 @@ export function registerChainTools(
     'View the current status and step of an active chain session',
     {
       session_id: z.string().optional().describe('Session ID (if not provided, shows all active sessions)'),
+      transcript: z.boolean().optional().describe('Also show the outputs recorded at each step so far'),
     },
-    async ({ session_id }) => {
+    async ({ session_id, transcript = false }) => {
       await ensureInitialized();
 
       if (session_id) {
@@ -154,16 +200,20 @@ export function registerChainTools(
         }
 
         const chain = library.getChain(session.chainId);
-        const lines = [`# Chain Status: ${session.chainName}`, '', chainManager.formatSessionStatus(session), ''];
+        const lines = [`# Chain Status: ${session.chainName}`, '', chainManager.formatSessionStatus(session, chain ?? undefined), ''];
 
         if (chain) {
           const currentStep = chainManager.getCurrentStep(session, chain);
           if (currentStep) {
             lines.push('## Current Step');
-            lines.push(chainManager.formatStep(currentStep, session));
+            lines.push(chainManager.formatStep(currentStep, session, chain.variables));
           }
         }
 
+        if (transcript) {
+          lines.push('## Transcript', '', chainManager.formatTranscript(session));
+        }
+
         return { content: [{ type: 'text', text: lines.join('\n') }] };
       }
 
@@ -193,7 +243,7 @@ export function registerChainTools(
     'Jump to a specific step in an active chain session',
     {
       session_id: z.string().describe('The session ID'),
-      step: z.number().int().min(1).describe('Step number to jump to'),
+      step: z.union([z.number().int().min(1), z.string()]).describe('Step number or label (e.g. 3 or "1b") to jump to'),
     },
     async ({ session_id, step }) => {
       await ensureInitialized();
@@ -208,22 +258,23 @@ export function registerChainTools(
         return { content: [{ type: 'text', text: 'Chain no longer exists.' }], isError: true };
       }
 
-      if (step < 1 || step > session.totalSteps) {
+      const target = chainManager.findStep(chain, step);
+      if (!target) {
         return {
-          content: [{ type: 'text', text: `Invalid step number. Must be between 1 and ${session.totalSteps}.` }],
+          content: [{ type: 'text', text: `Invalid step. Must be one of: ${chain.steps.map(stepLabel).join(', ')}.` }],
           isError: true
         };
       }
 
-      const updatedSession = chainManager.goToStep(session_id, step);
+      const updatedSession = chainManager.goToStep(session_id, target.stepNumber);
       if (!updatedSession) {
         return { content: [{ type: 'text', text: 'Failed to jump to step.' }], isError: true };
       }
 
       const currentStep = chainManager.getCurrentStep(updatedSession, chain);
-      const lines = [`# Jumped to Step ${step}`, '', chainManager.formatSessionStatus(updatedSession), ''];
+      const lines = [`# Jumped to Step ${stepLabel(target)}`, '', chainManager.formatSessionStatus(updatedSession, chain), ''];
       if (currentStep) {
-        lines.push(chainManager.formatStep(currentStep, updatedSession));
+        lines.push(chainManager.formatStep(currentStep, updatedSession, chain.variables));
       }
 
       return { content: [{ type: 'text', text: lines.join('\n') }] };
@@ -1,6 +1,15 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Library } from '../lib/library.js';
+import { renderSnippet } from '../lib/snippets.js';
+import { extractVariables, resolveVariables, renderVariables, describeVariable } from '../lib/variables.js';
+import { TemplateError } from '../lib/template.js';
+import { extractPromptSection } from '../lib/parser.js';
+import { renderPrompt } from '../lib/render.js';
+import { openTrustedBundle, BundleError, type TrustedBundleOptions } from '../lib/bundle.js';
+import { lintLibrary, formatLintText, formatLintSarif, LINT_RULES } from '../lib/lint.js';
+import { formatGraphDot, formatGraphMermaid, type GraphEdge } from '../lib/graph.js';
+import type { FeedbackStore } from '../lib/feedback.js';
 import type { LibraryCategory, LibraryItem } from '../types.js';
 
 const VALID_CATEGORIES: LibraryCategory[] = [
@@ -14,12 +23,19 @@ const VALID_CATEGORIES: LibraryCategory[] = [
   'examples',
 ];
 
+// Values listed per facet field in search_prompts output
+const MAX_FACET_VALUES = 10;
+
 /**
  * Options for library tool registration
  */
 export interface LibraryToolOptions {
-  /** When true, disables save_to_library tool */
+  /** When true, disables the tools that write to the library */
   readOnly?: boolean;
+  /** Records suggestion impressions, selections and ratings */
+  feedback?: FeedbackStore;
+  /** Where import_bundle may read bundles from and how they must be signed; without it the tool refuses */
+  bundles?: TrustedBundleOptions;
 }
 
 export function registerLibraryTools(
@@ -28,7 +44,7 @@ export function registerLibraryTools(
   ensureInitialized: () => Promise<void>,
   options: LibraryToolOptions = {}
 ) {
-  const { readOnly = false } = options;
+  const { readOnly = false, feedback, bundles } = options;
   
   // ============================================================
   // CORE TOOL: enhance_prompt - THE AUTO-ENHANCER
@@ -141,6 +157,7 @@ export function registerLibraryTools(
         lines.push('## Relevant Prompts & Skills', '');
         
         // Add suggestions
+        feedback?.recordShown(suggestions.slice(0, 3));
         for (const s of suggestions.slice(0, 3)) {
           lines.push(`### ${s.item.metadata.title || s.item.name}`);
           lines.push(`**ID:** \`${s.item.id}\``);
@@ -189,35 +206,61 @@ export function registerLibraryTools(
     - Templates for project setup (e.g., "claude-md-full")
     - Modifiers to enhance responses (e.g., "ultrathink", "megathink")
     
-    Supports fuzzy matching - "prd" finds "prd-generator".`,
+    Supports fuzzy matching - "prd" finds "prd-generator".
+    Pass \`variables\` to fill in the item's declared variables instead of its [placeholders].`,
     {
       name: z.string().describe('The prompt ID (e.g., "prompts/planning/prd-generator") or fuzzy name (e.g., "prd", "debugger", "ultrathink")'),
       format: z.enum(['full', 'body', 'prompt_only']).optional().describe('Output format: full (with metadata), body (content only), prompt_only (just the prompt text)'),
+      variables: z.record(z.string()).optional().describe('Values for the item\'s declared variables (e.g., {"your_idea": "A habit tracker"}). When given, they are validated and substituted into the prompt.'),
     },
-    async ({ name, format = 'full' }) => {
+    async ({ name, format = 'full', variables: supplied }) => {
       await ensureInitialized();
       const item = library.getItem(name);
 
       if (!item) {
-        const suggestions = library.search(name, 3);
+        const suggestions = library.didYouMean(name, 3);
         let errorMsg = `Prompt "${name}" not found.`;
         if (suggestions.length > 0) {
           errorMsg += '\n\nDid you mean:\n';
-          for (const s of suggestions) {
-            errorMsg += `- ${s.item.id}\n`;
+          for (const suggestion of suggestions) {
+            errorMsg += `- ${suggestion.id}\n`;
           }
         }
         return { content: [{ type: 'text', text: errorMsg }], isError: true };
       }
 
+      const { variables } = extractVariables(item.metadata, item.body);
+      let body = item.body;
+      if (supplied) {
+        const resolved = resolveVariables(variables, supplied);
+        if (resolved.errors.length > 0) {
+          const lines = [`Cannot render "${item.id}":`, ...resolved.errors.map((e) => `- ${e}`)];
+          if (variables.length > 0) {
+            lines.push('', 'Declared variables:', ...variables.map((v) => `- ${describeVariable(v)}`));
+          }
+          return { content: [{ type: 'text', text: lines.join('\n') }], isError: true };
+        }
+        try {
+          body = renderVariables(item.body, variables, resolved.values, {
+            include: (id) => library.resolveInclude(id),
+            source: item.id,
+          });
+        } catch (error) {
+          if (!(error instanceof TemplateError)) throw error;
+          return { content: [{ type: 'text', text: `Cannot render "${item.id}": ${error.message}` }], isError: true };
+        }
+      }
+
+      // Fetching a recently suggested item is an implicit vote for it
+      feedback?.recordSelection(item.id);
+
       let output: string;
       switch (format) {
         case 'body':
-          output = item.body;
+          output = body;
           break;
         case 'prompt_only':
-          const promptMatch = item.body.match(/```[\s\S]*?([\s\S]+?)```/);
-          output = promptMatch ? promptMatch[1].trim() : item.body;
+          output = extractPromptSection(body);
           break;
         case 'full':
         default:
@@ -227,11 +270,13 @@ export function registerLibraryTools(
             item.metadata.description ? `> ${item.metadata.description}` : '',
             '',
             `**Category:** ${item.category}${item.subcategory ? `/${item.subcategory}` : ''}`,
+            `**ID:** \`${item.id}\` · **Hash:** \`${library.itemHash(item)}\`${item.layer ? ` · **Layer:** ${item.layer}` : ''}`,
             item.metadata.tags?.length ? `**Tags:** ${item.metadata.tags.join(', ')}` : '',
+            !supplied && variables.length ? `**Variables:** ${variables.map((v) => `\`${v.name}\`${v.required ? ' (required)' : ''}`).join(', ')}` : '',
             '',
             '---',
             '',
-            item.body,
+            body,
           ].filter(Boolean).join('\n');
       }
 
@@ -239,6 +284,65 @@ export function registerLibraryTools(
     }
   );
 
+  // render_prompt - Fill in variables and return ready-to-paste text
+  server.tool(
+    'render_prompt',
+    `Render a library item into ready-to-paste prompt text.
+
+    Extracts the item's ## Prompt section, fills in both [placeholder] and {{variable}}
+    styles from \`variables\`, and reports any variables left unfilled.
+    Missing required variables and invalid values are returned as errors.`,
+    {
+      name: z.string().describe('The prompt ID or fuzzy name (e.g., "prd-generator")'),
+      variables: z.record(z.string()).optional().describe('Variable values keyed by name or placeholder text (e.g., {"your_idea": "A habit tracker"})'),
+      format: z.enum(['prompt', 'body']).optional().describe('prompt (default): only the ## Prompt section; body: the whole item'),
+    },
+    async ({ name, variables: supplied = {}, format = 'prompt' }) => {
+      await ensureInitialized();
+      const item = library.getItem(name);
+
+      if (!item) {
+        const suggestions = library.didYouMean(name, 3);
+        let errorMsg = `Prompt "${name}" not found.`;
+        if (suggestions.length > 0) {
+          errorMsg += '\n\nDid you mean:\n';
+          for (const suggestion of suggestions) {
+            errorMsg += `- ${suggestion.id}\n`;
+          }
+        }
+        return { content: [{ type: 'text', text: errorMsg }], isError: true };
+      }
+
+      const result = renderPrompt(item, supplied, {
+        scope: format,
+        include: (id) => library.resolveInclude(id),
+      });
+
+      if (result.errors.length > 0) {
+        const lines = [`Cannot render "${item.id}":`, ...result.errors.map((e) => `- ${e}`)];
+        if (result.variables.length > 0) {
+          lines.push('', 'Variables:', ...result.variables.map((v) => `- ${describeVariable(v)}`));
+        }
+        return { content: [{ type: 'text', text: lines.join('\n') }], isError: true };
+      }
+
+      feedback?.recordSelection(item.id);
+
+      // Notes go in a separate block so the first one can be pasted as is
+      const notes: string[] = [];
+      if (result.unfilled.length > 0) {
+        notes.push(`Unfilled (optional): ${result.unfilled.map((v) => `\`${v.name}\``).join(', ')}`);
+      }
+      if (result.unused.length > 0) {
+        notes.push(`Not used by this prompt: ${result.unused.map((k) => `\`${k}\``).join(', ')}`);
+      }
+
+      const content: Array<{ type: 'text'; text: string }> = [{ type: 'text', text: result.text }];
+      if (notes.length > 0) content.push({ type: 'text', text: notes.join('\n') });
+      return { content };
+    }
+  );
+
   // suggest_prompts - Updated to be more proactive
   server.tool(
     'suggest_prompts',
@@ -253,13 +357,17 @@ export function registerLibraryTools(
     {
       message: z.string().describe('The user\'s request or task description'),
       limit: z.number().optional().describe('Maximum suggestions to return (default: 5)'),
+      semantic: z.boolean().optional().describe('Also rank items that match the message in meaning alongside the detected intents, and use semantic search when no intent is detected'),
     },
-    async ({ message, limit = 5 }) => {
+    async ({ message, limit = 5, semantic = false }) => {
       await ensureInitialized();
-      const suggestions = library.suggest(message, limit);
+      const suggestions = semantic ? await library.suggestSemantic(message, limit) : library.suggest(message, limit);
 
       if (suggestions.length === 0) {
-        const searchResults = library.search(message, 3);
+        const { results: searchResults } = await library.searchDetailed(message, {
+          limit: 3,
+          mode: semantic ? 'semantic' : 'lexical',
+        });
         if (searchResults.length === 0) {
           return { content: [{ type: 'text', text: 'No suggestions found. Try being more specific.' }] };
         }
@@ -270,6 +378,8 @@ export function registerLibraryTools(
         return { content: [{ type: 'text', text: lines.join('\n') }] };
       }
 
+      feedback?.recordShown(suggestions);
+
       const lines = ['# Recommended Prompts', '', `Based on your message, here are ${suggestions.length} suggestions:`, ''];
       for (let i = 0; i < suggestions.length; i++) {
         const s = suggestions[i];
@@ -281,60 +391,130 @@ export function registerLibraryTools(
         lines.push('');
       }
       lines.push('---', 'Use `get_prompt <id>` to fetch any of these.');
+      if (feedback) lines.push('Use `rate_suggestion` to say whether a suggestion helped.');
       return { content: [{ type: 'text', text: lines.join('\n') }] };
     }
   );
 
+  // rate_suggestion (only registered when feedback is recorded)
+  if (feedback) {
+    server.tool(
+      'rate_suggestion',
+      `Tell the library whether a suggested prompt helped.
+    
+    Ratings are stored locally and re-weight future suggestions for the same intent,
+    so helpful items rank higher and unused ones stop crowding the list.`,
+      {
+        id: z.string().describe('The suggested item ID (or fuzzy name)'),
+        helpful: z.boolean().describe('true if the suggestion helped, false if it did not'),
+        intent: z.string().optional().describe('Intent the suggestion was made for (defaults to the intent it was last suggested for)'),
+      },
+      async ({ id, helpful, intent }) => {
+        await ensureInitialized();
+        const item = library.getItem(id);
+
+        if (!item) {
+          return { content: [{ type: 'text', text: `Item "${id}" not found.` }], isError: true };
+        }
+
+        const recordedIntent = feedback.rate(item.id, helpful, intent);
+        const scope = recordedIntent === '*' ? 'all intents' : `"${recordedIntent}"`;
+        const weight = feedback.weight(recordedIntent, item.id);
+        return {
+          content: [{
+            type: 'text',
+            text: `Recorded ${helpful ? 'helpful' : 'not helpful'} for \`${item.id}\` (${scope}). Suggestion weight is now ${weight.toFixed(2)}x.`,
+          }],
+        };
+      }
+    );
+  }
+
   // search_prompts
   server.tool(
     'search_prompts',
-    'Search the AI library for prompts, templates, snippets, etc. matching keywords',
+    `Search the AI library for prompts, templates, snippets, etc. matching keywords.
+    
+    Supports a structured query syntax:
+    - "root cause" - exact phrase
+    - -legacy or NOT legacy - exclude a word
+    - +auth or auth AND session - require a word
+    - tag:security, category:prompts, subcategory:quality, author:alice - field filters
+    - tag:security,auth - match any of several values; -tag:legacy negates
+    - updated:>2025-01-01 - compare dates or numbers (>, >=, <, <=)`,
     {
-      query: z.string().describe('Search keywords (e.g., "security", "testing", "refactor")'),
+      query: z.string().describe('Search keywords or structured query (e.g., "security" or \'tag:security "root cause" -legacy\')'),
       category: z.string().optional().describe('Filter by category (prompts, snippets, templates, skills, instructions, chains, contexts, examples)'),
       limit: z.number().optional().describe('Maximum results to return (default: 10)'),
+      mode: z.enum(['lexical', 'semantic']).optional().describe('lexical (keywords, default) or semantic (also matches by meaning, e.g. "my app is slow under load")'),
+      facets: z.boolean().optional().describe('Also return match counts per category, subcategory and tag, for narrowing the query'),
     },
-    async ({ query, category, limit = 10 }) => {
+    async ({ query, category, limit = 10, mode = 'lexical', facets = false }) => {
       await ensureInitialized();
-      let results = library.search(query, limit * 2);
-      if (category && VALID_CATEGORIES.includes(category as LibraryCategory)) {
-        results = results.filter((r) => r.item.category === category);
-      }
-      results = results.slice(0, limit);
+      const scopedQuery = category && VALID_CATEGORIES.includes(category as LibraryCategory)
+        ? `${query} category:${category}`
+        : query;
+      const response = await library.searchDetailed(scopedQuery, { limit, mode, facets });
+      const results = response.results;
 
       if (results.length === 0) {
         return { content: [{ type: 'text', text: `No results found for "${query}"${category ? ` in ${category}` : ''}.` }] };
       }
 
-      const lines = [`# Search Results for "${query}"`, '', `Found ${results.length} items:`, ''];
+      const lines = [`# Search Results for "${response.correctedQuery ?? scopedQuery}"`, ''];
+      if (response.correctedQuery) {
+        lines.push(`No results for "${scopedQuery}". Did you mean **${response.correctedQuery}**?`, '');
+      }
+      lines.push(`Found ${results.length} items:`, '');
       for (const result of results) {
         const item = result.item;
         lines.push(`## ${item.metadata.title || item.name}`);
         lines.push(`**ID:** \`${item.id}\``);
         lines.push(`**Category:** ${item.category}${item.subcategory ? `/${item.subcategory}` : ''}`);
         if (item.metadata.description) lines.push(`> ${item.metadata.description}`);
+        for (const snippet of result.snippets) {
+          lines.push(`- ${renderSnippet(snippet, (text) => `**${text}**`)}`);
+        }
         lines.push('');
       }
+      if (response.facets) {
+        lines.push('## Facets');
+        for (const [field, counts] of Object.entries(response.facets)) {
+          const entries = Object.entries(counts).slice(0, MAX_FACET_VALUES);
+          if (entries.length > 0) {
+            lines.push(`**${field}:** ${entries.map(([value, count]) => `${value} (${count})`).join(', ')}`);
+          }
+        }
+        lines.push('', 'Narrow the query with a filter, e.g. `category:prompts` or `tag:security`.', '');
+      }
       lines.push('---', 'Use `get_prompt` with the ID to fetch the full content.');
       return { content: [{ type: 'text', text: lines.join('\n') }] };
     }
   );
 
-  // save_to_library (only registered if not in read-only mode)
+  // Write tools (only registered if not in read-only mode)
   if (!readOnly) {
+    const WRITE_CATEGORIES = ['prompts', 'snippets', 'templates', 'skills', 'instructions', 'contexts', 'examples'] as const;
+    const expectedHashParam = z.string().max(64).optional().describe('Hash of the item when you last read it (shown by get_prompt); the write is refused if it has changed since');
+    const overwriteParam = z.boolean().optional().describe('Replace an existing item without checking its hash');
+    const messageParam = z.string().max(500).optional().describe('Note recorded with the revision this write creates');
+
     server.tool(
       'save_to_library',
-      'Save a new prompt, snippet, or template to the AI library for future use. Disabled in read-only mode.',
+      'Save a new prompt, snippet, or template to the AI library for future use. An existing item with the same name is only replaced with overwrite or expected_hash; without them the save fails (earlier versions replaced it silently). Disabled in read-only mode.',
       {
-        category: z.enum(['prompts', 'snippets', 'templates', 'skills', 'instructions', 'contexts', 'examples']),
+        category: z.enum(WRITE_CATEGORIES),
         subcategory: z.string().max(64).optional().describe('Subcategory folder (max 64 chars, no path separators)'),
         name: z.string().max(64).describe('Prompt name (max 64 chars)'),
         content: z.string().max(200000).describe('Prompt content (max 200KB)'),
         title: z.string().max(200).optional(),
         description: z.string().max(1000).optional(),
         tags: z.array(z.string().max(50)).max(20).optional(),
+        overwrite: overwriteParam,
+        expected_hash: expectedHashParam,
+        message: messageParam,
       },
-      async ({ category, subcategory, name, content, title, description, tags }) => {
+      async ({ category, subcategory, name, content, title, description, tags, overwrite, expected_hash, message }) => {
         await ensureInitialized();
         
         // Validate subcategory doesn't contain path traversal attempts
@@ -350,25 +530,296 @@ export function registerLibraryTools(
         if (description) metadata.description = description;
         if (tags?.length) metadata.tags = tags;
 
-        const item = library.savePrompt({
+        const { item, error } = library.saveItem({
           category,
           subcategory,
           name: name.replace(/\.md$/, '').replace(/[^a-zA-Z0-9-_]/g, '-'),
           content,
           metadata,
+          overwrite,
+          expectedHash: expected_hash,
+          message,
         });
 
-        if (!item) return { content: [{ type: 'text', text: 'Failed to save prompt. The path may be invalid or outside the library.' }], isError: true };
+        if (!item) return { content: [{ type: 'text', text: `Failed to save prompt: ${error}.` }], isError: true };
         return {
           content: [{
             type: 'text',
-            text: `# Saved to Library\n\n**ID:** \`${item.id}\`\n**Path:** ${item.relativePath}\n\nThe item is now available in your AI library.`
+            text: `# Saved to Library\n\n**ID:** \`${item.id}\`\n**Path:** ${item.relativePath}${item.layer ? ` (layer ${item.layer})` : ''}\n**Hash:** \`${library.itemHash(item)}\`\n\nThe item is now available in your AI library.`
           }],
         };
       }
     );
+
+    server.tool(
+      'update_library_item',
+      'Replace the content of a library item and/or change its title, description or tags. Requires expected_hash (from get_prompt) or overwrite. Disabled in read-only mode.',
+      {
+        id: z.string().max(200).describe('Exact item ID (e.g., "prompts/planning/prd-generator")'),
+        content: z.string().max(200000).optional().describe('New body, replacing the current one; frontmatter is kept. For a chain definition, the whole YAML or JSON file (max 200KB)'),
+        title: z.string().max(200).optional(),
+        description: z.string().max(1000).optional(),
+        tags: z.array(z.string().max(50)).max(20).optional(),
+        expected_hash: expectedHashParam,
+        overwrite: overwriteParam,
+        message: messageParam,
+      },
+      async ({ id, content, title, description, tags, expected_hash, overwrite, message }) => {
+        await ensureInitialized();
+
+        const metadata: Record<string, unknown> = {};
+        if (title !== undefined) metadata.title = title;
+        if (description !== undefined) metadata.description = description;
+        if (tags !== undefined) metadata.tags = tags;
+
+        const { item, error } = library.updateItem({ id, content, metadata, overwrite, expectedHash: expected_hash, message });
+        if (!item) return { content: [{ type: 'text', text: `Failed to update: ${error}.` }], isError: true };
+        return {
+          content: [{
+            type: 'text',
+            text: `# Updated\n\n**ID:** \`${item.id}\`\n**Hash:** \`${library.itemHash(item)}\``
+          }],
+        };
+      }
+    );
+
+    server.tool(
+      'move_library_item',
+      'Rename a library item or move it to another category or subcategory. An item already at the destination is only replaced with overwrite. Disabled in read-only mode.',
+      {
+        id: z.string().max(200).describe('Exact ID of the item to move'),
+        category: z.enum(WRITE_CATEGORIES).describe('Destination category'),
+        subcategory: z.string().max(64).optional().describe('Destination subcategory folder (max 64 chars, no path separators)'),
+        name: z.string().max(64).describe('Destination name (max 64 chars)'),
+        expected_hash: expectedHashParam,
+        overwrite: z.boolean().optional().describe('Replace an item already at the destination'),
+        message: messageParam,
+      },
+      async ({ id, category, subcategory, name, expected_hash, overwrite, message }) => {
+        await ensureInitialized();
+
+        if (subcategory && /(\.\.|[/\\])/.test(subcategory)) {
+          return {
+            content: [{ type: 'text', text: 'Invalid subcategory: must not contain path separators or "..".' }],
+            isError: true
+          };
+        }
+
+        const { item, error } = library.moveItem({
+          id,
+          category,
+          subcategory,
+          name: name.replace(/\.md$/, '').replace(/[^a-zA-Z0-9-_]/g, '-'),
+          overwrite,
+          expectedHash: expected_hash,
+          message,
+        });
+        if (!item) return { content: [{ type: 'text', text: `Failed to move: ${error}.` }], isError: true };
+        return {
+          content: [{
+            type: 'text',
+            text: `# Moved\n\n\`${id}\` → \`${item.id}\`\n**Path:** ${item.relativePath}${formatReferrers(library, id)}`
+          }],
+        };
+      }
+    );
+
+    server.tool(
+      'delete_library_item',
+      'Delete an item from the library, optionally only if it is unchanged since you read it. Disabled in read-only mode.',
+      {
+        id: z.string().max(200).describe('Exact ID of the item to delete'),
+        expected_hash: expectedHashParam,
+        message: messageParam,
+      },
+      async ({ id, expected_hash, message }) => {
+        await ensureInitialized();
+
+        const { item, error } = library.deleteItem({ id, expectedHash: expected_hash, message });
+        if (!item) return { content: [{ type: 'text', text: `Failed to delete: ${error}.` }], isError: true };
+        return {
+          content: [{
+            type: 'text',
+            text: `# Deleted\n\n\`${item.id}\` was removed from the library. Use \`restore_revision\` to bring it back.${formatReferrers(library, item.id)}`
+          }],
+        };
+      }
+    );
+
+    server.tool(
+      'restore_revision',
+      'Roll a library item back to an earlier revision (see list_revisions). Also recreates deleted items. Disabled in read-only mode.',
+      {
+        id: z.string().max(200).describe('Exact item ID'),
+        revision: z.number().int().min(1).describe('Revision number to restore'),
+        expected_hash: expectedHashParam,
+        message: messageParam,
+      },
+      async ({ id, revision, expected_hash, message }) => {
+        await ensureInitialized();
+
+        const { item, error } = library.restoreRevision({ id, revision, expectedHash: expected_hash, message });
+        if (!item) return { content: [{ type: 'text', text: `Failed to restore: ${error}.` }], isError: true };
+        return {
+          content: [{
+            type: 'text',
+            text: `# Restored\n\n\`${item.id}\` is back at revision ${revision}.\n**Hash:** \`${library.itemHash(item)}\``
+          }],
+        };
+      }
+    );
+
+    server.tool(
+      'import_bundle',
+      'Install a prompt bundle (a directory or .tar/.tgz/.zip with a manifest.json of items and SHA-256 hashes) under <category>/vendor/<bundle name>/. Only bundles in the server\'s bundle directory are accepted, and they must be signed with its bundle key unless the server allows unsigned bundles. Every hash is verified before anything is written. Disabled in read-only mode.',
+      {
+        path: z.string().max(1000).describe('Bundle directory or archive, relative to the server\'s bundle directory'),
+        overwrite: overwriteParam,
+        message: messageParam,
+      },
+      async ({ path, overwrite, message }) => {
+        await ensureInitialized();
+        if (!bundles) return { content: [{ type: 'text', text: 'No bundle directory is configured for this server.' }], isError: true };
+
+        let bundle;
+        try {
+          bundle = openTrustedBundle(path, bundles);
+        } catch (error) {
+          if (error instanceof BundleError) return { content: [{ type: 'text', text: error.message }], isError: true };
+          throw error;
+        }
+
+        const { name, version } = bundle.manifest;
+        const { imported, unchanged, previousVersion, error } = library.importBundle(bundle, { overwrite, message });
+        if (error) return { content: [{ type: 'text', text: `Failed to import ${name}@${version}: ${error}.` }], isError: true };
+
+        const lines = [`# Imported ${name}@${version}`, ''];
+        if (previousVersion && previousVersion !== version) lines.push(`Upgraded from ${previousVersion}.`, '');
+        if (bundle.signature?.verified) {
+          lines.push(`Signature verified (${bundle.signature.algorithm} key \`${bundle.signature.keyId}\`).`, '');
+        } else {
+          lines.push('Not verified: the bundle is unsigned or no bundle key is configured.', '');
+        }
+        for (const item of imported) lines.push(`- \`${item.id}\``);
+        if (unchanged.length) lines.push('', `${unchanged.length} item(s) already up to date.`);
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      }
+    );
   }
 
+  // list_revisions - Every version of an item kept in .history/
+  server.tool(
+    'list_revisions',
+    'List the saved revisions of a library item, newest first, including items that have been deleted.',
+    {
+      id: z.string().max(200).describe('Exact item ID (e.g., "prompts/planning/prd-generator")'),
+    },
+    async ({ id }) => {
+      await ensureInitialized();
+
+      const revisions = library.listRevisions(id);
+      if (revisions === null) return { content: [{ type: 'text', text: `Item "${id}" not found.` }], isError: true };
+      if (revisions.length === 0) {
+        return { content: [{ type: 'text', text: `No revisions recorded for "${id}". Revisions are kept for writes made through the library tools.` }] };
+      }
+
+      const lines = [`# Revisions of ${id}`, ''];
+      for (const revision of [...revisions].reverse()) {
+        const message = revision.message ? ` - ${revision.message}` : '';
+        lines.push(`- **${revision.revision}** ${revision.timestamp} \`${revision.hash}\` ${revision.action}${message}`);
+      }
+      lines.push('', '---', 'Use `diff_revisions` to compare them or `restore_revision` to roll back.');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+  );
+
+  // related_items - Neighbours in the item graph, and what breaks without an item
+  server.tool(
+    'related_items',
+    'Show the items an item refers to (related, links, includes, chain steps) and the items and intents that refer to it, i.e. what breaks if it is deleted or renamed. Can export the neighbourhood as DOT or Mermaid.',
+    {
+      id: z.string().max(200).describe('Item ID or name'),
+      depth: z.number().int().min(1).max(5).optional().describe('How many edges away to include in dot/mermaid output (default: 1)'),
+      format: z.enum(['markdown', 'dot', 'mermaid']).optional().describe('Output format (default: markdown)'),
+    },
+    async ({ id, depth = 1, format = 'markdown' }) => {
+      await ensureInitialized();
+
+      const graph = library.getGraph();
+      const item = library.getItem(id);
+      const target = item?.id ?? id.replace(/\.md$/, '');
+      if (!item && graph.incoming(target).length === 0) {
+        return { content: [{ type: 'text', text: `Item "${id}" not found.` }], isError: true };
+      }
+
+      if (format !== 'markdown') {
+        const neighbourhood = graph.neighbourhood(target, depth);
+        const text = format === 'dot' ? formatGraphDot(neighbourhood) : formatGraphMermaid(neighbourhood);
+        return { content: [{ type: 'text', text: `\`\`\`${format}\n${text}\n\`\`\`` }] };
+      }
+
+      const edge = (other: string, e: GraphEdge) => `- \`${other}\` (${e.label ?? e.kind})${e.broken && other === e.to ? ' - **missing**' : ''}`;
+      const lines = [`# ${item ? item.metadata.title || item.name : target}`, '', `**ID:** \`${target}\`${item ? '' : ' - not in the library'}`, ''];
+
+      const outgoing = graph.outgoing(target);
+      lines.push('## Refers To', '');
+      lines.push(...(outgoing.length ? outgoing.map((e) => edge(e.to, e)) : ['_Nothing_']), '');
+
+      const incoming = graph.incoming(target);
+      lines.push('## Referenced By', '');
+      lines.push(...(incoming.length ? incoming.map((e) => edge(e.from, e)) : ['_Nothing_']), '');
+
+      const dependents = graph.dependents(target);
+      if (dependents.length > incoming.length) {
+        lines.push('## Indirectly Affected', '', 'Deleting or renaming this item also affects:', '');
+        const direct = new Set(incoming.map((e) => e.from));
+        lines.push(...dependents.filter((d) => !direct.has(d)).map((d) => `- \`${d}\``), '');
+      }
+
+      return { content: [{ type: 'text', text: lines.join('\n').trimEnd() }] };
+    }
+  );
+
+  // diff_revisions - Compare two revisions, or one with the current content
+  server.tool(
+    'diff_revisions',
+    'Show a unified diff between two revisions of a library item, or between a revision and the current content.',
+    {
+      id: z.string().max(200).describe('Exact item ID'),
+      from: z.number().int().min(1).describe('Older revision number'),
+      to: z.number().int().min(1).optional().describe('Newer revision number (default: the current content)'),
+    },
+    async ({ id, from, to }) => {
+      await ensureInitialized();
+
+      const { diff, error } = library.diffRevisions(id, from, to);
+      if (error) return { content: [{ type: 'text', text: `${error}.` }], isError: true };
+      if (!diff) return { content: [{ type: 'text', text: 'No differences.' }] };
+      return { content: [{ type: 'text', text: `\`\`\`diff\n${diff}\n\`\`\`` }] };
+    }
+  );
+
+  // lint_library - Content problems that would otherwise only show up at runtime
+  server.tool(
+    'lint_library',
+    'Check the library for missing titles and descriptions, duplicate names, broken related/include/intent/chain step references, empty chains, undeclared [placeholders] and oversized bodies.',
+    {
+      format: z.enum(['text', 'json', 'sarif']).optional().describe('Output format (default: text)'),
+      rules: z
+        .array(z.enum(LINT_RULES.map((rule) => rule.id) as [string, ...string[]]))
+        .optional()
+        .describe('Only run these rules'),
+    },
+    async ({ format = 'text', rules }) => {
+      await ensureInitialized();
+
+      const result = lintLibrary(library, { rules });
+      const text =
+        format === 'json' ? JSON.stringify(result, null, 2) : format === 'sarif' ? formatLintSarif(result) : formatLintText(result);
+      return { content: [{ type: 'text', text }] };
+    }
+  );
+
   // library_stats
   server.tool(
     'library_stats',
@@ -427,6 +878,14 @@ export function registerLibraryTools(
   );
 }
 
+// Items and intents still pointing at an ID that was just moved or deleted
+function formatReferrers(library: Library, id: string): string {
+  const referrers = library.getGraph().incoming(id);
+  if (referrers.length === 0) return '';
+  const list = referrers.map((e) => `\`${e.from}\` (${e.label ?? e.kind})`).join(', ');
+  return `\n\n**Still referenced by:** ${list}. Update those references, or they will point at nothing.`;
+}
+
 // Helper function to detect task type from user request
 function detectTaskType(request: string): string {
   const lower = request.toLowerCase();
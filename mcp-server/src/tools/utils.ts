@@ -237,4 +237,44 @@ export function registerUtilityTools(
       return { content: [{ type: 'text', text: lines.join('\n') }] };
     }
   );
+
+  // validate_config
+  server.tool(
+    'validate_config',
+    'Check config/intents.json for schema errors and for suggested item IDs that do not exist in the library (without the file, the built-in intents are checked). Each problem is reported with its JSON path.',
+    {},
+    async () => {
+      await ensureInitialized();
+      const report = library.validateConfig();
+
+      if (!report.exists) {
+        const lines = ['No config/intents.json found - using the built-in intent patterns.'];
+        if (report.issues.length > 0) {
+          lines.push('', `**${report.issues.length} warning(s)** - these suggestions are skipped.`, '');
+          for (const issue of report.issues) lines.push(`- \`${issue.path}\`: ${issue.message}`);
+        }
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      }
+
+      const errors = report.issues.filter((i) => i.severity === 'error');
+      const warnings = report.issues.filter((i) => i.severity === 'warning');
+
+      if (report.issues.length === 0) {
+        return { content: [{ type: 'text', text: `config/intents.json is valid (${report.patternCount} intent patterns).` }] };
+      }
+
+      const lines = ['# Config Validation', ''];
+      if (errors.length > 0) {
+        lines.push(`**${errors.length} error(s)** - the file is ignored and the previous intents stay in use.`, '');
+        for (const issue of errors) lines.push(`- \`${issue.path}\`: ${issue.message}`);
+        lines.push('');
+      }
+      if (warnings.length > 0) {
+        lines.push(`**${warnings.length} warning(s)** - these suggestions are skipped.`, '');
+        for (const issue of warnings) lines.push(`- \`${issue.path}\`: ${issue.message}`);
+        lines.push('');
+      }
+      return { content: [{ type: 'text', text: lines.join('\n') }], isError: errors.length > 0 };
+    }
+  );
 }
@@ -2,6 +2,8 @@
  * AI Library MCP Server - Type Definitions
  */
 
+import type { SearchIndex } from './lib/search.js';
+
 // Library item categories
 export type LibraryCategory =
   | 'prompts'
@@ -32,9 +34,24 @@ export interface LibraryItemMetadata {
   created?: string;
   updated?: string;
   related?: string[];
+  variables?: unknown; // raw declarations, validated by lib/variables.ts
   [key: string]: unknown;
 }
 
+// Value type of a variable; multiline is a string expected to span several lines
+export type VariableType = 'string' | 'enum' | 'number' | 'boolean' | 'multiline';
+
+// A value an item or chain expects, from `variables:` frontmatter or a ## Variables section
+export interface VariableDefinition {
+  name: string;
+  description?: string;
+  type: VariableType;
+  required: boolean;
+  default?: string;
+  enum?: string[]; // allowed values for enum variables
+  placeholder?: string; // literal text the value replaces, e.g. "[your idea]"
+}
+
 // A single library item (prompt, snippet, template, etc.)
 export interface LibraryItem {
   // Identity
@@ -46,6 +63,7 @@ export interface LibraryItem {
   // File info
   path: string; // absolute path
   relativePath: string; // relative to library root
+  layer?: string; // library layer the file came from, when libraries are layered
 
   // Content
   content: string; // full file content
@@ -57,13 +75,33 @@ export interface LibraryItem {
   modifiedAt: Date;
 }
 
+// A step that runs a library item: "**Use:** prompts/analysis/deep-debugger + ultrathink"
+export interface ChainStepUse {
+  reference: string; // item ID or name, as written
+  modifiers: string[]; // snippet IDs or names, e.g. "ultrathink"
+  // Filled in when the chain is read from the library
+  itemId?: string;
+  modifierIds?: string[];
+  missing?: string[]; // references Library.getItem could not find
+}
+
+// A route out of a decision point: "yes → Step 3"
+export interface ChainBranch {
+  outcome: string;
+  step: string; // label of the step to go to, or "end" to finish the chain
+}
+
 // Chain step definition
 export interface ChainStep {
-  stepNumber: number;
+  stepNumber: number; // position in the chain, from 1
+  label?: string; // as written in "## Step 1b:", when it is not the position
   title: string;
-  prompt: string;
+  prompt: string; // for a **Use:** step, the item's prompt with modifiers and any inline prompt
   expectedOutput: string[];
   decisionPoint?: string;
+  branches?: ChainBranch[]; // without branches, a step is followed by the next one
+  use?: ChainStepUse;
+  variables?: VariableDefinition[]; // declared by the used item
 }
 
 // Parsed chain
@@ -73,6 +111,7 @@ export interface Chain {
   description: string;
   overview: string;
   prerequisites: string[];
+  variables: VariableDefinition[];
   steps: ChainStep[];
   summary?: string;
   tips?: string[];
@@ -89,6 +128,22 @@ export interface ChainSession {
   startedAt: Date;
   context: Record<string, string>; // user-provided context for variable substitution
   completedSteps: number[];
+  path: ChainPathEntry[]; // steps visited, in order; the last one is the current step
+  outputs: ChainStepOutput[]; // in the order recorded; a step revisited in a loop appears again
+}
+
+// What the model produced at a step, passed on to later steps
+export interface ChainStepOutput {
+  step: number;
+  label: string; // the step's label, as used in {{steps.<label>.output}}
+  title: string;
+  output?: string;
+  captures: Record<string, string>; // named values, also available as {{name}}
+}
+
+export interface ChainPathEntry {
+  step: number;
+  outcome?: string; // the branch taken when leaving the step
 }
 
 // Library index for fast lookups
@@ -97,13 +152,17 @@ export interface LibraryIndex {
   byCategory: Map<LibraryCategory, LibraryItem[]>;
   byTag: Map<string, LibraryItem[]>;
   chains: Map<string, Chain>;
-  searchIndex: SearchEntry[];
+  searchIndex: SearchIndex;
 }
 
+// Fields indexed separately so each can carry its own boost
+export type SearchField = 'title' | 'tags' | 'aliases' | 'body';
+
 // Search index entry
 export interface SearchEntry {
   id: string;
-  text: string; // searchable text
+  terms: Record<SearchField, Map<string, number>>; // term frequencies per field
+  lengths: Record<SearchField, number>; // token count per field
   weight: number; // relevance weight
 }
 
@@ -112,6 +171,62 @@ export interface SearchResult {
   item: LibraryItem;
   score: number;
   matches: string[]; // matched keywords
+  snippets: SearchSnippet[]; // excerpts around the strongest matches
+}
+
+// Character range of a matched word within a snippet
+export interface SnippetHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: SnippetHighlight[];
+}
+
+// Comparison used by a field filter (updated:>2025-01-01)
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+// A field:value filter parsed from a search query
+export interface QueryFilter {
+  field: string; // tag, category, subcategory, updated, or any metadata key
+  operator: QueryOperator;
+  values: string[]; // comma-separated alternatives, any may match
+  negated: boolean;
+}
+
+// A search query parsed into scored terms and hard constraints
+export interface ParsedQuery {
+  terms: string[]; // free-text words used for ranking
+  required: string[]; // words joined with AND, all must match
+  phrases: string[]; // quoted phrases that must appear verbatim
+  excluded: string[]; // words or phrases that must not appear
+  filters: QueryFilter[];
+}
+
+// Lexical uses the keyword index only; semantic blends in embedding similarity
+export type SearchMode = 'lexical' | 'semantic';
+
+// Options for a detailed search
+export interface SearchOptions {
+  limit?: number;
+  mode?: SearchMode;
+  facets?: boolean; // count matches per category, subcategory and tag
+}
+
+// Match counts over the full result set, keyed by the filter field that narrows to them
+export interface SearchFacets {
+  category: Record<string, number>;
+  subcategory: Record<string, number>;
+  tag: Record<string, number>;
+}
+
+// Search results plus any query correction that produced them
+export interface SearchResponse {
+  results: SearchResult[];
+  correctedQuery?: string; // set when the original query matched nothing
+  facets?: SearchFacets; // set when requested
 }
 
 // Intent patterns for smart suggestions
@@ -122,10 +237,27 @@ export interface IntentPattern {
   priority: number;
 }
 
+// A problem found in a config file, located by JSON path ($[3].suggestedItems[1])
+export interface ConfigIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// Result of validating config/intents.json
+export interface ConfigReport {
+  path: string;
+  exists: boolean;
+  patternCount: number; // custom patterns in the file, 0 if it failed to load
+  issues: ConfigIssue[];
+}
+
 // Suggestion result
 export interface Suggestion {
   item: LibraryItem;
+  intent: string; // intent pattern that produced the suggestion
   reason: string;
+  triggers: string[]; // message words that matched the intent's keywords
   confidence: number; // 0-1
 }
 
@@ -155,11 +287,100 @@ export interface PromptResource {
   mimeType: string;
 }
 
+// Guards for writes that would replace or remove an existing item.
+// expectedHash is the item's hash when it was last read (see Library.itemHash).
+export interface WriteGuard {
+  overwrite?: boolean;
+  expectedHash?: string;
+  message?: string; // recorded with the revision the write creates
+}
+
 // Save prompt request
-export interface SavePromptRequest {
+export interface SavePromptRequest extends WriteGuard {
   category: LibraryCategory;
   subcategory?: string;
   name: string;
   content: string;
   metadata?: LibraryItemMetadata;
 }
+
+// Update an item's body and/or frontmatter; metadata is merged into the existing frontmatter
+export interface UpdateItemRequest extends WriteGuard {
+  id: string;
+  content?: string;
+  metadata?: LibraryItemMetadata;
+}
+
+// Rename and/or move an item; overwrite allows replacing an item at the destination
+export interface MoveItemRequest extends WriteGuard {
+  id: string;
+  category: LibraryCategory;
+  subcategory?: string;
+  name: string;
+}
+
+export interface DeleteItemRequest {
+  id: string;
+  expectedHash?: string;
+  message?: string;
+}
+
+// Write an earlier revision back; restores deleted items too
+export interface RestoreRevisionRequest {
+  id: string;
+  revision: number;
+  expectedHash?: string;
+  message?: string;
+}
+
+// Outcome of a write: the item as written (or as deleted), or why it was refused
+export interface LibraryWriteResult {
+  item: LibraryItem | null;
+  error?: string;
+}
+
+// manifest.json of a bundle: a packaged collection of items to import
+export interface BundleManifest {
+  name: string; // imported under <category>/vendor/<name>/
+  version: string;
+  description?: string;
+  createdAt?: string;
+  items: BundleManifestItem[];
+}
+
+export interface BundleManifestItem {
+  path: string; // e.g. "prompts/planning/prd-generator.md", relative to the bundle root
+  id?: string; // ID in the library it was exported from
+  version?: string;
+  sha256: string; // hex SHA-256 of the file content
+  metadata?: Record<string, unknown>;
+  dependencies?: string[]; // IDs of items it names in `related` or includes with {{> id}}
+}
+
+// manifest.sig: a detached signature over the exact bytes of manifest.json
+export interface BundleSignature {
+  algorithm: 'hmac-sha256' | 'ed25519';
+  keyId: string; // fingerprint of the signing key (or of the public key for ed25519)
+  signature: string; // base64
+}
+
+// Which items to export; an item matching any criterion is selected
+export interface ExportSelection {
+  categories?: LibraryCategory[];
+  tags?: string[];
+  ids?: string[];
+}
+
+// Install a bundle; items that differ from what is installed need overwrite
+export interface ImportBundleRequest {
+  overwrite?: boolean;
+  message?: string;
+}
+
+// Outcome of an import: the items written and those already up to date, or why nothing was written
+export interface BundleImportResult {
+  imported: LibraryItem[];
+  unchanged: string[];
+  previousVersion?: string;
+  error?: string;
+}
@@ -0,0 +1,294 @@
+/**
+ * Bundle Tests - Tests for bundle verification and import
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, symlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { openBundle, openTrustedBundle, writeBundle, sha256, BundleError } from '../../src/lib/bundle.js';
+import { packTar } from '../../src/lib/archive-store.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
+import { Library } from '../../src/lib/library.js';
+
+const BUNDLE_PATH = join(process.cwd(), '.test-bundle');
+
+const PRD = `---
+title: Acme PRD
+---
+
+# Acme PRD
+
+Write a PRD the Acme way.
+`;
+
+const TERSE = '# Terse\n\nAnswer in one paragraph.\n';
+
+function writeBundleFiles(files: Record<string, string>, manifest: unknown) {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(BUNDLE_PATH, path)), { recursive: true });
+    writeFileSync(join(BUNDLE_PATH, path), content);
+  }
+  writeFileSync(join(BUNDLE_PATH, 'manifest.json'), JSON.stringify(manifest));
+}
+
+function acmeBundle(version = '1.0.0', prd = PRD) {
+  writeBundleFiles(
+    { 'prompts/planning/prd.md': prd, 'snippets/terse.md': TERSE },
+    {
+      name: 'acme',
+      version,
+      items: [
+        { path: 'prompts/planning/prd.md', version: '2.1.0', sha256: sha256(prd) },
+        { path: 'snippets/terse.md', sha256: sha256(TERSE) },
+      ],
+    }
+  );
+}
+
+describe('openBundle', () => {
+  afterEach(() => {
+    rmSync(BUNDLE_PATH, { recursive: true, force: true });
+  });
+
+  it('should read a bundle whose hashes match', () => {
+    acmeBundle();
+    const bundle = openBundle(BUNDLE_PATH);
+
+    expect(bundle.manifest.name).toBe('acme');
+    expect(bundle.files.map((f) => f.path)).toEqual(['prompts/planning/prd.md', 'snippets/terse.md']);
+    expect(bundle.files[0].version).toBe('2.1.0');
+  });
+
+  it('should report every file that fails verification', () => {
+    writeBundleFiles(
+      { 'prompts/prd.md': PRD },
+      {
+        name: 'acme',
+        version: '1.0.0',
+        items: [
+          { path: 'prompts/prd.md', sha256: sha256('something else') },
+          { path: 'prompts/missing.md', sha256: sha256('') },
+          { path: '../outside.md', sha256: sha256('') },
+        ],
+      }
+    );
+
+    try {
+      openBundle(BUNDLE_PATH);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(BundleError);
+      const { problems } = error as BundleError;
+      expect(problems).toHaveLength(3);
+      expect(problems[0]).toContain('SHA-256 mismatch');
+      expect(problems[1]).toContain('missing from the bundle');
+      expect(problems[2]).toContain('not a relative path');
+    }
+  });
+
+  it('should reject a missing or invalid manifest', () => {
+    mkdirSync(BUNDLE_PATH, { recursive: true });
+    expect(() => openBundle(BUNDLE_PATH)).toThrow('has no manifest.json');
+
+    writeFileSync(join(BUNDLE_PATH, 'manifest.json'), JSON.stringify({ name: '../evil', version: '1', items: [] }));
+    expect(() => openBundle(BUNDLE_PATH)).toThrow(/\$\.name/);
+  });
+});
+
+describe('Library.importBundle', () => {
+  let store: MemoryStore;
+  let library: Library;
+
+  beforeEach(async () => {
+    store = new MemoryStore({ 'prompts/planning/prd-generator.md': '# PRD Generator' });
+    library = new Library(store);
+    await library.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(BUNDLE_PATH, { recursive: true, force: true });
+  });
+
+  it('should install items namespaced under vendor/<name>', () => {
+    acmeBundle();
+    const { imported, error } = library.importBundle(openBundle(BUNDLE_PATH));
+
+    expect(error).toBeUndefined();
+    expect(imported.map((item) => item.id)).toEqual(['prompts/vendor/acme/planning/prd', 'snippets/vendor/acme/terse']);
+    expect(library.getItem('prompts/vendor/acme/planning/prd')?.metadata.title).toBe('Acme PRD');
+    expect(store.read('prompts/vendor/acme/planning/prd.md')).toBe(PRD);
+    expect(library.listRevisions('snippets/vendor/acme/terse')?.[0].message).toBe('Imported from acme@1.0.0');
+  });
+
+  it('should skip unchanged items and require overwrite for changed ones', () => {
+    acmeBundle();
+    library.importBundle(openBundle(BUNDLE_PATH));
+
+    const again = library.importBundle(openBundle(BUNDLE_PATH));
+    expect(again.imported).toEqual([]);
+    expect(again.unchanged).toHaveLength(2);
+    expect(again.previousVersion).toBe('1.0.0');
+
+    acmeBundle('1.1.0', `${PRD}\nNow with metrics.\n`);
+    const refused = library.importBundle(openBundle(BUNDLE_PATH));
+    expect(refused.error).toContain('already exists');
+    expect(store.read('prompts/vendor/acme/planning/prd.md')).toBe(PRD);
+
+    const upgraded = library.importBundle(openBundle(BUNDLE_PATH), { overwrite: true });
+    expect(upgraded.imported.map((item) => item.id)).toEqual(['prompts/vendor/acme/planning/prd']);
+    expect(upgraded.previousVersion).toBe('1.0.0');
+    expect(store.read('.bundles/acme.json')).toContain('"version": "1.1.0"');
+  });
+
+  it('should treat a corrupt receipt as an unknown previous version', () => {
+    acmeBundle();
+    store.write('.bundles/acme.json', '{ not json');
+
+    const { imported, previousVersion, error } = library.importBundle(openBundle(BUNDLE_PATH));
+    expect(error).toBeUndefined();
+    expect(previousVersion).toBeUndefined();
+    expect(imported).toHaveLength(2);
+    expect(store.read('.bundles/acme.json')).toContain('"version": "1.0.0"');
+  });
+
+  it('should refuse items outside the category folders without writing anything', () => {
+    writeBundleFiles(
+      { 'prompts/ok.md': TERSE, 'notes/readme.md': TERSE },
+      {
+        name: 'acme',
+        version: '1.0.0',
+        items: [
+          { path: 'prompts/ok.md', sha256: sha256(TERSE) },
+          { path: 'notes/readme.md', sha256: sha256(TERSE) },
+        ],
+      }
+    );
+
+    const { imported, error } = library.importBundle(openBundle(BUNDLE_PATH));
+    expect(imported).toEqual([]);
+    expect(error).toContain('notes/readme.md is not in a library category folder');
+    expect(store.read('prompts/vendor/acme/ok.md')).toBeNull();
+  });
+});
+
+describe('bundle export', () => {
+  let library: Library;
+
+  beforeEach(async () => {
+    library = new Library(
+      new MemoryStore({
+        'prompts/security/audit.md': '---\ntags: [security]\nrelated: [prompts/security/threat-model, prompts/missing]\nversion: 1.2.0\n---\n# Audit\n\n{{> snippets/terse}}\n',
+        'prompts/security/threat-model.md': '---\ntags: [design]\n---\n# Threat Model\n',
+        'prompts/planning/prd.md': PRD,
+        'snippets/terse.md': TERSE,
+      })
+    );
+    await library.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(BUNDLE_PATH, { recursive: true, force: true });
+  });
+
+  it('should select items and follow related and include references', () => {
+    const { items, unresolved } = library.collectExport({ tags: ['security'] });
+
+    expect(items.map(({ item }) => item.id)).toEqual(['prompts/security/audit', 'prompts/security/threat-model', 'snippets/terse']);
+    expect(items[0].dependencies).toEqual(['prompts/security/threat-model', 'snippets/terse']);
+    expect(unresolved).toEqual([{ id: 'prompts/security/audit', reference: 'prompts/missing' }]);
+    expect(library.collectExport({}).items).toHaveLength(4);
+  });
+
+  it('should write a pack that imports back', () => {
+    mkdirSync(BUNDLE_PATH, { recursive: true });
+    const output = join(BUNDLE_PATH, 'pack.tgz');
+    const { items } = library.collectExport({ ids: ['prompts/security/audit'] });
+    const { manifest } = writeBundle(output, items, { name: 'security-pack', version: '2.0.0' });
+
+    expect(manifest.items[0]).toMatchObject({ id: 'prompts/security/audit', version: '1.2.0', dependencies: ['prompts/security/threat-model', 'snippets/terse'] });
+    expect(manifest.items[0].metadata).toMatchObject({ tags: ['security'] });
+
+    const bundle = openBundle(output);
+    expect(bundle.manifest.name).toBe('security-pack');
+    expect(bundle.files.map((f) => f.path)).toEqual(['prompts/security/audit.md', 'prompts/security/threat-model.md', 'snippets/terse.md']);
+    expect(bundle.signature).toBeUndefined();
+  });
+
+  it('should sign with an HMAC secret and verify with the same secret', () => {
+    const output = join(BUNDLE_PATH, 'pack');
+    writeBundle(output, library.collectExport({ ids: ['snippets/terse'] }).items, { name: 'terse', version: '1.0.0', key: 'team secret\n' });
+
+    expect(openBundle(output).signature).toMatchObject({ algorithm: 'hmac-sha256', verified: false });
+    expect(openBundle(output, { key: 'team secret' }).signature?.verified).toBe(true);
+    expect(() => openBundle(output, { key: 'wrong secret' })).toThrow('does not match');
+
+    // Editing the manifest invalidates the signature, even with matching file hashes
+    const manifestPath = join(output, 'manifest.json');
+    writeFileSync(manifestPath, readFileSync(manifestPath, 'utf-8').replace('"1.0.0"', '"9.9.9"'));
+    expect(() => openBundle(output, { key: 'team secret' })).toThrow('does not match');
+  });
+
+  it('should sign with an Ed25519 key and verify with its public key', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const output = join(BUNDLE_PATH, 'pack');
+    const key = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    const { signature } = writeBundle(output, library.collectExport({ ids: ['snippets/terse'] }).items, { name: 'terse', version: '1.0.0', key });
+
+    expect(signature?.algorithm).toBe('ed25519');
+    const bundle = openBundle(output, { key: publicKey.export({ type: 'spki', format: 'pem' }).toString() });
+    expect(bundle.signature).toEqual({ algorithm: 'ed25519', keyId: signature?.keyId, verified: true });
+
+    const other = generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    expect(() => openBundle(output, { key: other })).toThrow('does not match');
+  });
+
+  it('should require a signature when a key is given', () => {
+    acmeBundle();
+    expect(() => openBundle(BUNDLE_PATH, { key: 'team secret' })).toThrow('is not signed');
+  });
+
+  it('should only open trusted bundles from the bundle directory', () => {
+    const output = join(BUNDLE_PATH, 'signed');
+    writeBundle(output, library.collectExport({ ids: ['snippets/terse'] }).items, { name: 'terse', version: '1.0.0', key: 'team secret' });
+    symlinkSync(process.cwd(), join(BUNDLE_PATH, 'link'));
+    const trusted = { directory: BUNDLE_PATH, key: 'team secret' };
+
+    expect(openTrustedBundle('signed', trusted).signature?.verified).toBe(true);
+    expect(() => openTrustedBundle('signed', { ...trusted, key: 'wrong secret' })).toThrow('does not match');
+    expect(() => openTrustedBundle('../package.json', trusted)).toThrow(`Bundles can only be imported from ${BUNDLE_PATH}`);
+    expect(() => openTrustedBundle(process.cwd(), trusted)).toThrow('Bundles can only be imported from');
+    expect(() => openTrustedBundle('link', trusted)).toThrow('Bundles can only be imported from');
+    expect(() => openTrustedBundle('.', trusted)).toThrow('Bundles can only be imported from');
+  });
+
+  it('should refuse unsigned or unverifiable bundles unless allowed', () => {
+    const output = join(BUNDLE_PATH, 'signed');
+    writeBundle(output, library.collectExport({ ids: ['snippets/terse'] }).items, { name: 'terse', version: '1.0.0', key: 'team secret' });
+    const unsigned = join(BUNDLE_PATH, 'unsigned');
+    writeBundle(unsigned, library.collectExport({ ids: ['snippets/terse'] }).items, { name: 'terse', version: '1.0.0' });
+
+    expect(() => openTrustedBundle('unsigned', { directory: BUNDLE_PATH, key: 'team secret' })).toThrow('is not signed');
+    expect(() => openTrustedBundle('unsigned', { directory: BUNDLE_PATH })).toThrow('is not signed');
+    expect(() => openTrustedBundle('signed', { directory: BUNDLE_PATH })).toThrow('no key is configured to verify it');
+
+    expect(openTrustedBundle('unsigned', { directory: BUNDLE_PATH, allowUnsigned: true }).signature).toBeUndefined();
+    expect(openTrustedBundle('signed', { directory: BUNDLE_PATH, allowUnsigned: true }).signature?.verified).toBe(false);
+    expect(openTrustedBundle('signed', { directory: BUNDLE_PATH, key: 'team secret', allowUnsigned: true }).signature?.verified).toBe(true);
+  });
+
+  it('should pack long paths with pax headers', () => {
+    mkdirSync(BUNDLE_PATH, { recursive: true });
+    const longPath = `prompts/${'nested/'.repeat(20)}deep.md`;
+    const archive = join(BUNDLE_PATH, 'long.tar');
+    writeFileSync(
+      archive,
+      packTar([
+        { path: 'manifest.json', content: JSON.stringify({ name: 'deep', version: '1', items: [{ path: longPath, sha256: sha256(TERSE) }] }) },
+        { path: longPath, content: TERSE },
+      ])
+    );
+
+    expect(openBundle(archive).files[0].path).toBe(longPath);
+  });
+});
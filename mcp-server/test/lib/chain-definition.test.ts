@@ -0,0 +1,241 @@
+/**
+ * Chain Definition Tests - Tests for YAML/JSON chains, their errors and the
+ * markdown converter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  readChainDefinition,
+  parseChainDefinition,
+  chainToDefinition,
+  isChainDefinitionPath,
+  ChainDefinitionError,
+} from '../../src/lib/chain-definition.js';
+import { parseChain } from '../../src/lib/parser.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
+import { Library } from '../../src/lib/library.js';
+
+const TRIAGE = `name: Triage
+description: From report to fix
+tags: [debugging]
+variables:
+  - name: bug
+    required: true
+steps:
+  - title: Reproduce
+    prompt: |
+      Reproduce {{bug}}.
+    decision: Can we reproduce?
+    branches:
+      yes: 2
+      no: 1b
+  - id: 1b
+    title: Gather Info
+    prompt: Ask for logs about {{steps.1.output}}.
+    branches:
+      retry: 1
+      give up: end
+  - id: 2
+    title: Diagnose
+    use: prompts/debugger + ultrathink
+    expectedOutput:
+      - Root cause
+`;
+
+const MARKDOWN = `# Fix
+
+> Fix a bug
+
+## Step 1: Reproduce
+
+**Prompt:**
+\`\`\`
+Reproduce it.
+\`\`\`
+
+**Decision Point:** Reproduced? yes → Step 2, no → Step 1b
+
+## Step 1b: Gather Info
+
+**Prompt:**
+\`\`\`
+Ask for logs.
+\`\`\`
+
+## Step 2: Diagnose
+
+**Use:** prompts/debugger + ultrathink
+
+**Expected Output:**
+- Root cause
+`;
+
+async function libraryWith(files: Record<string, string>) {
+  const library = new Library(new MemoryStore(files));
+  await library.initialize();
+  return library;
+}
+
+function issuesOf(content: string) {
+  try {
+    readChainDefinition('chains/test.chain.yaml', content);
+  } catch (error) {
+    if (error instanceof ChainDefinitionError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('chain definitions', () => {
+  it('should recognise definition files only in chains/', () => {
+    expect(isChainDefinitionPath('chains/triage.chain.yaml')).toBe(true);
+    expect(isChainDefinitionPath('chains/team/triage.chain.json')).toBe(true);
+    expect(isChainDefinitionPath('chains/triage.yaml')).toBe(false);
+    expect(isChainDefinitionPath('prompts/triage.chain.yaml')).toBe(false);
+  });
+
+  it('should load into the same Chain type as markdown chains', async () => {
+    const library = await libraryWith({
+      'prompts/debugger.md': '# Debugger\n\n```\nFind the cause.\n```\n',
+      'chains/triage.chain.yaml': TRIAGE,
+    });
+    const chain = library.getChain('triage')!;
+
+    expect(chain).toMatchObject({ id: 'chains/triage', name: 'Triage', description: 'From report to fix' });
+    expect(chain.variables.map((v) => [v.name, v.required])).toEqual([['bug', true]]);
+    expect(chain.steps.map((s) => [s.stepNumber, s.label, s.title])).toEqual([
+      [1, undefined, 'Reproduce'],
+      [2, '1b', 'Gather Info'],
+      [3, '2', 'Diagnose'],
+    ]);
+    expect(chain.steps[0]).toMatchObject({
+      prompt: 'Reproduce {{bug}}.',
+      decisionPoint: 'Can we reproduce?',
+      branches: [
+        { outcome: 'yes', step: '2' },
+        { outcome: 'no', step: '1b' },
+      ],
+    });
+    expect(chain.steps[2].use).toMatchObject({ reference: 'prompts/debugger', itemId: 'prompts/debugger', missing: ['ultrathink'] });
+    expect(chain.steps[2].prompt).toBe('Find the cause.');
+
+    const item = library.getItem('chains/triage')!;
+    expect(item).toMatchObject({ name: 'triage', relativePath: 'chains/triage.chain.yaml' });
+    expect(item.metadata).toMatchObject({ title: 'Triage', tags: ['debugging'] });
+  });
+
+  it('should accept JSON', async () => {
+    const library = await libraryWith({
+      'chains/quick.chain.json': JSON.stringify({ name: 'Quick', steps: [{ title: 'Only', prompt: 'Do it.' }] }),
+    });
+
+    expect(library.getChain('chains/quick')?.steps[0].prompt).toBe('Do it.');
+  });
+
+  it('should replace a markdown chain with the same ID', async () => {
+    const library = await libraryWith({ 'chains/triage.md': MARKDOWN, 'chains/triage.chain.yaml': TRIAGE });
+
+    expect(library.getAllItems().map((item) => item.relativePath)).toEqual(['chains/triage.chain.yaml']);
+    expect(library.getChain('chains/triage')?.name).toBe('Triage');
+  });
+
+  it('should report schema problems with their line', () => {
+    const issues = issuesOf('name: Bad\nsteps:\n  - title: One\n    prompt: Go\n    branches:\n      yes: 3\n  - prompt: Two\n    expected_output: []\n');
+
+    expect(issues).toEqual([
+      { path: '$.steps[1].title', line: 7, message: 'Required' },
+      { path: '$.steps[1]', line: 8, message: "Unrecognized key(s) in object: 'expected_output'" },
+    ]);
+  });
+
+  it('should report branches to unknown steps and duplicate step IDs', () => {
+    const issues = issuesOf('name: Bad\nsteps:\n  - title: One\n    prompt: Go\n    branches:\n      yes: 3\n  - id: 1\n    title: Two\n    prompt: Again\n');
+
+    expect(issues).toEqual([
+      { path: '$.steps[1].id', line: 7, message: 'Duplicate step "1"' },
+      { path: '$.steps[0].branches.yes', line: 6, message: 'No step "3" (steps: 1 or end)' },
+    ]);
+  });
+
+  it('should report YAML syntax errors with their line', () => {
+    const issues = issuesOf('name: Bad\nsteps:\n  - title: One\n    title: Two\n    prompt: Go\n');
+
+    expect(issues).toEqual([{ path: '$', line: 4, message: 'Map keys must be unique' }]);
+  });
+
+  it('should fail loudly with the file and line in the error message', () => {
+    expect(() => readChainDefinition('chains/x.chain.yaml', 'name: X\nsteps: []\n')).toThrow(
+      'chains/x.chain.yaml:2: $.steps: Array must contain at least 1 element(s)'
+    );
+  });
+});
+
+describe('chainToDefinition', () => {
+  it('should convert a markdown chain into a definition that loads the same steps', async () => {
+    const library = await libraryWith({ 'chains/fix.md': MARKDOWN });
+    const markdown = parseChain(library.getItem('chains/fix')!);
+
+    const yaml = chainToDefinition(markdown);
+    const converted = await libraryWith({ 'chains/fix.chain.yaml': yaml });
+    const chain = parseChainDefinition(converted.getItem('chains/fix')!);
+
+    expect(yaml).toContain('use: prompts/debugger + ultrathink');
+    expect(chain.name).toBe(markdown.name);
+    expect(chain.description).toBe('Fix a bug');
+    expect(chain.steps).toEqual(markdown.steps);
+  });
+
+  it('should keep a chain definition a chain definition when it is moved', async () => {
+    const library = await libraryWith({ 'chains/triage.chain.yaml': TRIAGE });
+
+    const moved = library.moveItem({ id: 'chains/triage', category: 'chains', name: 'bug-triage' });
+    expect(moved.item?.relativePath).toBe('chains/bug-triage.chain.yaml');
+    expect(library.getChain('chains/bug-triage')?.steps).toHaveLength(3);
+
+    expect(library.moveItem({ id: 'chains/bug-triage', category: 'prompts', name: 'triage' }).error).toBe(
+      'A chain definition can only be moved within chains/'
+    );
+  });
+});
+
+describe('updating chain definitions', () => {
+  it('should set metadata as definition keys rather than frontmatter', async () => {
+    const store = new MemoryStore({ 'chains/triage.chain.yaml': TRIAGE });
+    const library = new Library(store);
+    await library.initialize();
+
+    const { item } = library.updateItem({
+      id: 'chains/triage',
+      metadata: { title: 'Bug Triage', tags: ['debugging', 'triage'] },
+      overwrite: true,
+    });
+
+    const content = store.read('chains/triage.chain.yaml')!;
+    expect(content).not.toContain('---');
+    expect(content).toContain('name: Bug Triage');
+    expect(item?.metadata).toMatchObject({ title: 'Bug Triage', tags: ['debugging', 'triage'] });
+    expect(library.getChain('chains/triage')?.steps).toHaveLength(3);
+  });
+
+  it('should keep JSON definitions JSON', async () => {
+    const library = await libraryWith({
+      'chains/quick.chain.json': JSON.stringify({ name: 'Quick', steps: [{ title: 'Go', prompt: 'Go.' }] }),
+    });
+
+    library.updateItem({ id: 'chains/quick', metadata: { description: 'One step' }, overwrite: true });
+
+    expect(library.getChain('chains/quick')).toMatchObject({ name: 'Quick', description: 'One step' });
+  });
+
+  it('should refuse metadata a definition cannot hold and invalid content', async () => {
+    const library = await libraryWith({ 'chains/triage.chain.yaml': TRIAGE });
+
+    expect(library.updateItem({ id: 'chains/triage', metadata: { model: 'opus' }, overwrite: true }).error).toContain(
+      'Metadata field "model" cannot be set on a chain definition'
+    );
+    expect(library.updateItem({ id: 'chains/triage', content: 'name: Empty\nsteps: []\n', overwrite: true }).error).toContain(
+      '$.steps: Array must contain at least 1 element(s)'
+    );
+    expect(library.getChain('chains/triage')?.name).toBe('Triage');
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { ChainManager } from '../../src/lib/chains.js';
+import { ChainManager, ChainError } from '../../src/lib/chains.js';
+import { Library } from '../../src/lib/library.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
 import type { Chain, ChainStep } from '../../src/types.js';
 
 const mockChain: Chain = {
@@ -8,6 +10,7 @@ const mockChain: Chain = {
   description: 'A test workflow',
   overview: 'Step 1 -> Step 2 -> Done',
   prerequisites: ['Requirement 1'],
+  variables: [],
   steps: [
     {
       stepNumber: 1,
@@ -279,6 +282,30 @@ describe('ChainManager', () => {
     });
   });
 
+  describe('templates', () => {
+    it('should render conditionals and filters', () => {
+      const prompt = '{{#if stack}}Use {{stack | upper}}.{{else}}Pick a stack.{{/if}}';
+
+      expect(manager.substituteVariables(prompt, { stack: 'go' })).toBe('Use GO.');
+      expect(manager.substituteVariables(prompt, {})).toBe('Pick a stack.');
+    });
+
+    it('should resolve includes through the include resolver', () => {
+      manager.setIncludeResolver((id) => (id === 'snippets/modifiers/ultrathink' ? 'Think hard about [goal].' : null));
+
+      expect(manager.substituteVariables('{{> snippets/modifiers/ultrathink}}', { goal: 'caching' })).toBe('Think hard about caching.');
+    });
+
+    it('should show a step with a broken template as written, with the error', () => {
+      const session = manager.startChain(mockChain);
+      const step = { ...mockChain.steps[0], prompt: '{{#if ready}}Go' };
+      const formatted = manager.formatStep(step, session);
+
+      expect(formatted).toContain('**Template error:** chains/test-workflow#step-1: Unclosed {{#if}} from line 1');
+      expect(formatted).toContain('{{#if ready}}Go');
+    });
+  });
+
   describe('formatStep', () => {
     it('should format a step with all fields', () => {
       const session = manager.startChain(mockChain, { variable_name: 'TEST' });
@@ -308,6 +335,16 @@ describe('ChainManager', () => {
 
       expect(formatted).not.toContain('### Expected Output');
     });
+
+    it('should substitute declared variables by their placeholders', () => {
+      const session = manager.startChain(mockChain, { subject: 'the login form' });
+      const step = { ...mockChain.steps[0], prompt: 'Investigate [Describe what is broken]' };
+      const formatted = manager.formatStep(step, session, [
+        { name: 'subject', type: 'string', required: true, placeholder: '[Describe what is broken]' },
+      ]);
+
+      expect(formatted).toContain('Investigate the login form');
+    });
   });
 
   describe('formatSessionStatus', () => {
@@ -342,3 +379,226 @@ describe('ChainManager', () => {
     });
   });
 });
+
+describe('steps that use library items', () => {
+  let store: MemoryStore;
+  let library: Library;
+  let manager: ChainManager;
+
+  beforeEach(async () => {
+    store = new MemoryStore({
+      'prompts/debugger.md': '# Debugger\n\n## Variables\n- `[bug context]` - What is broken\n\n## Prompt\n\n```\nDebug this: [bug context]\n```\n',
+      'snippets/modifiers/ultrathink.md': '# Ultrathink\n\n```\nUltrathink.\n```\n',
+      'chains/fix.md': '# Fix\n\n## Step 1: Diagnose\n\n**Use:** prompts/debugger + ultrathink\n\n**Prompt:**\n```\nDo not fix it yet.\n```\n\n## Step 2: Patch\n\n**Use:** prompts/patcher + be-gentle\n',
+    });
+    library = new Library(store);
+    await library.initialize();
+    manager = new ChainManager();
+  });
+
+  it('should resolve the used item and modifiers through the library', () => {
+    const [diagnose, patch] = library.getChain('chains/fix')!.steps;
+
+    expect(diagnose.prompt).toBe('Debug this: [bug context]\n\nDo not fix it yet.\n\nUltrathink.');
+    expect(diagnose.use).toMatchObject({ itemId: 'prompts/debugger', modifierIds: ['snippets/modifiers/ultrathink'] });
+    expect(diagnose.variables?.map((v) => v.name)).toEqual(['bug_context']);
+    expect(patch.use?.missing).toEqual(['prompts/patcher', 'be-gentle']);
+  });
+
+  it('should not bind partial or misspelled references to another item', async () => {
+    store.write('snippets/tone/ultrathink.md', '# Ultrathink Too\n');
+    store.write('chains/loose.md', '# Loose\n\n## Step 1: Diagnose\n\n**Use:** debugger + ultrathink\n\n## Step 2: Again\n\n**Use:** prompts/debuger + snippets/modifiers/ultrathink\n');
+    await library.scan();
+
+    const [bare, typo] = library.getChain('chains/loose')!.steps;
+    expect(bare.use?.missing).toEqual(['debugger', 'ultrathink']);
+    expect(typo.use).toMatchObject({ missing: ['prompts/debuger'], modifierIds: ['snippets/modifiers/ultrathink'] });
+  });
+
+  it('should render the used prompt with the session context', () => {
+    const chain = library.getChain('chains/fix')!;
+    const session = manager.startChain(chain, { bug_context: 'Login fails on Safari' });
+    const formatted = manager.formatStep(chain.steps[0], session, chain.variables);
+
+    expect(formatted).toContain('**Uses:** `prompts/debugger` + `snippets/modifiers/ultrathink`');
+    expect(formatted).toContain('Debug this: Login fails on Safari');
+    expect(manager.formatStep(chain.steps[1], session)).toContain('**Not in the library:** prompts/patcher, be-gentle');
+  });
+
+  it('should pick up changes to the used item', () => {
+    library.updateItem({ id: 'prompts/debugger', content: '# Debugger\n\n```\nFind the root cause.\n```\n', overwrite: true });
+
+    expect(library.getChain('chains/fix')!.steps[0].prompt).toMatch(/^Find the root cause\./);
+  });
+});
+
+describe('branching chains', () => {
+  let manager: ChainManager;
+  let chain: Chain;
+
+  beforeEach(async () => {
+    const library = new Library(
+      new MemoryStore({
+        'chains/triage.md': [
+          '# Triage',
+          '## Step 1: Reproduce\n\n**Decision Point:** Can we reproduce? yes → Step 2, no → Step 1b',
+          '## Step 1b: Gather Info\n\n**Decision Point:** Reproduced now? yes → Step 2, no → Step 1b, give up → end',
+          '## Step 2: Diagnose',
+          '## Step 3: Fix\n\n**Decision Point:** Tests pass? yes → end, no → Step 2',
+        ].join('\n\n'),
+      })
+    );
+    await library.initialize();
+    chain = library.getChain('chains/triage')!;
+    manager = new ChainManager();
+  });
+
+  it('should follow the branch for the outcome and record the path', () => {
+    const session = manager.startChain(chain);
+    manager.advanceStep(session.id, chain, 'No');
+    manager.advanceStep(session.id, chain, 'no');
+    manager.advanceStep(session.id, chain, 'yes');
+
+    expect(manager.getCurrentStep(session, chain)?.title).toBe('Diagnose');
+    expect(session.path).toEqual([
+      { step: 1, outcome: 'no' },
+      { step: 2, outcome: 'no' },
+      { step: 2, outcome: 'yes' },
+      { step: 3 },
+    ]);
+  });
+
+  it('should take steps without branches in order', () => {
+    const session = manager.startChain(chain);
+    manager.goToStep(session.id, 3);
+
+    expect(manager.nextStep(chain, 3)).toBe(4);
+    expect(manager.nextStep(chain, 4, 'yes')).toBeNull();
+    expect(manager.nextStep(chain, 4, 'no')).toBe(3);
+  });
+
+  it('should require a known outcome at a decision point', () => {
+    const session = manager.startChain(chain);
+
+    expect(() => manager.advanceStep(session.id, chain)).toThrow(ChainError);
+    expect(() => manager.advanceStep(session.id, chain, 'maybe')).toThrow('"maybe" is not an outcome of step 1; expected "yes", "no"');
+    expect(session.currentStep).toBe(1);
+  });
+
+  it('should find steps by label', () => {
+    expect(manager.findStep(chain, '1b')?.title).toBe('Gather Info');
+    expect(manager.findStep(chain, 'Step 2')?.title).toBe('Diagnose');
+    expect(manager.findStep(chain, 3)?.title).toBe('Fix');
+    expect(manager.findStep(chain, 4)).toBeNull();
+  });
+
+  it('should show the path taken and the steps ahead up to the next decision', () => {
+    const session = manager.startChain(chain);
+    manager.advanceStep(session.id, chain, 'no');
+    manager.advanceStep(session.id, chain, 'yes');
+    const status = manager.formatSessionStatus(session, chain);
+
+    expect(status).toContain('**Current Step:** 2: Diagnose');
+    expect(status).toContain('**Path:** 1 (no) → 1b (yes) → **2**');
+    expect(status).toContain('**Ahead:** 3 → decision at 3 (yes → end, no → 2)');
+    expect(status).not.toContain('█');
+  });
+
+  it('should list the outcomes of a decision point', () => {
+    const session = manager.startChain(chain);
+    const formatted = manager.formatStep(chain.steps[1], session);
+
+    expect(formatted).toContain('## Step 1b: Gather Info');
+    expect(formatted).toContain('- `outcome="give up"` → end of chain');
+  });
+});
+
+describe('step outputs', () => {
+  let manager: ChainManager;
+  let chain: Chain;
+
+  beforeEach(async () => {
+    const library = new Library(
+      new MemoryStore({
+        'chains/pipeline.md': [
+          '# Pipeline',
+          '## Step 1: Reproduce\n\n**Prompt:**\n```\nReproduce the bug.\n```',
+          '## Step 1b: Gather Info\n\n**Prompt:**\n```\nAsk for logs.\n```',
+          '## Step 2: Fix\n\n**Prompt:**\n```\nRepro: {{steps.1.output}}\nLogs: {{steps.1b.output}}\nCause: {{root_cause}} / [root cause]\nNext: {{steps.3.output}}\n```',
+        ].join('\n\n'),
+      })
+    );
+    await library.initialize();
+    chain = library.getChain('chains/pipeline')!;
+    manager = new ChainManager();
+  });
+
+  it('should not treat {{steps}} as a start_chain variable', () => {
+    expect(chain.variables.map((v) => v.name)).toEqual(['root_cause']);
+  });
+
+  it('should feed recorded outputs and captures into later steps', () => {
+    const session = manager.startChain(chain);
+    manager.recordOutput(session.id, chain, 'Fails on every login');
+    manager.advanceStep(session.id, chain);
+    manager.recordOutput(session.id, chain, 'Token expired at 12:00', { root_cause: 'clock skew' });
+    manager.advanceStep(session.id, chain);
+
+    const formatted = manager.formatStep(chain.steps[2], session);
+
+    expect(formatted).toContain('Repro: Fails on every login');
+    expect(formatted).toContain('Logs: Token expired at 12:00');
+    expect(formatted).toContain('Cause: clock skew / clock skew');
+    expect(formatted).toContain('Next: {{steps.3.output}}');
+    expect(manager.stepContext(session)).toMatchObject({
+      root_cause: 'clock skew',
+      steps: { '1b': { output: 'Token expired at 12:00', root_cause: 'clock skew' } },
+    });
+  });
+
+  it('should insert outputs as written, even when they look like [references]', () => {
+    const session = manager.startChain(chain, { bug: 'login fails' });
+    manager.recordOutput(session.id, chain, 'Could not reproduce [bug] or [root cause]');
+    manager.advanceStep(session.id, chain);
+    manager.recordOutput(session.id, chain, 'No logs', { root_cause: 'clock skew' });
+    manager.advanceStep(session.id, chain);
+
+    const formatted = manager.formatStep(chain.steps[2], session);
+
+    expect(formatted).toContain('Repro: Could not reproduce [bug] or [root cause]');
+    expect(formatted).toContain('Cause: clock skew / clock skew');
+  });
+
+  it('should let the latest output of a revisited step win', () => {
+    const session = manager.startChain(chain);
+    manager.recordOutput(session.id, chain, 'first try');
+    manager.recordOutput(session.id, chain, 'second try');
+
+    expect(session.outputs).toHaveLength(2);
+    expect(manager.stepContext(session)).toMatchObject({ steps: { 1: { output: 'second try' } } });
+  });
+
+  it('should reject capture names that cannot be template variables', () => {
+    const session = manager.startChain(chain);
+
+    expect(() => manager.recordOutput(session.id, chain, undefined, { 'root cause': 'x', steps: 'y' })).toThrow(
+      'Invalid capture name(s): root cause, steps'
+    );
+    expect(session.outputs).toEqual([]);
+  });
+
+  it('should format a transcript of the outputs', () => {
+    const session = manager.startChain(chain);
+    expect(manager.formatTranscript(session)).toMatch(/^No step outputs recorded yet/);
+
+    manager.recordOutput(session.id, chain, 'Fails on every login', { severity: 'high' });
+
+    expect(manager.formatTranscript(session).split('\n')).toEqual([
+      '### Step 1: Reproduce',
+      '',
+      'Fails on every login',
+      '',
+      '- **severity:** high',
+    ]);
+  });
+});
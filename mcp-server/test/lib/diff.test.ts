@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, unifiedDiff } from '../../src/lib/diff.js';
+
+describe('diffLines', () => {
+  it('should keep common lines and mark removals and additions', () => {
+    const result = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']);
+
+    expect(result.map((l) => `${l.type}${l.line}`)).toEqual([' a', '-b', ' c', '+x', ' d']);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffLines([], ['a'])).toEqual([{ type: '+', line: 'a' }]);
+    expect(diffLines(['a'], [])).toEqual([{ type: '-', line: 'a' }]);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('should return an empty string for identical texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb')).toBe('');
+  });
+
+  it('should produce hunks with line numbers and context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+    const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10'].join('\n');
+
+    expect(unifiedDiff(before, after, { fromLabel: 'x@1', toLabel: 'x@2', context: 2 })).toBe(
+      ['--- x@1', '+++ x@2', '@@ -3,5 +3,5 @@', ' 3', ' 4', '-5', '+five', ' 6', ' 7'].join('\n')
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = 'changed 2';
+    changed[17] = 'changed 18';
+
+    const diff = unifiedDiff(lines.join('\n'), changed.join('\n'), { context: 1 });
+    expect(diff.split('\n').filter((l) => l.startsWith('@@'))).toEqual(['@@ -1,3 +1,3 @@', '@@ -17,3 +17,3 @@']);
+  });
+
+  it('should number an empty side from the line before it', () => {
+    expect(unifiedDiff('', 'new')).toBe(['--- before', '+++ after', '@@ -0,0 +1,1 @@', '+new'].join('\n'));
+  });
+});
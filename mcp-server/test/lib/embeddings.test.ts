@@ -0,0 +1,145 @@
+/**
+ * Embeddings Tests - Tests for the local embedding provider and vector cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  LsaEmbeddingProvider,
+  EmbeddingCache,
+  cosineSimilarity,
+  contentHash,
+} from '../../src/lib/embeddings.js';
+
+const CACHE_DIR = join(process.cwd(), '.test-embeddings');
+const CACHE_FILE = join(CACHE_DIR, 'embeddings.json');
+
+const LIBRARY_TEXT = [
+  'Performance profiler: find why a service is slow. Measure latency and throughput, then remove the bottleneck.',
+  'Load testing: check latency and throughput before launch.',
+  'Incident response: when the service is slow or down, check latency dashboards.',
+  'Debugger: reproduce the failure, read the stack trace, find the root cause.',
+  'README writer: explain setup and usage for new contributors.',
+  'Onboarding guide: help new contributors with setup.',
+];
+
+describe('LsaEmbeddingProvider', () => {
+  let provider: LsaEmbeddingProvider;
+
+  beforeEach(() => {
+    provider = new LsaEmbeddingProvider();
+    provider.fit(LIBRARY_TEXT);
+  });
+
+  it('should produce unit vectors of the declared size', async () => {
+    const [vector] = await provider.embed(['Find the bottleneck']);
+
+    expect(vector).toHaveLength(provider.dimensions);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1);
+  });
+
+  it('should be deterministic', async () => {
+    const other = new LsaEmbeddingProvider();
+    other.fit(LIBRARY_TEXT);
+
+    expect(other.id).toBe(provider.id);
+    expect(await other.embed(['same text'])).toEqual(await provider.embed(['same text']));
+  });
+
+  it('should place texts that share no words closer when the library relates them', async () => {
+    const [query, performance, docs] = await provider.embed([
+      'slow',
+      'Optimize throughput',
+      'Write a README for contributors',
+    ]);
+
+    expect(cosineSimilarity(query, performance)).toBeGreaterThan(0.5);
+    expect(cosineSimilarity(query, performance)).toBeGreaterThan(cosineSimilarity(query, docs));
+  });
+
+  it('should return a zero vector for text with no words from the library', async () => {
+    const [empty, unknown] = await provider.embed(['', 'xylophone quartz']);
+
+    expect(empty.every((v) => v === 0)).toBe(true);
+    expect(unknown.every((v) => v === 0)).toBe(true);
+  });
+
+  it('should change its ID when refitted on different text', () => {
+    const before = provider.id;
+    provider.fit([...LIBRARY_TEXT, 'Security review: look for injection.']);
+
+    expect(provider.id).toContain(String(provider.dimensions));
+    expect(provider.id).not.toBe(before);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should return 1 for identical directions and 0 for orthogonal ones', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it('should return 0 when either vector is zero', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('contentHash', () => {
+  it('should be stable and content-sensitive', () => {
+    expect(contentHash('abc')).toBe(contentHash('abc'));
+    expect(contentHash('abc')).not.toBe(contentHash('abd'));
+    expect(contentHash('abc')).toHaveLength(16);
+  });
+});
+
+describe('EmbeddingCache', () => {
+  beforeEach(() => {
+    mkdirSync(CACHE_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(CACHE_DIR, { recursive: true, force: true });
+  });
+
+  it('should persist and reload vectors', () => {
+    const cache = new EmbeddingCache(CACHE_FILE, 'provider-a');
+    cache.set('hash1', [0.5, 0.5]);
+    cache.save();
+
+    const reloaded = new EmbeddingCache(CACHE_FILE, 'provider-a');
+    reloaded.load();
+    expect(reloaded.get('hash1')).toEqual([0.5, 0.5]);
+  });
+
+  it('should ignore vectors written by another provider', () => {
+    const cache = new EmbeddingCache(CACHE_FILE, 'provider-a');
+    cache.set('hash1', [1, 0]);
+    cache.save();
+
+    const other = new EmbeddingCache(CACHE_FILE, 'provider-b');
+    other.load();
+    expect(other.get('hash1')).toBeUndefined();
+  });
+
+  it('should drop vectors that are no longer needed', () => {
+    const cache = new EmbeddingCache(CACHE_FILE, 'provider-a');
+    cache.set('keep', [1]);
+    cache.set('drop', [0]);
+    cache.retain(new Set(['keep']));
+    cache.save();
+
+    const persisted = JSON.parse(readFileSync(CACHE_FILE, 'utf-8'));
+    expect(Object.keys(persisted.vectors)).toEqual(['keep']);
+  });
+
+  it('should not write when nothing changed', () => {
+    writeFileSync(CACHE_FILE, JSON.stringify({ provider: 'provider-a', vectors: {} }));
+    const cache = new EmbeddingCache(CACHE_FILE, 'provider-a');
+    cache.load();
+    cache.save();
+
+    expect(readFileSync(CACHE_FILE, 'utf-8')).toBe('{"provider":"provider-a","vectors":{}}');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Feedback Store Tests - Tests for suggestion feedback recording and weighting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { FeedbackStore } from '../../src/lib/feedback.js';
+import type { LibraryItem, Suggestion } from '../../src/types.js';
+
+const TEST_PATH = join(process.cwd(), '.test-feedback');
+
+function createSuggestion(id: string, intent: string): Suggestion {
+  const item = { id, name: id.split('/').pop() } as LibraryItem;
+  return { item, intent, reason: `Detected intent: ${intent}`, triggers: [], confidence: 0.5 };
+}
+
+describe('FeedbackStore', () => {
+  let store: FeedbackStore;
+
+  beforeEach(() => {
+    store = new FeedbackStore();
+  });
+
+  afterEach(() => {
+    rmSync(TEST_PATH, { recursive: true, force: true });
+  });
+
+  it('should weight items without history neutrally', () => {
+    expect(store.weight('debugging', 'skills/debugging')).toBe(1);
+  });
+
+  it('should lower items that are shown but never used', () => {
+    for (let i = 0; i < 10; i++) {
+      store.recordShown([createSuggestion('skills/debugging', 'debugging')]);
+    }
+
+    expect(store.weight('debugging', 'skills/debugging')).toBeLessThan(1);
+  });
+
+  it('should raise items that are selected after being suggested', () => {
+    for (let i = 0; i < 5; i++) {
+      store.recordShown([createSuggestion('skills/debugging', 'debugging')]);
+      store.recordSelection('skills/debugging');
+    }
+
+    expect(store.weight('debugging', 'skills/debugging')).toBeGreaterThan(1);
+  });
+
+  it('should only count a selection once per suggestion', () => {
+    store.recordShown([createSuggestion('skills/debugging', 'debugging')]);
+
+    expect(store.recordSelection('skills/debugging')).toBe(true);
+    expect(store.recordSelection('skills/debugging')).toBe(false);
+  });
+
+  it('should ignore fetches of items that were not suggested', () => {
+    expect(store.recordSelection('skills/debugging')).toBe(false);
+    expect(store.weight('debugging', 'skills/debugging')).toBe(1);
+  });
+
+  it('should apply ratings to the intent the item was suggested for', () => {
+    store.recordShown([createSuggestion('skills/debugging', 'debugging')]);
+
+    expect(store.rate('skills/debugging', false)).toBe('debugging');
+    expect(store.rate('prompts/other', true)).toBe('*');
+    expect(store.rate('prompts/other', true, 'planning')).toBe('planning');
+  });
+
+  it('should move weights in the direction of ratings', () => {
+    store.rate('a', true, 'debugging');
+    store.rate('b', false, 'debugging');
+
+    expect(store.weight('debugging', 'a')).toBeGreaterThan(1);
+    expect(store.weight('debugging', 'b')).toBeLessThan(1);
+  });
+
+  it('should let other intents influence an item only partly', () => {
+    store.rate('a', false, 'planning');
+    store.rate('a', false, 'planning');
+
+    const other = store.weight('debugging', 'a');
+    expect(other).toBeLessThan(1);
+    expect(other).toBeGreaterThan(store.weight('planning', 'a'));
+  });
+
+  it('should keep weights within bounds', () => {
+    for (let i = 0; i < 50; i++) store.rate('a', true, 'debugging');
+    for (let i = 0; i < 50; i++) store.rate('b', false, 'debugging');
+
+    expect(store.weight('debugging', 'a')).toBe(1.5);
+    expect(store.weight('debugging', 'b')).toBe(0.5);
+  });
+
+  it('should persist and reload history', () => {
+    store.enablePersistence(TEST_PATH);
+    store.rate('a', true, 'debugging');
+    store.recordShown([createSuggestion('a', 'debugging')]);
+
+    // A burst of events is written once, when flushed or shortly after
+    const path = join(TEST_PATH, '.sessions', 'feedback.json');
+    expect(existsSync(path)).toBe(false);
+    store.flush();
+    expect(existsSync(path)).toBe(true);
+    expect(JSON.parse(readFileSync(path, 'utf-8'))[0]).toMatchObject({ intent: 'debugging', itemId: 'a', helpful: 1 });
+
+    const reloaded = new FeedbackStore();
+    reloaded.enablePersistence(TEST_PATH);
+    expect(reloaded.weight('debugging', 'a')).toBeCloseTo(store.weight('debugging', 'a'));
+  });
+
+  it('should save shortly after events without a flush', () => {
+    vi.useFakeTimers();
+    try {
+      store.enablePersistence(TEST_PATH);
+      store.rate('a', false, 'debugging');
+
+      const path = join(TEST_PATH, '.sessions', 'feedback.json');
+      vi.advanceTimersByTime(999);
+      expect(existsSync(path)).toBe(false);
+      vi.advanceTimersByTime(1);
+      expect(JSON.parse(readFileSync(path, 'utf-8'))[0]).toMatchObject({ itemId: 'a', unhelpful: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
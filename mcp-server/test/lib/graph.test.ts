@@ -0,0 +1,150 @@
+/**
+ * Graph Tests - Tests for the item reference graph and its exports
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatGraphDot, formatGraphMermaid } from '../../src/lib/graph.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
+import { Library } from '../../src/lib/library.js';
+
+const CHAIN = `# Ship It
+
+## Step 1: Plan
+
+**Prompt:**
+\`\`\`
+Use \`prompts/planning/prd\` first.
+{{> snippets/terse}}
+\`\`\`
+
+## Step 2: Review
+
+**Prompt:**
+\`\`\`
+Review it.
+\`\`\`
+`;
+
+describe('Library.getGraph', () => {
+  let store: MemoryStore;
+  let library: Library;
+
+  beforeEach(async () => {
+    store = new MemoryStore({
+      'prompts/planning/prd.md': '---\nrelated: [prompts/planning/scope, prompts/gone]\n---\n# PRD\n\nSee the [scope killer](scope.md) and the [guide](https://example.com/guide.md).\n',
+      'prompts/planning/scope.md': '# Scope\n\n{{> snippets/terse}}\n',
+      'snippets/terse.md': '# Terse\n',
+      'chains/ship-it.md': CHAIN,
+      'config/intents.json': JSON.stringify([{ keywords: ['ship'], intent: 'shipping', suggestedItems: ['chains/ship-it'], priority: 5 }]),
+    });
+    library = new Library(store);
+    await library.initialize();
+  });
+
+  it('should collect edges from related, links, includes, chain steps and intents', () => {
+    const graph = library.getGraph();
+
+    expect(graph.outgoing('prompts/planning/prd')).toEqual([
+      { from: 'prompts/planning/prd', to: 'prompts/planning/scope', kind: 'related', broken: false },
+      { from: 'prompts/planning/prd', to: 'prompts/gone', kind: 'related', broken: true },
+      { from: 'prompts/planning/prd', to: 'prompts/planning/scope', kind: 'link', broken: false },
+    ]);
+    expect(graph.outgoing('chains/ship-it').map((e) => [e.to, e.kind, e.label])).toEqual([
+      ['snippets/terse', 'step', 'step 1'],
+      ['prompts/planning/prd', 'step', 'step 1'],
+    ]);
+    expect(graph.incoming('chains/ship-it')).toEqual([
+      { from: 'intent:shipping', to: 'chains/ship-it', kind: 'intent', broken: false },
+    ]);
+    // The built-in intents suggest items this small library does not have
+    expect(graph.broken().filter((e) => e.kind !== 'intent').map((e) => e.to)).toEqual(['prompts/gone']);
+  });
+
+  it('should list everything that depends on an item, directly or not', () => {
+    const graph = library.getGraph();
+
+    expect(graph.incoming('snippets/terse').map((e) => e.from)).toEqual(['prompts/planning/scope', 'chains/ship-it']);
+    expect(graph.dependents('snippets/terse')).toEqual([
+      'chains/ship-it',
+      'intent:shipping',
+      'prompts/planning/prd',
+      'prompts/planning/scope',
+    ]);
+  });
+
+  it('should rebuild after a write and show references left dangling by a delete', () => {
+    expect(library.getGraph().incoming('prompts/planning/scope').every((e) => !e.broken)).toBe(true);
+
+    library.deleteItem({ id: 'prompts/planning/scope' });
+
+    const incoming = library.getGraph().incoming('prompts/planning/scope');
+    expect(incoming.map((e) => e.kind)).toEqual(['related', 'link']);
+    expect(incoming.every((e) => e.broken)).toBe(true);
+  });
+
+  it('should follow the items chain steps use', async () => {
+    store.write('chains/triage.md', '# Triage\n\n## Step 1: Scope\n\n**Use:** prompts/planning/scope + missing-modifier\n');
+    await library.scan();
+
+    expect(library.getGraph().outgoing('chains/triage').map((e) => [e.to, e.broken])).toEqual([
+      ['prompts/planning/scope', false],
+      ['missing-modifier', true],
+    ]);
+  });
+
+  it('should limit a neighbourhood to the given depth', () => {
+    const graph = library.getGraph();
+
+    expect(Array.from(graph.neighbourhood('prompts/planning/scope').nodes).sort()).toEqual([
+      'prompts/planning/prd',
+      'prompts/planning/scope',
+      'snippets/terse',
+    ]);
+    expect(graph.neighbourhood('prompts/planning/scope', 2).nodes.has('chains/ship-it')).toBe(true);
+  });
+});
+
+describe('graph export', () => {
+  let library: Library;
+
+  beforeEach(async () => {
+    library = new Library(
+      new MemoryStore({
+        'prompts/a.md': '---\nrelated: [prompts/b, prompts/missing]\n---\n# A "quoted"\n',
+        'prompts/b.md': '# B\n',
+      })
+    );
+    await library.initialize();
+  });
+
+  it('should write DOT with missing items in red', () => {
+    const dot = formatGraphDot(library.getGraph().neighbourhood('prompts/a'));
+
+    expect(dot.split('\n')).toEqual([
+      'digraph library {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  "prompts/a";',
+      '  "prompts/b";',
+      '  "prompts/missing" [color=red, fontcolor=red];',
+      '  "prompts/a" -> "prompts/b" [label="related"];',
+      '  "prompts/a" -> "prompts/missing" [label="related", style=dashed, color=red];',
+      '}',
+    ]);
+  });
+
+  it('should write a Mermaid flowchart with numbered nodes', () => {
+    const mermaid = formatGraphMermaid(library.getGraph().neighbourhood('prompts/a'));
+
+    expect(mermaid.split('\n')).toEqual([
+      'graph LR',
+      '  n0["prompts/a"]',
+      '  n1["prompts/b"]',
+      '  n2["prompts/missing"]',
+      '  n0 -->|related| n1',
+      '  n0 -.->|related| n2',
+      '  classDef missing stroke:#d00,color:#d00',
+      '  class n2 missing',
+    ]);
+  });
+});
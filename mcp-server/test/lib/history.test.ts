@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { RevisionHistory } from '../../src/lib/history.js';
+import { FileSystemStore } from '../../src/lib/fs-store.js';
+import { contentHash } from '../../src/lib/embeddings.js';
+
+const STORE_PATH = join(process.cwd(), '.test-history');
+const HISTORY_PATH = join(STORE_PATH, '.history');
+const ID = 'prompts/planning/prd-generator';
+
+describe('RevisionHistory', () => {
+  let history: RevisionHistory;
+
+  beforeEach(() => {
+    history = new RevisionHistory(new FileSystemStore(STORE_PATH));
+  });
+
+  afterEach(() => {
+    rmSync(STORE_PATH, { recursive: true, force: true });
+  });
+
+  it('should record numbered revisions with hashes and messages', () => {
+    history.record(ID, 'first', 'save');
+    const second = history.record(ID, 'second', 'update', 'Tighten wording');
+
+    expect(second).toMatchObject({ revision: 2, hash: contentHash('second'), action: 'update', message: 'Tighten wording' });
+    expect(history.list(ID).map((r) => r.revision)).toEqual([1, 2]);
+    expect(history.latest(ID)?.revision).toBe(2);
+    expect(history.get(ID, 1)?.content).toBe('first');
+    expect(history.get(ID, 3)).toBeNull();
+  });
+
+  it('should keep items apart and start empty', () => {
+    history.record(ID, 'first', 'save');
+
+    expect(history.list('prompts/planning/other')).toEqual([]);
+    expect(existsSync(join(HISTORY_PATH, 'prompts', 'planning', 'prd-generator', 'revisions.json'))).toBe(true);
+  });
+
+  it('should store identical content once', () => {
+    history.record(ID, 'same', 'save');
+    history.record(ID, 'same', 'delete');
+
+    const files = readdirSync(join(HISTORY_PATH, ...ID.split('/')));
+    expect(files.filter((f) => f.endsWith('.md'))).toEqual([`${contentHash('same')}.md`]);
+  });
+
+  it('should prune the oldest revisions and their content', () => {
+    for (let i = 1; i <= 52; i++) history.record(ID, `version ${i}`, 'update');
+
+    const revisions = history.list(ID);
+    expect(revisions).toHaveLength(50);
+    expect(revisions[0].revision).toBe(3);
+    expect(history.get(ID, 1)).toBeNull();
+    expect(existsSync(join(HISTORY_PATH, ...ID.split('/'), `${contentHash('version 1')}.md`))).toBe(false);
+  });
+});
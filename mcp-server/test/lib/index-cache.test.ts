@@ -0,0 +1,126 @@
+/**
+ * Index Cache Tests - Tests for persisting parsed items between scans
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { IndexCache } from '../../src/lib/index-cache.js';
+import type { Chain, LibraryItem } from '../../src/types.js';
+
+const CACHE_DIR = join(process.cwd(), '.test-index-cache');
+const CACHE_FILE = join(CACHE_DIR, 'index.json');
+const LIBRARY_PATH = '/lib';
+
+const stamp = { mtimeMs: 1700000000000.5, size: 42 };
+
+function createItem(id: string): LibraryItem {
+  const [category, ...rest] = id.split('/');
+  return {
+    id,
+    name: rest[rest.length - 1],
+    category: category as LibraryItem['category'],
+    path: `${LIBRARY_PATH}/${id}.md`,
+    relativePath: `${id}.md`,
+    content: 'Body',
+    body: 'Body',
+    metadata: { title: 'Title', updated: new Date('2025-03-15T00:00:00Z') },
+    searchableText: 'body',
+    modifiedAt: new Date('2025-06-01T12:00:00Z'),
+  };
+}
+
+function reload(libraryPath = LIBRARY_PATH): IndexCache {
+  const cache = new IndexCache(CACHE_FILE, libraryPath);
+  cache.load();
+  return cache;
+}
+
+describe('IndexCache', () => {
+  beforeEach(() => {
+    mkdirSync(CACHE_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(CACHE_DIR, { recursive: true, force: true });
+  });
+
+  it('should round-trip items, including dates', () => {
+    const item = createItem('prompts/planning/roadmap');
+    const cache = new IndexCache(CACHE_FILE, LIBRARY_PATH);
+    cache.set(item.relativePath, stamp, item);
+    cache.save();
+
+    const hit = reload().get(item.relativePath, stamp);
+    expect(hit?.item).toEqual(item);
+    expect(hit?.item.modifiedAt).toBeInstanceOf(Date);
+    expect(hit?.item.metadata.updated).toBeInstanceOf(Date);
+  });
+
+  it('should miss when the file mtime or size changed', () => {
+    const item = createItem('prompts/planning/roadmap');
+    const cache = new IndexCache(CACHE_FILE, LIBRARY_PATH);
+    cache.set(item.relativePath, stamp, item);
+
+    expect(cache.get(item.relativePath, { ...stamp, mtimeMs: stamp.mtimeMs + 1 })).toBeUndefined();
+    expect(cache.get(item.relativePath, { ...stamp, size: 43 })).toBeUndefined();
+    expect(cache.get('prompts/other.md', stamp)).toBeUndefined();
+  });
+
+  it('should store chains without their item and re-link them on read', () => {
+    const item = createItem('chains/bug-fix');
+    const chain: Chain = {
+      id: item.id,
+      name: 'Bug Fix',
+      description: '',
+      overview: '',
+      prerequisites: [],
+      variables: [],
+      steps: [{ stepNumber: 1, title: 'Reproduce', prompt: 'Reproduce it.', expectedOutput: [] }],
+      item,
+    };
+    const cache = new IndexCache(CACHE_FILE, LIBRARY_PATH);
+    cache.set(item.relativePath, stamp, item, chain);
+    cache.save();
+
+    const hit = reload().get(item.relativePath, stamp);
+    expect(hit?.chain?.steps).toEqual(chain.steps);
+    expect(hit?.chain?.item).toBe(hit?.item);
+  });
+
+  it('should remember chains that failed to parse', () => {
+    const item = createItem('chains/broken');
+    const cache = new IndexCache(CACHE_FILE, LIBRARY_PATH);
+    cache.set(item.relativePath, stamp, item, null);
+
+    expect(cache.get(item.relativePath, stamp)?.chain).toBeNull();
+  });
+
+  it('should drop entries for files that no longer exist', () => {
+    const cache = new IndexCache(CACHE_FILE, LIBRARY_PATH);
+    cache.set('prompts/a.md', stamp, createItem('prompts/a'));
+    cache.set('prompts/b.md', stamp, createItem('prompts/b'));
+    cache.retain(new Set(['prompts/a.md']));
+    cache.save();
+
+    const reloaded = reload();
+    expect(reloaded.get('prompts/a.md', stamp)).toBeDefined();
+    expect(reloaded.get('prompts/b.md', stamp)).toBeUndefined();
+  });
+
+  it('should ignore a cache written for another library location', () => {
+    const cache = new IndexCache(CACHE_FILE, LIBRARY_PATH);
+    cache.set('prompts/a.md', stamp, createItem('prompts/a'));
+    cache.save();
+
+    expect(reload('/elsewhere').get('prompts/a.md', stamp)).toBeUndefined();
+  });
+
+  it('should ignore a cache from another version', () => {
+    writeFileSync(CACHE_FILE, JSON.stringify({ version: 0, libraryPath: LIBRARY_PATH, entries: {
+      'prompts/a.md': { ...stamp, item: createItem('prompts/a') },
+    } }));
+
+    expect(reload().get('prompts/a.md', stamp)).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Intent Classifier Tests - Tests for keyword matching, stemming and negation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { IntentClassifier, stem, tokenizeMessage } from '../../src/lib/intents.js';
+import type { IntentPattern } from '../../src/types.js';
+
+function createPattern(intent: string, keywords: string[], priority = 5): IntentPattern {
+  return { intent, keywords, suggestedItems: [`prompts/${intent}`], priority };
+}
+
+const classifier = new IntentClassifier([
+  createPattern('debugging', ['bug', 'fix', 'not working', 'crash']),
+  createPattern('refactoring', ['refactor', 'clean up', 'tech debt']),
+  createPattern('testing', ['test', 'unit test']),
+  createPattern('typescript', ['typescript', 'ts']),
+  createPattern('nextjs', ['next.js']),
+]);
+
+const intentsFor = (message: string) => classifier.classify(message).map((m) => m.pattern.intent);
+
+describe('stem', () => {
+  it('should reduce inflections to a shared stem', () => {
+    expect(stem('tests')).toBe(stem('test'));
+    expect(stem('testing')).toBe(stem('test'));
+    expect(stem('debugging')).toBe(stem('debug'));
+    expect(stem('fixes')).toBe(stem('fix'));
+    expect(stem('released')).toBe(stem('release'));
+    expect(stem('crashes')).toBe(stem('crash'));
+  });
+
+  it('should leave short words alone', () => {
+    expect(stem('ts')).toBe('ts');
+    expect(stem('add')).toBe('add');
+  });
+});
+
+describe('tokenizeMessage', () => {
+  it('should mark words after a negation cue', () => {
+    const tokens = tokenizeMessage("don't want to refactor, just fix it");
+    const negated = tokens.filter((t) => t.negated).map((t) => t.text);
+
+    expect(negated).toEqual(['want', 'to', 'refactor']);
+  });
+
+  it('should end negation at clause breaks', () => {
+    const tokens = tokenizeMessage('not the tests but the bug');
+
+    expect(tokens.find((t) => t.text === 'bug')?.negated).toBe(false);
+  });
+});
+
+describe('IntentClassifier', () => {
+  it('should match on word boundaries only', () => {
+    expect(intentsFor('add a prefix to the tests')).not.toContain('debugging');
+    expect(intentsFor('add a prefix to the tests')).not.toContain('typescript');
+    expect(intentsFor('convert this to ts')).toContain('typescript');
+  });
+
+  it('should match inflected forms', () => {
+    expect(intentsFor('it keeps crashing')).toContain('debugging');
+    expect(intentsFor('fixing tests')).toEqual(expect.arrayContaining(['debugging', 'testing']));
+  });
+
+  it('should ignore negated keywords', () => {
+    const intents = intentsFor("don't want to refactor, just fix the bug");
+
+    expect(intents).toEqual(['debugging']);
+    expect(classifier.classify("don't refactor").length).toBe(0);
+  });
+
+  it('should report negated keywords on intents that still matched', () => {
+    const [match] = classifier.classify('no crash, just a bug');
+
+    expect(match.keywords).toEqual(['bug']);
+    expect(match.negated).toEqual(['crash']);
+  });
+
+  it('should treat a negation inside a keyword phrase as part of it', () => {
+    expect(intentsFor('the login is not working')).toContain('debugging');
+  });
+
+  it('should score phrases above single words', () => {
+    const [match] = classifier.classify('write a unit test');
+
+    expect(match.pattern.intent).toBe('testing');
+    expect(match.score).toBeGreaterThan(classifier.classify('write a test')[0].score);
+  });
+
+  it('should not match phrases across punctuation', () => {
+    expect(intentsFor('clean, up front')).not.toContain('refactoring');
+    expect(intentsFor('please clean up this module')).toContain('refactoring');
+  });
+
+  it('should keep dotted names together', () => {
+    expect(intentsFor('building with Next.js.')).toContain('nextjs');
+  });
+
+  it('should explain which words triggered an intent', () => {
+    const [match] = classifier.classify('Fixing the Bugs');
+
+    expect(match.keywords).toEqual(['bug', 'fix']);
+    expect(match.triggers).toEqual(['bugs', 'fixing']);
+  });
+
+  it('should rank intents by score', () => {
+    const intents = intentsFor('refactor the tech debt and add a test');
+
+    expect(intents[0]).toBe('refactoring');
+  });
+});
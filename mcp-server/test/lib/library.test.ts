@@ -2,10 +2,12 @@
  * Library Manager Tests - Tests for library indexing, search, and suggestions
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs';
 import { join } from 'path';
 import { Library } from '../../src/lib/library.js';
+import { FeedbackStore } from '../../src/lib/feedback.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
 
 // Create a temporary test library
 const TEST_LIB_PATH = join(process.cwd(), '.test-library');
@@ -219,6 +221,19 @@ describe('Library', () => {
       expect(item?.id).toBe('prompts/planning/prd-generator');
     });
 
+    it('should resolve a typo to the item it is closest to when corrections tie', async () => {
+      // Both score the same for "debuger": one by its alias, one by its name
+      const typos = new Library(
+        new MemoryStore({
+          'prompts/analysis/deep-debugger.md': '---\ntitle: Deep Debugger\naliases: [debugger]\n---\n\n# Deep Debugger\n',
+          'prompts/development/debugger.md': '# Debugger\n',
+        })
+      );
+      await typos.initialize();
+
+      expect(typos.getItem('debuger')?.id).toBe('prompts/development/debugger');
+    });
+
     it('should return null for non-existent item', () => {
       const item = library.getItem('non-existent-item-xyz');
 
@@ -232,6 +247,31 @@ describe('Library', () => {
     });
   });
 
+  describe('readItem', () => {
+    it('should read an item from disk before initialization', () => {
+      const fresh = new Library(TEST_LIB_PATH);
+      const item = fresh.readItem('prompts/planning/prd-generator');
+
+      expect(item?.metadata.title).toBe('PRD Generator');
+      expect(fresh.getItem('prompts/planning/prd-generator')).toBeNull();
+    });
+
+    it('should not resolve fuzzy names or paths outside the library', () => {
+      expect(library.readItem('prd')).toBeNull();
+      expect(library.readItem('../package')).toBeNull();
+    });
+  });
+
+  describe('resolveInclude', () => {
+    it('should return the body of an item without a prompt block', () => {
+      expect(library.resolveInclude('snippets/modifiers/ultrathink')).toContain('Think step by step with maximum depth.');
+    });
+
+    it('should only resolve exact IDs', () => {
+      expect(library.resolveInclude('ultrathink')).toBeNull();
+    });
+  });
+
   describe('getByCategory', () => {
     it('should return all items in a category', () => {
       const prompts = library.getByCategory('prompts');
@@ -292,6 +332,223 @@ describe('Library', () => {
     });
   });
 
+  describe('search facets', () => {
+    it('should count the full match set, not just the returned page', async () => {
+      const response = await library.searchDetailed('tag:planning,debugging,review', { limit: 1, facets: true });
+
+      expect(response.results).toHaveLength(1);
+      expect(response.facets?.category).toEqual({ prompts: 2, skills: 1 });
+      expect(response.facets?.subcategory).toEqual({ development: 1, planning: 1 });
+      expect(response.facets?.tag).toMatchObject({ planning: 1, debugging: 1, review: 1 });
+    });
+
+    it('should order values by count', async () => {
+      const response = await library.searchDetailed('tag:planning,debugging,review', { facets: true });
+
+      expect(Object.keys(response.facets!.category)).toEqual(['prompts', 'skills']);
+    });
+
+    it('should omit facets unless requested', async () => {
+      const response = await library.searchDetailed('debugging');
+
+      expect(response.facets).toBeUndefined();
+    });
+  });
+
+  describe('search snippets', () => {
+    it('should attach excerpts with matched words highlighted', () => {
+      const [result] = library.search('"scientific approach"');
+      const [snippet] = result.snippets;
+      const [highlight] = snippet.highlights;
+
+      expect(snippet.text.slice(highlight.start, highlight.end).toLowerCase()).toBe('scientific approach');
+    });
+
+    it('should attach snippets in semantic mode', async () => {
+      const { results } = await library.searchDetailed('systematic debugging', { mode: 'semantic' });
+
+      expect(results[0].snippets.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('structured search', () => {
+    it('should filter results by field', () => {
+      const results = library.search('review category:skills');
+
+      expect(results.map((r) => r.item.id)).toEqual(['skills/code-review']);
+    });
+
+    it('should list items matching filters alone', () => {
+      const results = library.search('tag:planning');
+
+      expect(results.map((r) => r.item.id)).toEqual(['prompts/planning/prd-generator']);
+    });
+
+    it('should exclude negated words', () => {
+      const results = library.search('debugging -scientific');
+
+      expect(results.map((r) => r.item.name)).not.toContain('debugger');
+    });
+
+    it('should match exact phrases', () => {
+      const results = library.search('"scientific approach"');
+
+      expect(results[0].item.name).toBe('debugger');
+    });
+
+    it('should not correct filters, only free-text words', async () => {
+      const filtered = await library.searchDetailed('tag:planing');
+      expect(filtered.correctedQuery).toBeUndefined();
+      expect(filtered.results).toEqual([]);
+
+      const response = await library.searchDetailed('tag:planning scientfic');
+      expect(response.correctedQuery).toBe('tag:planning scientific');
+    });
+  });
+
+  describe('searchDetailed', () => {
+    it('should return results without correction when the query matches', async () => {
+      const response = await library.searchDetailed('debugging');
+
+      expect(response.results.length).toBeGreaterThan(0);
+      expect(response.correctedQuery).toBeUndefined();
+    });
+
+    it('should correct a misspelled query that matches nothing', async () => {
+      const response = await library.searchDetailed('debuging');
+
+      expect(response.correctedQuery).toBe('debugging');
+      expect(response.results[0].item.name).toBe('debugger');
+    });
+
+    it('should return empty results when no correction is possible', async () => {
+      const response = await library.searchDetailed('xyznonexistent123');
+
+      expect(response.results).toEqual([]);
+      expect(response.correctedQuery).toBeUndefined();
+    });
+  });
+
+  describe('semantic search', () => {
+    const doc = (title: string, description: string, body: string) =>
+      `---\ntitle: ${title}\ndescription: ${description}\n---\n\n# ${title}\n\n${body}\n`;
+
+    // Items shaped like the real ones that used to outrank performance
+    // prompts for "my app is slow under load", among others mentioning "app"
+    function semanticLibrary(): Library {
+      return new Library(
+        new MemoryStore({
+          'prompts/analysis/performance-profiler.md': doc(
+            'Performance Profiler',
+            'Find out why a service is slow',
+            'Measure latency and throughput under heavy traffic. Profile the hot path, find the bottleneck, then add caching or fix N+1 queries.'
+          ),
+          'prompts/development/debugger.md': doc(
+            'Debugger',
+            'Systematic debugging',
+            'Reproduce the failure, read the stack trace and find the root cause before changing code.'
+          ),
+          'prompts/operations/incident-response.md': doc(
+            'Incident Response',
+            'Handle production outages',
+            'When the service crashes, capture the stack trace, find the root cause and write a postmortem. Watch latency dashboards for traffic spikes.'
+          ),
+          'prompts/quality/critical-path-tester.md': doc(
+            'Critical Path Tester',
+            'Test the flows users depend on',
+            'List the critical flows of the app, write an end-to-end test for each and check them before every release.'
+          ),
+          'templates/claude-md/auto-enhance.md': doc(
+            'Auto-Enhancement',
+            'Enhance requests with library prompts',
+            'Call enhance_prompt with the request, load the recommended prompts and apply them. Load the chain for larger work in your app.'
+          ),
+          'instructions/standards/nextjs.md': doc(
+            'Next.js Standards',
+            'Conventions for the App Router',
+            'Put routes in app/. Add app/loading.tsx so each page shows a loading state while the app loads data. Keep app components small.'
+          ),
+          'instructions/standards/react.md': doc(
+            'React Standards',
+            'Component conventions',
+            'Keep app state in hooks. Split the app into small components and test each one.'
+          ),
+          'instructions/standards/typescript.md': doc(
+            'TypeScript Standards',
+            'Strict typing rules',
+            'Enable strict mode across the app and prefer unions over enums.'
+          ),
+          'contexts/stacks/fastapi.md': doc(
+            'FastAPI Context',
+            'Python API stack',
+            'Create the app with FastAPI(), add routers for each resource and validate requests with Pydantic.'
+          ),
+          'templates/claude-md/python-api.md': doc(
+            'Python API Template',
+            'Project context for Python services',
+            'Describe the app layout, how to run tests and how to deploy the service.'
+          ),
+          'snippets/modifiers/megathink.md': doc('Megathink', 'Extended reasoning', 'Think through the problem step by step before answering.'),
+          'chains/production-launch.md': `# Production Launch
+
+> Ship to production safely
+
+## Step 1: Load Test
+
+**Prompt:**
+\`\`\`
+Run a load test and check latency and throughput against the traffic you expect.
+\`\`\`
+`,
+        })
+      );
+    }
+
+    it('should rank performance prompts first for performance questions', async () => {
+      const semantic = semanticLibrary();
+      await semantic.initialize();
+
+      const { results } = await semantic.searchDetailed('my app is slow under load', { mode: 'semantic' });
+
+      expect(results[0].item.id).toBe('prompts/analysis/performance-profiler');
+    });
+
+    it('should find items by meaning without keyword overlap', async () => {
+      const semantic = semanticLibrary();
+      await semantic.initialize();
+
+      const { results } = await semantic.searchDetailed('investigate why it crashes', { mode: 'semantic' });
+
+      // The debugger never mentions crashes, but shares stack traces and root causes with an item that does
+      expect(results.map((r) => r.item.id)).toContain('prompts/development/debugger');
+      expect(results.map((r) => r.item.id)).not.toContain('instructions/standards/nextjs');
+    });
+
+    it('should still apply structured filters', async () => {
+      const { results } = await library.searchDetailed('crashes category:skills', { mode: 'semantic' });
+
+      expect(results.every((r) => r.item.category === 'skills')).toBe(true);
+    });
+
+    it('should cache item vectors on disk', async () => {
+      await library.searchDetailed('anything', { mode: 'semantic' });
+
+      expect(existsSync(join(TEST_LIB_PATH, '.cache', 'embeddings.json'))).toBe(true);
+    });
+  });
+
+  describe('didYouMean', () => {
+    it('should suggest items with similar names', () => {
+      const suggestions = library.didYouMean('ultrathnik');
+
+      expect(suggestions[0].id).toBe('snippets/modifiers/ultrathink');
+    });
+
+    it('should respect the limit', () => {
+      expect(library.didYouMean('prompt', 2).length).toBeLessThanOrEqual(2);
+    });
+  });
+
   describe('suggest', () => {
     it('should suggest items based on intent patterns', () => {
       const suggestions = library.suggest('I need to build a new feature');
@@ -301,6 +558,39 @@ describe('Library', () => {
       expect(ids).toContain('prompts/planning/prd-generator');
     });
 
+    it('should report the intent behind each suggestion', () => {
+      const suggestions = library.suggest('custom test');
+
+      expect(suggestions[0].intent).toBe('custom testing');
+    });
+
+    it('should explain which words triggered a suggestion', () => {
+      const [suggestion] = library.suggest('Custom tests please');
+
+      expect(suggestion.triggers).toEqual(['custom tests']);
+      expect(suggestion.reason).toContain('"custom tests"');
+    });
+
+    it('should not suggest intents the message negates', () => {
+      const intents = library.suggest("don't want to refactor, just fix the bug").map((s) => s.intent);
+
+      expect(intents).not.toContain('refactoring');
+      expect(intents).toContain('debugging');
+    });
+
+    it('should re-weight suggestions from recorded feedback', () => {
+      const feedback = new FeedbackStore();
+      library.setFeedbackStore(feedback);
+      const before = library.suggest('custom test')[0];
+
+      feedback.rate(before.item.id, false, 'custom testing');
+      const after = library.suggest('custom test')[0];
+
+      expect(after.confidence).toBeLessThan(before.confidence);
+      expect(after.reason).toContain('lowered by past feedback');
+      library.setFeedbackStore(new FeedbackStore());
+    });
+
     it('should detect debugging intent', () => {
       const suggestions = library.suggest('stuck on a bug in my code');
 
@@ -326,6 +616,16 @@ describe('Library', () => {
       expect(suggestions[0].confidence).toBeLessThanOrEqual(1);
     });
 
+    it('should blend semantic matches into intent suggestions', async () => {
+      const message = 'custom test with deep reasoning';
+      const suggestions = await library.suggestSemantic(message);
+
+      expect(suggestions[0]).toMatchObject({ intent: 'custom testing', item: { id: 'prompts/development/debugger' } });
+      expect(suggestions.map((s) => [s.item.id, s.intent])).toContainEqual(['snippets/modifiers/ultrathink', 'semantic match']);
+      expect(new Set(suggestions.map((s) => s.item.id)).size).toBe(suggestions.length);
+      expect(library.suggest(message).map((s) => s.item.id)).toEqual(['prompts/development/debugger']);
+    });
+
     it('should respect limit parameter', () => {
       const suggestions = library.suggest('build new feature', 2);
 
@@ -419,6 +719,43 @@ describe('Library', () => {
       expect(newItem).not.toBeNull();
       expect(newItem?.id).toBe('skills/new-skill');
     });
+
+    it('should update the search index incrementally', () => {
+      library.savePrompt({
+        category: 'prompts',
+        subcategory: 'quality',
+        name: 'zebra-checker',
+        content: '# Zebra Checker\n\nChecks zebras.',
+      });
+
+      const results = library.search('zebras');
+      expect(results.map((r) => r.item.id)).toEqual(['prompts/quality/zebra-checker']);
+    });
+  });
+
+  describe('index cache', () => {
+    it('should write the parsed index to .cache/index.json', () => {
+      expect(existsSync(join(TEST_LIB_PATH, '.cache', 'index.json'))).toBe(true);
+    });
+
+    it('should rebuild an identical index from the cache', async () => {
+      const cached = new Library(TEST_LIB_PATH, false);
+      await cached.initialize();
+
+      expect(cached.getItem('prompts/planning/prd-generator')).toEqual(library.getItem('prompts/planning/prd-generator'));
+      expect(cached.getChain('new-feature')?.steps).toEqual(library.getChain('new-feature')?.steps);
+      expect(cached.getStats()).toEqual(library.getStats());
+    });
+
+    it('should re-parse files that changed since they were cached', async () => {
+      const path = join(TEST_LIB_PATH, 'skills', 'code-review.md');
+      writeFileSync(path, '---\ntitle: Code Review Skill v2\n---\n\nReview code carefully.\n');
+
+      const rescanned = new Library(TEST_LIB_PATH, false);
+      await rescanned.initialize();
+
+      expect(rescanned.getItem('skills/code-review')?.metadata.title).toBe('Code Review Skill v2');
+    });
   });
 
   describe('getStats', () => {
@@ -445,3 +782,293 @@ describe('Library edge cases', () => {
     expect(uninitializedLib.getStats()).toEqual({ total: 0, byCategory: {} });
   });
 });
+
+describe('Library config', () => {
+  const CONFIG_LIB_PATH = join(process.cwd(), '.test-library-config');
+  const configPath = join(CONFIG_LIB_PATH, 'config', 'intents.json');
+
+  const writeConfig = (patterns: unknown) => writeFileSync(configPath, JSON.stringify(patterns));
+  const zebraPattern = (suggestedItems: string[]) => ({
+    keywords: ['zebra'],
+    intent: 'zebra wrangling',
+    suggestedItems,
+    priority: 5,
+  });
+
+  beforeEach(() => {
+    mkdirSync(join(CONFIG_LIB_PATH, 'prompts', 'planning'), { recursive: true });
+    mkdirSync(join(CONFIG_LIB_PATH, 'config'), { recursive: true });
+    writeFileSync(
+      join(CONFIG_LIB_PATH, 'prompts', 'planning', 'zebra-plan.md'),
+      '---\ntitle: Zebra Plan\n---\n\nPlan for zebras.\n'
+    );
+  });
+
+  afterEach(() => {
+    rmSync(CONFIG_LIB_PATH, { recursive: true, force: true });
+  });
+
+  it('should report a valid config', async () => {
+    writeConfig([zebraPattern(['prompts/planning/zebra-plan'])]);
+    const library = new Library(CONFIG_LIB_PATH, false);
+    await library.initialize();
+
+    const report = library.validateConfig();
+    expect(report.exists).toBe(true);
+    expect(report.patternCount).toBe(1);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should report schema errors with JSON paths and keep the defaults', async () => {
+    writeConfig([zebraPattern(['prompts/planning/zebra-plan']), { ...zebraPattern([]), priority: 11 }]);
+    const library = new Library(CONFIG_LIB_PATH, false);
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await library.initialize();
+    stderr.mockRestore();
+
+    const paths = library.validateConfig().issues.map((i) => i.path);
+    expect(paths).toEqual(expect.arrayContaining(['$[1].suggestedItems', '$[1].priority']));
+    expect(library.suggest('zebra')).toEqual([]);
+  });
+
+  it('should report invalid JSON', async () => {
+    writeFileSync(configPath, '[{ "keywords": ');
+    const library = new Library(CONFIG_LIB_PATH, false);
+
+    const [issue] = library.validateConfig().issues;
+    expect(issue.path).toBe('$');
+    expect(issue.message).toContain('Invalid JSON');
+  });
+
+  it('should warn about suggested items missing from the index', async () => {
+    writeConfig([zebraPattern(['prompts/planning/zebra-plan', 'prompts/planning/zebra-plans-v2'])]);
+    const library = new Library(CONFIG_LIB_PATH, false);
+    await library.initialize();
+
+    const { issues } = library.validateConfig();
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: '$[0].suggestedItems[1]', severity: 'warning' });
+    expect(issues[0].message).toContain('did you mean "prompts/planning/zebra-plan"');
+  });
+
+  it('should check the built-in intents when there is no config file', async () => {
+    const library = new Library(CONFIG_LIB_PATH, false);
+    await library.initialize();
+
+    const report = library.validateConfig();
+    expect(report.exists).toBe(false);
+    expect(report.issues.length).toBeGreaterThan(0);
+    expect(report.issues.every((issue) => issue.severity === 'warning')).toBe(true);
+    expect(report.issues[0]).toMatchObject({
+      path: '$[0].suggestedItems[0]',
+      message: expect.stringContaining('Unknown item "prompts/planning/prd-generator" in built-in intent "starting new feature"'),
+    });
+  });
+
+  it('should hot-reload intents without watching items', async () => {
+    writeConfig([zebraPattern(['prompts/planning/zebra-plan'])]);
+    const library = new Library(CONFIG_LIB_PATH, false);
+    await library.initialize();
+    library.enableConfigWatch();
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      writeConfig([{ ...zebraPattern(['prompts/planning/zebra-plan']), keywords: ['okapi'] }]);
+
+      await vi.waitFor(() => expect(library.suggest('okapi')).toHaveLength(1), { timeout: 5000, interval: 100 });
+      expect(library.isWatching()).toBe(false);
+    } finally {
+      library.disableWatch();
+    }
+  }, 10000);
+
+  it('should hot-reload intents when watching', async () => {
+    writeConfig([zebraPattern(['prompts/planning/zebra-plan'])]);
+    const library = new Library(CONFIG_LIB_PATH, false);
+    await library.initialize();
+    library.enableWatch();
+
+    try {
+      // Give the watcher a moment to start before changing the file
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      writeConfig([{ ...zebraPattern(['prompts/planning/zebra-plan']), keywords: ['okapi'] }]);
+
+      await vi.waitFor(() => expect(library.suggest('okapi')).toHaveLength(1), { timeout: 5000, interval: 100 });
+      expect(library.suggest('zebra')).toEqual([]);
+    } finally {
+      library.disableWatch();
+    }
+  }, 10000);
+});
+
+describe('Library writes', () => {
+  const WRITE_LIB_PATH = join(process.cwd(), '.test-library-writes');
+  const promptPath = join(WRITE_LIB_PATH, 'prompts', 'planning', 'zebra-plan.md');
+  let library: Library;
+
+  beforeEach(async () => {
+    mkdirSync(join(WRITE_LIB_PATH, 'prompts', 'planning'), { recursive: true });
+    writeFileSync(promptPath, '---\ntitle: Zebra Plan\ntags:\n  - zebra\n---\n\nPlan for zebras.\n');
+    library = new Library(WRITE_LIB_PATH, false);
+    await library.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(WRITE_LIB_PATH, { recursive: true, force: true });
+  });
+
+  const current = () => library.getItem('prompts/planning/zebra-plan')!;
+  const planningIds = () => library.getByCategory('prompts').map((i) => i.id);
+
+  describe('saveItem', () => {
+    const request = { category: 'prompts' as const, subcategory: 'planning', name: 'zebra-plan', content: 'Replaced.' };
+
+    it('should refuse to replace an existing item', () => {
+      const result = library.saveItem(request);
+
+      expect(result.item).toBeNull();
+      expect(result.error).toContain('"prompts/planning/zebra-plan" already exists');
+      expect(readFileSync(promptPath, 'utf-8')).toContain('Plan for zebras.');
+    });
+
+    it('should replace an item with overwrite without duplicating it in the index', () => {
+      const { item } = library.saveItem({ ...request, overwrite: true });
+
+      expect(item?.body).toBe('Replaced.');
+      expect(planningIds()).toEqual(['prompts/planning/zebra-plan']);
+      expect(library.search('zebras')).toEqual([]);
+    });
+
+    it('should replace an item whose hash matches', () => {
+      expect(library.saveItem({ ...request, expectedHash: library.itemHash(current()) }).item).not.toBeNull();
+      expect(library.saveItem({ ...request, expectedHash: 'stale' }).error).toContain('has changed since it was read');
+    });
+  });
+
+  describe('updateItem', () => {
+    it('should replace the body and merge frontmatter', () => {
+      const { item } = library.updateItem({
+        id: 'prompts/planning/zebra-plan',
+        content: 'Plan for okapis.',
+        metadata: { description: 'Okapi planning' },
+        overwrite: true,
+      });
+
+      expect(item?.body).toBe('Plan for okapis.');
+      expect(item?.metadata).toMatchObject({ title: 'Zebra Plan', description: 'Okapi planning', tags: ['zebra'] });
+      expect(library.search('okapis').map((r) => r.item.id)).toEqual(['prompts/planning/zebra-plan']);
+    });
+
+    it('should require overwrite or a matching hash', () => {
+      const id = 'prompts/planning/zebra-plan';
+      expect(library.updateItem({ id, content: 'x' }).error).toContain('pass overwrite or its expected hash');
+
+      const hash = library.itemHash(current());
+      writeFileSync(promptPath, 'Edited elsewhere.\n');
+      expect(library.updateItem({ id, content: 'x', expectedHash: hash }).error).toContain('has changed since it was read');
+      expect(readFileSync(promptPath, 'utf-8')).toBe('Edited elsewhere.\n');
+    });
+
+    it('should only touch items inside the category folders', () => {
+      expect(library.updateItem({ id: '../../package', content: 'x', overwrite: true }).error).toBe('Item "../../package" not found');
+      expect(library.updateItem({ id: 'prompts/../config/x', content: 'x', overwrite: true }).item).toBeNull();
+    });
+  });
+
+  describe('moveItem', () => {
+    it('should move the file and re-key the index', () => {
+      const { item } = library.moveItem({ id: 'prompts/planning/zebra-plan', category: 'snippets', name: 'zebra' });
+
+      expect(item?.id).toBe('snippets/zebra');
+      expect(existsSync(promptPath)).toBe(false);
+      expect(existsSync(join(WRITE_LIB_PATH, 'snippets', 'zebra.md'))).toBe(true);
+      expect(planningIds()).toEqual([]);
+      expect(library.search('zebras').map((r) => r.item.id)).toEqual(['snippets/zebra']);
+    });
+
+    it('should refuse to replace an item at the destination without overwrite', () => {
+      library.saveItem({ category: 'prompts', subcategory: 'planning', name: 'okapi-plan', content: 'Plan for okapis.' });
+      const move = { id: 'prompts/planning/zebra-plan', category: 'prompts' as const, subcategory: 'planning', name: 'okapi-plan' };
+
+      expect(library.moveItem(move).error).toContain('"prompts/planning/okapi-plan" already exists');
+      expect(library.moveItem({ ...move, overwrite: true }).item?.body).toBe('Plan for zebras.');
+      expect(planningIds()).toEqual(['prompts/planning/okapi-plan']);
+    });
+  });
+
+  describe('revisions', () => {
+    const id = 'prompts/planning/zebra-plan';
+
+    it('should snapshot the original content before the first write', () => {
+      library.updateItem({ id, content: 'Plan for okapis.', overwrite: true, message: 'Switch animals' });
+
+      const revisions = library.listRevisions(id)!;
+      expect(revisions.map((r) => [r.revision, r.action, r.message])).toEqual([
+        [1, 'snapshot', undefined],
+        [2, 'update', 'Switch animals'],
+      ]);
+      expect(revisions[1].hash).toBe(library.itemHash(current()));
+    });
+
+    it('should diff revisions against each other and the current content', () => {
+      library.updateItem({ id, content: 'Plan for okapis.', overwrite: true });
+
+      expect(library.diffRevisions(id, 1, 2).diff).toContain('-Plan for zebras.\n+Plan for okapis.');
+      expect(library.diffRevisions(id, 2).diff).toBe('');
+      expect(library.diffRevisions(id, 9).error).toBe('"prompts/planning/zebra-plan" has no revision 9');
+    });
+
+    it('should restore an earlier revision as a new revision', () => {
+      library.updateItem({ id, content: 'Plan for okapis.', overwrite: true });
+      const { item } = library.restoreRevision({ id, revision: 1 });
+
+      expect(item?.body).toBe('Plan for zebras.');
+      expect(library.search('zebras').map((r) => r.item.id)).toEqual([id]);
+      expect(library.listRevisions(id)?.map((r) => r.action)).toEqual(['snapshot', 'update', 'restore']);
+    });
+
+    it('should bring back deleted items', () => {
+      library.deleteItem({ id });
+      const [deleted] = library.listRevisions(id)!.slice(-1);
+      expect(deleted.action).toBe('delete');
+
+      expect(library.restoreRevision({ id, revision: deleted.revision }).item?.body).toBe('Plan for zebras.');
+      expect(existsSync(promptPath)).toBe(true);
+    });
+
+    it('should record moves in both histories', () => {
+      library.moveItem({ id, category: 'snippets', name: 'zebra' });
+
+      expect(library.listRevisions(id)?.map((r) => r.message)).toEqual(['(moved to snippets/zebra)']);
+      expect(library.listRevisions('snippets/zebra')?.map((r) => r.message)).toEqual([`(moved from ${id})`]);
+    });
+
+    it('should keep the history out of the index', async () => {
+      library.updateItem({ id, content: 'Plan for okapis.', overwrite: true });
+      const rescanned = new Library(WRITE_LIB_PATH, false);
+      await rescanned.initialize();
+
+      expect(rescanned.getStats().total).toBe(1);
+      expect(library.listRevisions('../outside')).toBeNull();
+    });
+  });
+
+  describe('deleteItem', () => {
+    it('should remove the file and the index entries', () => {
+      const { item } = library.deleteItem({ id: 'prompts/planning/zebra-plan' });
+
+      expect(item?.id).toBe('prompts/planning/zebra-plan');
+      expect(existsSync(promptPath)).toBe(false);
+      expect(library.getItem('prompts/planning/zebra-plan')).toBeNull();
+      expect(library.search('zebras')).toEqual([]);
+      expect(library.getStats().total).toBe(0);
+    });
+
+    it('should keep an item whose hash no longer matches', () => {
+      const result = library.deleteItem({ id: 'prompts/planning/zebra-plan', expectedHash: 'stale' });
+
+      expect(result.error).toContain('has changed since it was read');
+      expect(existsSync(promptPath)).toBe(true);
+    });
+  });
+});
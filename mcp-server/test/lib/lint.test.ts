@@ -0,0 +1,207 @@
+/**
+ * Lint Tests - Tests for the library lint rules and output formats
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { lintLibrary, formatLintText, formatLintSarif } from '../../src/lib/lint.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
+import { Library } from '../../src/lib/library.js';
+
+const CLEAN = '---\ntitle: Clean\ndescription: Nothing to report\n---\n# Clean\n';
+
+// An empty config keeps the built-in intents, whose items these fixtures
+// lack, out of every test but the one about them
+async function lint(files: Record<string, string>, rules?: string[]) {
+  const library = new Library(new MemoryStore({ 'config/intents.json': '[]', ...files }));
+  await library.initialize();
+  return lintLibrary(library, { rules, maxBodyLength: 200 });
+}
+
+describe('lintLibrary', () => {
+  it('should report nothing for a clean library', async () => {
+    const result = await lint({ 'prompts/clean.md': CLEAN });
+
+    expect(result).toEqual({ itemCount: 1, errorCount: 0, warningCount: 0, issues: [] });
+  });
+
+  it('should report missing titles and descriptions', async () => {
+    const { issues } = await lint({ 'snippets/bare.md': '' });
+
+    expect(issues.map((i) => i.rule)).toEqual(['missing-title', 'missing-description']);
+    expect(issues[0]).toMatchObject({ severity: 'warning', itemId: 'snippets/bare', path: 'snippets/bare.md' });
+  });
+
+  it('should report names shared across categories', async () => {
+    const { issues } = await lint({ 'prompts/review.md': CLEAN, 'skills/review.md': CLEAN }, ['duplicate-name']);
+
+    expect(issues.map((i) => i.message)).toEqual([
+      'Name "review" is also used by skills/review',
+      'Name "review" is also used by prompts/review',
+    ]);
+  });
+
+  it('should report broken related, include and intent references with their line', async () => {
+    const result = await lint({
+      'prompts/clean.md': CLEAN,
+      'prompts/audit.md': '---\ntitle: Audit\ndescription: d\nrelated:\n  - prompts/clean\n  - prompts/gone\n---\n# Audit\n\n{{> snippets/missing}}\n',
+      'config/intents.json': JSON.stringify([{ keywords: ['audit'], intent: 'audit', suggestedItems: ['prompts/nope'], priority: 1 }]),
+    });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ rule: 'broken-intent', severity: 'warning', path: 'config/intents.json' }),
+      { rule: 'broken-related', severity: 'error', itemId: 'prompts/audit', path: 'prompts/audit.md', line: 6, message: 'Related item "prompts/gone" does not exist' },
+      expect.objectContaining({ rule: 'broken-include', line: 10, message: 'Included item "snippets/missing" does not exist' }),
+    ]);
+    expect(result.errorCount).toBe(2);
+  });
+
+  it('should check the built-in intents when there is no config file', async () => {
+    const library = new Library(new MemoryStore({ 'skills/project-setup.md': CLEAN }));
+    await library.initialize();
+    const { issues } = await lintLibrary(library, { rules: ['broken-intent'] });
+
+    expect(issues).toContainEqual({
+      rule: 'broken-intent',
+      severity: 'warning',
+      message: '$[12].suggestedItems[1]: Unknown item "templates/claude-md/full" in built-in intent "project setup"',
+    });
+    expect(issues.every((issue) => issue.path === undefined)).toBe(true);
+  });
+
+  it('should report chains with no steps or an empty step prompt', async () => {
+    const { issues } = await lint(
+      {
+        'chains/empty.md': '# Empty\n\nNo steps here.\n',
+        'chains/hollow.md': '# Hollow\n\n## Step 1: Plan\n\n**Prompt:**\n```\nPlan it.\n```\n\n## Step 2: Build\n\nNo prompt yet.\n',
+      },
+      ['empty-chain']
+    );
+
+    expect(issues.map((i) => i.message)).toEqual(['Chain has no ## Step sections', 'Step 2 (Build) has an empty prompt']);
+  });
+
+  it('should report chain steps that use missing items', async () => {
+    const { issues } = await lint(
+      {
+        'snippets/terse.md': CLEAN,
+        'chains/fix.md': '# Fix\n\n## Step 1: Plan\n\n**Prompt:**\n```\nPlan.\n```\n\n## Step 2: Patch\n\n**Use:** prompts/patcher + terse\n',
+      },
+      ['broken-step-reference', 'empty-chain']
+    );
+
+    expect(issues).toEqual([
+      {
+        rule: 'broken-step-reference',
+        severity: 'error',
+        itemId: 'chains/fix',
+        path: 'chains/fix.md',
+        line: 10,
+        message: 'Step 2 (Patch) uses "prompts/patcher", which is not in the library',
+      },
+    ]);
+  });
+
+  it('should report step references that only loosely match an item', async () => {
+    const { issues } = await lint(
+      {
+        'prompts/development/debugger.md': CLEAN,
+        'chains/fix.md': '# Fix\n\n## Step 1: Diagnose\n\n**Use:** prompts/debugger\n',
+      },
+      ['broken-step-reference']
+    );
+
+    expect(issues.map((i) => i.message)).toEqual([
+      'Step 1 (Diagnose) uses "prompts/debugger", which is not in the library - did you mean "prompts/development/debugger"?',
+    ]);
+  });
+
+  it('should report branches to steps the chain does not have', async () => {
+    const { issues } = await lint(
+      {
+        'chains/triage.md': '# Triage\n\n## Step 1: Reproduce\n\n**Decision Point:** Reproduced? yes → Step 2, no → Step 1b\n\n## Step 2: Fix\n\n**Decision Point:** Done? yes → end\n',
+      },
+      ['broken-branch']
+    );
+
+    expect(issues).toEqual([
+      {
+        rule: 'broken-branch',
+        severity: 'error',
+        itemId: 'chains/triage',
+        path: 'chains/triage.md',
+        line: 5,
+        message: 'Step 1 (Reproduce) routes "no" to step 1b, which does not exist',
+      },
+    ]);
+  });
+
+  it('should report invalid chain definitions with their line', async () => {
+    const { issues } = await lint({
+      'chains/triage.chain.yaml': 'name: Triage\ndescription: d\nsteps:\n  - title: One\n    prompt: Go\n    branches:\n      yes: 2\n',
+    });
+
+    expect(issues).toEqual([
+      {
+        rule: 'invalid-chain-definition',
+        severity: 'error',
+        itemId: 'chains/triage',
+        path: 'chains/triage.chain.yaml',
+        line: 7,
+        message: '$.steps[0].branches.yes: No step "2" (steps: 1 or end)',
+      },
+    ]);
+  });
+
+  it('should report undeclared placeholders only in items that declare variables', async () => {
+    const { issues } = await lint(
+      {
+        'prompts/idea.md': '---\ntitle: Idea\ndescription: d\nvariables:\n  - name: your_idea\n---\n# Idea\n\nSee [the docs](https://example.com).\n\n## Prompt\n\n```\nBuild [your idea] for [audience].\n- [ ] tested\n- [x] reviewed\n```\n',
+        'skills/guide.md': '# Guide\n\nFill in [your section] here.\n',
+      },
+      ['undeclared-placeholder']
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ itemId: 'prompts/idea', line: 14, message: expect.stringContaining('[audience]') });
+  });
+
+  it('should report oversized bodies', async () => {
+    const { issues } = await lint({ 'prompts/long.md': `# Long\n\n${'word '.repeat(100)}` }, ['oversized-body']);
+
+    expect(issues[0].message).toMatch(/^Body is \d+ characters \(maximum 200\)$/);
+  });
+
+  it('should reject unknown rules', async () => {
+    await expect(lint({}, ['no-such-rule'])).rejects.toThrow('Unknown lint rule(s): no-such-rule');
+  });
+});
+
+describe('lint output', () => {
+  let result: Awaited<ReturnType<typeof lint>>;
+
+  beforeEach(async () => {
+    result = await lint({ 'prompts/audit.md': '---\ntitle: Audit\ndescription: d\nrelated: [prompts/gone]\n---\n# Audit\n' });
+  });
+
+  it('should format text with locations and a summary', () => {
+    expect(formatLintText(result).split('\n')).toEqual([
+      'prompts/audit.md:4  error  Related item "prompts/gone" does not exist  [broken-related]',
+      '1 items checked: 1 error(s), 0 warning(s)',
+    ]);
+  });
+
+  it('should format SARIF 2.1.0', () => {
+    const sarif = JSON.parse(formatLintSarif(result));
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules.map((r: { id: string }) => r.id)).toContain('broken-related');
+    expect(sarif.runs[0].results).toEqual([
+      {
+        ruleId: 'broken-related',
+        level: 'error',
+        message: { text: 'Related item "prompts/gone" does not exist' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'prompts/audit.md' }, region: { startLine: 4 } } }],
+      },
+    ]);
+  });
+});
@@ -10,7 +10,11 @@ import {
   createSearchableText,
   normalizeName,
   fuzzyMatch,
+  editDistance,
   parseChain,
+  extractPromptBlock,
+  extractSection,
+  extractPromptSection,
 } from '../../src/lib/parser.js';
 import type { LibraryItem, LibraryItemMetadata } from '../../src/types.js';
 
@@ -204,6 +208,31 @@ describe('fuzzyMatch', () => {
     const score = fuzzyMatch('debuger', 'debugger');
     expect(score).toBeGreaterThan(0);
   });
+
+  it('should score transposed characters as close matches', () => {
+    expect(fuzzyMatch('secruity-audit', 'security-audit')).toBeGreaterThanOrEqual(0.5);
+  });
+});
+
+describe('editDistance', () => {
+  it('should return 0 for identical strings', () => {
+    expect(editDistance('security', 'security')).toBe(0);
+  });
+
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('debuger', 'debugger')).toBe(1);
+    expect(editDistance('testing', 'testin')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+
+  it('should count an adjacent transposition as one edit', () => {
+    expect(editDistance('secruity', 'security')).toBe(1);
+  });
+
+  it('should handle empty strings', () => {
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('abc', '')).toBe(3);
+  });
 });
 
 describe('createSearchableText', () => {
@@ -262,6 +291,46 @@ describe('createSearchableText', () => {
   });
 });
 
+describe('extractPromptBlock', () => {
+  it('should return the first code block without its language tag', () => {
+    const body = '# Title\n\n## Prompt\n\n```xml\n<role>Reviewer</role>\n```\n\n```\nSecond\n```';
+    expect(extractPromptBlock(body)).toBe('<role>Reviewer</role>');
+  });
+
+  it('should return undefined without a code block', () => {
+    expect(extractPromptBlock('Just text with `inline` code')).toBeUndefined();
+  });
+});
+
+describe('extractSection', () => {
+  it('should ignore headings inside code blocks', () => {
+    const body = '## Prompt\n\n```\n## 1. Fact-Finding\n```\n\n## Usage Tips\n- Tip';
+    expect(extractSection(body, /^## Prompt$/)).toBe('```\n## 1. Fact-Finding\n```');
+  });
+
+  it('should run to the end of the body without a following heading', () => {
+    expect(extractSection('# Title\n\n## Prompt\nDo it.\n### Detail\nMore.', /^## Prompt$/)).toBe('Do it.\n### Detail\nMore.');
+    expect(extractSection('# Title', /^## Prompt$/)).toBeUndefined();
+  });
+});
+
+describe('extractPromptSection', () => {
+  it('should prefer the code block in the prompt section', () => {
+    const body = '## Example\n\n```\nNot this\n```\n\n## Prompt\n\nPaste this:\n\n````md\nUse ```code``` here\n````';
+    expect(extractPromptSection(body)).toBe('Use ```code``` here');
+  });
+
+  it('should accept snippet headings and plain prompt sections', () => {
+    expect(extractPromptSection('## The Snippet\n\n### Minimal\n```\nUltrathink.\n```')).toBe('Ultrathink.');
+    expect(extractPromptSection('## Prompt\n\nJust say hi.\n\n## Tips')).toBe('Just say hi.');
+  });
+
+  it('should fall back to the first code block, then the body', () => {
+    expect(extractPromptSection('# T\n\n```\nBlock\n```')).toBe('Block');
+    expect(extractPromptSection('  Plain body  ')).toBe('Plain body');
+  });
+});
+
 describe('parseChain', () => {
   it('should parse a complete chain document', () => {
     const mockItem: LibraryItem = {
@@ -392,4 +461,82 @@ Do the thing.
 
     expect(chain.name).toBe('Just some content without a title.');
   });
+
+  it('should read declared variables from frontmatter', () => {
+    const mockItem: LibraryItem = {
+      id: 'chains/with-variables',
+      name: 'with-variables',
+      category: 'chains',
+      path: '/test/chains/with-variables.md',
+      relativePath: 'chains/with-variables.md',
+      content: '',
+      body: '# Chain\n\n## Step 1: Start\n\n**Prompt:**\n```\nFix [bug]\n```',
+      metadata: { variables: [{ name: 'bug', required: true, placeholder: '[bug]' }] },
+      searchableText: '',
+      modifiedAt: new Date(),
+    };
+
+    const chain = parseChain(mockItem);
+
+    expect(chain.variables).toEqual([{ name: 'bug', type: 'string', required: true, placeholder: '[bug]' }]);
+  });
+
+  it('should record the item and modifiers a step uses', () => {
+    const mockItem: LibraryItem = {
+      id: 'chains/uses',
+      name: 'uses',
+      category: 'chains',
+      path: '/test/chains/uses.md',
+      relativePath: 'chains/uses.md',
+      content: '',
+      body: '# Chain\n\n## Step 1: Diagnose\n\n**Use:** `prompts/analysis/deep-debugger` + ultrathink + step-by-step\n\n## Step 2: Fix\n\n**Prompt:**\n```\nFix it.\n```',
+      metadata: {},
+      searchableText: '',
+      modifiedAt: new Date(),
+    };
+
+    const chain = parseChain(mockItem);
+
+    expect(chain.steps[0].use).toEqual({ reference: 'prompts/analysis/deep-debugger', modifiers: ['ultrathink', 'step-by-step'] });
+    expect(chain.steps[0].prompt).toBe('');
+    expect(chain.steps[1].use).toBeUndefined();
+  });
+
+  it('should number lettered steps by position and read decision point branches', () => {
+    const mockItem: LibraryItem = {
+      id: 'chains/branches',
+      name: 'branches',
+      category: 'chains',
+      path: '/test/chains/branches.md',
+      relativePath: 'chains/branches.md',
+      content: '',
+      body: [
+        '# Chain',
+        '## Step 1: Reproduce\n\n**Decision Point:** Can we reproduce? yes → Step 2, no -> Step 1b',
+        '## Step 1b: Gather Info\n\n**Decision Point:** Reproduced now?\n- yes → Step 2\n- `give up` => end',
+        '## Step 2: Fix\n\n**Decision Point:** Ship it when the tests pass.',
+      ].join('\n\n'),
+      metadata: {},
+      searchableText: '',
+      modifiedAt: new Date(),
+    };
+
+    const chain = parseChain(mockItem);
+
+    expect(chain.steps.map((s) => [s.stepNumber, s.label, s.title])).toEqual([
+      [1, undefined, 'Reproduce'],
+      [2, '1b', 'Gather Info'],
+      [3, '2', 'Fix'],
+    ]);
+    expect(chain.steps[0].branches).toEqual([
+      { outcome: 'yes', step: '2' },
+      { outcome: 'no', step: '1b' },
+    ]);
+    expect(chain.steps[1].decisionPoint).toBe('Reproduced now?');
+    expect(chain.steps[1].branches).toEqual([
+      { outcome: 'yes', step: '2' },
+      { outcome: 'give up', step: 'end' },
+    ]);
+    expect(chain.steps[2].branches).toBeUndefined();
+  });
 });
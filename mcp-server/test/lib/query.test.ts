@@ -0,0 +1,181 @@
+/**
+ * Query Parser Tests - Tests for structured search query parsing and matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseQuery, matchesQuery, matchesFilter, hasConstraints, freeTextRanges } from '../../src/lib/query.js';
+import type { LibraryItem, LibraryItemMetadata } from '../../src/types.js';
+
+function createItem(
+  id: string,
+  body: string,
+  metadata: LibraryItemMetadata = {},
+  modifiedAt = new Date('2025-06-01T00:00:00Z')
+): LibraryItem {
+  const [category, ...rest] = id.split('/');
+  return {
+    id,
+    name: rest[rest.length - 1],
+    category: category as LibraryItem['category'],
+    subcategory: rest.length > 1 ? rest[0] : undefined,
+    path: `/lib/${id}.md`,
+    relativePath: `${id}.md`,
+    content: body,
+    body,
+    metadata,
+    searchableText: '',
+    modifiedAt,
+  };
+}
+
+describe('parseQuery', () => {
+  it('should parse plain words as terms', () => {
+    const parsed = parseQuery('security audit');
+
+    expect(parsed.terms).toEqual(['security', 'audit']);
+    expect(hasConstraints(parsed)).toBe(false);
+  });
+
+  it('should parse quoted phrases', () => {
+    const parsed = parseQuery('find the "root cause" fast');
+
+    expect(parsed.phrases).toEqual(['root cause']);
+    expect(parsed.terms).toEqual(['find', 'the', 'fast']);
+  });
+
+  it('should parse negation with - and NOT', () => {
+    const parsed = parseQuery('-legacy NOT deprecated -"old stuff"');
+
+    expect(parsed.excluded).toEqual(['legacy', 'deprecated', 'old stuff']);
+    expect(parsed.terms).toEqual([]);
+  });
+
+  it('should parse required terms with + and AND', () => {
+    const parsed = parseQuery('+auth session AND token OR cookie');
+
+    expect(parsed.required).toEqual(['auth', 'session', 'token']);
+    expect(parsed.terms).toEqual(['auth', 'session', 'token', 'cookie']);
+  });
+
+  it('should parse field filters with aliases and alternatives', () => {
+    const parsed = parseQuery('tags:security,auth category:prompts -tag:legacy');
+
+    expect(parsed.filters).toEqual([
+      { field: 'tag', operator: '=', values: ['security', 'auth'], negated: false },
+      { field: 'category', operator: '=', values: ['prompts'], negated: false },
+      { field: 'tag', operator: '=', values: ['legacy'], negated: true },
+    ]);
+  });
+
+  it('should parse comparison operators and quoted filter values', () => {
+    const parsed = parseQuery('updated:>=2025-01-01 author:"Alice Smith"');
+
+    expect(parsed.filters[0]).toEqual({
+      field: 'updated',
+      operator: '>=',
+      values: ['2025-01-01'],
+      negated: false,
+    });
+    expect(parsed.filters[1].values).toEqual(['Alice Smith']);
+  });
+
+  it('should only treat uppercase words as operators', () => {
+    const parsed = parseQuery('not and or');
+
+    expect(parsed.terms).toEqual(['not', 'and', 'or']);
+    expect(parsed.excluded).toEqual([]);
+  });
+
+  it('should handle an unterminated quote', () => {
+    const parsed = parseQuery('"root cause');
+
+    expect(parsed.phrases).toEqual(['root cause']);
+  });
+});
+
+describe('freeTextRanges', () => {
+  it('should locate free-text words but not filters, phrases, exclusions or operators', () => {
+    const query = 'audit tag:security "root cause" -legacy NOT old AND +auth';
+    const words = freeTextRanges(query).map(([start, end]) => query.slice(start, end));
+
+    expect(words).toEqual(['audit', 'auth']);
+  });
+});
+
+describe('matchesFilter', () => {
+  const item = createItem('prompts/quality/security-audit', 'Audit body', {
+    tags: ['security', 'Audit'],
+    author: 'alice',
+    version: 3,
+    updated: '2025-03-15',
+  });
+
+  it('should match tags case-insensitively', () => {
+    expect(matchesFilter(item, parseQuery('tag:audit').filters[0])).toBe(true);
+    expect(matchesFilter(item, parseQuery('tag:legacy').filters[0])).toBe(false);
+  });
+
+  it('should match category, subcategory and metadata fields', () => {
+    expect(matchesFilter(item, parseQuery('category:prompts').filters[0])).toBe(true);
+    expect(matchesFilter(item, parseQuery('subcategory:quality').filters[0])).toBe(true);
+    expect(matchesFilter(item, parseQuery('author:alice').filters[0])).toBe(true);
+    expect(matchesFilter(item, parseQuery('author:bob').filters[0])).toBe(false);
+  });
+
+  it('should compare dates', () => {
+    expect(matchesFilter(item, parseQuery('updated:>2025-01-01').filters[0])).toBe(true);
+    expect(matchesFilter(item, parseQuery('updated:<2025-01-01').filters[0])).toBe(false);
+    expect(matchesFilter(item, parseQuery('updated:2025-03').filters[0])).toBe(true);
+  });
+
+  it('should fall back to modifiedAt when updated is not set', () => {
+    const plain = createItem('skills/debugging', 'Body');
+
+    expect(matchesFilter(plain, parseQuery('updated:>2025-05-01').filters[0])).toBe(true);
+    expect(matchesFilter(plain, parseQuery('updated:>2025-07-01').filters[0])).toBe(false);
+  });
+
+  it('should compare numbers', () => {
+    expect(matchesFilter(item, parseQuery('version:>=3').filters[0])).toBe(true);
+    expect(matchesFilter(item, parseQuery('version:>3').filters[0])).toBe(false);
+  });
+
+  it('should invert negated filters', () => {
+    expect(matchesFilter(item, parseQuery('-tag:security').filters[0])).toBe(false);
+    expect(matchesFilter(item, parseQuery('-tag:legacy').filters[0])).toBe(true);
+  });
+
+  it('should not match missing fields', () => {
+    expect(matchesFilter(item, parseQuery('reviewer:carol').filters[0])).toBe(false);
+  });
+});
+
+describe('matchesQuery', () => {
+  const item = createItem('prompts/analysis/deep-debugger', 'Find the root cause before fixing.', {
+    title: 'Deep Debugger',
+    tags: ['debugging'],
+  });
+
+  it('should require phrases to appear verbatim', () => {
+    expect(matchesQuery(item, parseQuery('"root cause"'))).toBe(true);
+    expect(matchesQuery(item, parseQuery('"cause root"'))).toBe(false);
+  });
+
+  it('should reject items containing excluded words', () => {
+    expect(matchesQuery(item, parseQuery('-fixing'))).toBe(false);
+    expect(matchesQuery(item, parseQuery('-legacy'))).toBe(true);
+  });
+
+  it('should not treat substrings as word matches', () => {
+    expect(matchesQuery(item, parseQuery('-fix'))).toBe(true);
+  });
+
+  it('should require all required words', () => {
+    expect(matchesQuery(item, parseQuery('+root +cause'))).toBe(true);
+    expect(matchesQuery(item, parseQuery('+root +legacy'))).toBe(false);
+  });
+
+  it('should ignore free-text terms', () => {
+    expect(matchesQuery(item, parseQuery('anything at all'))).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { renderPrompt } from '../../src/lib/render.js';
+import type { LibraryItem, LibraryItemMetadata } from '../../src/types.js';
+
+function createItem(body: string, metadata: LibraryItemMetadata = {}): LibraryItem {
+  return {
+    id: 'prompts/planning/prd-generator',
+    name: 'prd-generator',
+    category: 'prompts',
+    subcategory: 'planning',
+    path: '/library/prompts/planning/prd-generator.md',
+    relativePath: 'prompts/planning/prd-generator.md',
+    content: body,
+    body,
+    metadata,
+    searchableText: '',
+    modifiedAt: new Date(),
+  };
+}
+
+const PRD = createItem(`# PRD Generator
+
+## Variables
+- \`[your idea]\` - Brief description of what you want to build
+- \`[context]\` - (Optional) Existing tech stack
+- \`[audience]\` - Who the PRD is for
+
+## Prompt
+
+\`\`\`
+Write a PRD for [your idea].
+{{#if context}}
+Our stack: [context]
+{{/if}}
+## Scope
+Keep it to {{pages | default: "2"}} pages.
+\`\`\`
+
+## Usage Tips
+- Share it with [audience]`);
+
+describe('renderPrompt', () => {
+  it('should render only the prompt section', () => {
+    const result = renderPrompt(PRD, { your_idea: 'a habit tracker', context: 'Next.js' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.text).toBe('Write a PRD for a habit tracker.\nOur stack: Next.js\n## Scope\nKeep it to 2 pages.');
+  });
+
+  it('should render the whole body when asked', () => {
+    const result = renderPrompt(PRD, { your_idea: 'a habit tracker', audience: 'engineers' }, { scope: 'body' });
+
+    expect(result.text).toContain('# PRD Generator');
+    expect(result.text).toContain('Share it with engineers');
+  });
+
+  it('should only require variables the rendered text uses', () => {
+    // [audience] is required but only appears under Usage Tips
+    const result = renderPrompt(PRD, { 'your idea': 'a CLI' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.variables.map((v) => v.name)).toEqual(['your_idea', 'context', 'pages']);
+  });
+
+  it('should report missing required variables', () => {
+    const result = renderPrompt(PRD, {});
+
+    expect(result.text).toBe('');
+    expect(result.errors).toEqual(['Missing required variable "your_idea" (Brief description of what you want to build)']);
+  });
+
+  it('should report unfilled and unused variables', () => {
+    const result = renderPrompt(PRD, { your_idea: 'a CLI', colour: 'blue' });
+
+    expect(result.unfilled.map((v) => v.name)).toEqual(['context', 'pages']);
+    expect(result.unused).toEqual(['colour']);
+    expect(result.text).not.toContain('Our stack');
+  });
+
+  it('should substitute undeclared [variable] references', () => {
+    const item = createItem('## Prompt\n\n```\nTest the [critical path] with [framework].\n```');
+    const result = renderPrompt(item, { critical_path: 'checkout', framework: 'Vitest' });
+
+    expect(result.text).toBe('Test the checkout with Vitest.');
+    expect(result.unused).toEqual([]);
+  });
+
+  it('should resolve includes', () => {
+    const item = createItem('## Prompt\n\n```\nPlan it.\n{{> snippets/modifiers/ultrathink}}\n```');
+    const result = renderPrompt(item, {}, { include: (id) => (id === 'snippets/modifiers/ultrathink' ? 'Ultrathink.' : null) });
+
+    expect(result.text).toBe('Plan it.\nUltrathink.');
+  });
+
+  it('should return template errors instead of throwing', () => {
+    const item = createItem('## Prompt\n\n```\n{{> missing/item}}\n```');
+
+    expect(renderPrompt(item, {}).errors).toEqual(['prompts/planning/prd-generator: Unknown include "missing/item" on line 1']);
+    expect(renderPrompt(createItem('{{#if x}}'), {}).errors).toEqual(['prompts/planning/prd-generator: Unclosed {{#if}} from line 1']);
+  });
+});
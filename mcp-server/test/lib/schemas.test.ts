@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateIntentPatterns, IntentPatternSchema } from '../../src/lib/schemas.js';
+import { validateIntentPatterns, IntentPatternSchema, IntentPatternsSchema, checkSchema, formatJsonPath } from '../../src/lib/schemas.js';
 
 describe('validateIntentPatterns', () => {
   it('should validate correct intent patterns', () => {
@@ -80,3 +80,35 @@ describe('validateIntentPatterns', () => {
     expect(result).toHaveLength(2);
   });
 });
+
+describe('formatJsonPath', () => {
+  it('should format array indexes and object keys', () => {
+    expect(formatJsonPath([])).toBe('$');
+    expect(formatJsonPath([3, 'suggestedItems', 1])).toBe('$[3].suggestedItems[1]');
+  });
+});
+
+describe('checkSchema', () => {
+  it('should return patterns and no issues for valid data', () => {
+    const patterns = [{ keywords: ['test'], intent: 'testing', suggestedItems: ['prompts/test'], priority: 5 }];
+
+    expect(checkSchema(IntentPatternsSchema, patterns)).toEqual({ data: patterns, issues: [] });
+  });
+
+  it('should report every problem with its path instead of throwing', () => {
+    const { data: patterns, issues } = checkSchema(IntentPatternsSchema, [
+      { keywords: ['test'], intent: 'testing', suggestedItems: ['prompts/test'], priority: 5 },
+      { keywords: [], intent: 'testing', suggestedItems: ['prompts/test'], priority: 'high' },
+    ]);
+
+    expect(patterns).toBeNull();
+    expect(issues.map((i) => i.path)).toEqual(['$[1].keywords', '$[1].priority']);
+    expect(issues.every((i) => i.severity === 'error')).toBe(true);
+  });
+
+  it('should report a non-array root', () => {
+    const { issues } = checkSchema(IntentPatternsSchema, { keywords: ['test'] });
+
+    expect(issues[0].path).toBe('$');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Search Index Tests - Tests for tokenization and BM25F ranking
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SearchIndex, tokenize } from '../../src/lib/search.js';
+import type { LibraryItem, LibraryItemMetadata } from '../../src/types.js';
+
+function createItem(
+  id: string,
+  body: string,
+  metadata: LibraryItemMetadata = {}
+): LibraryItem {
+  const [category, ...rest] = id.split('/');
+  return {
+    id,
+    name: rest[rest.length - 1],
+    category: category as LibraryItem['category'],
+    subcategory: rest.length > 1 ? rest[0] : undefined,
+    path: `/lib/${id}.md`,
+    relativePath: `${id}.md`,
+    content: body,
+    body,
+    metadata,
+    searchableText: '',
+    modifiedAt: new Date(),
+  };
+}
+
+describe('tokenize', () => {
+  it('should split on non-word characters and lowercase', () => {
+    expect(tokenize('Code-Review: SQL_Injection!')).toEqual(['code', 'review', 'sql', 'injection']);
+  });
+
+  it('should drop stopwords', () => {
+    expect(tokenize('how to fix the bug')).toEqual(['fix', 'bug']);
+  });
+
+  it('should keep non-ASCII letters', () => {
+    expect(tokenize('café résumé')).toEqual(['café', 'résumé']);
+  });
+
+  it('should return empty array for empty input', () => {
+    expect(tokenize('')).toEqual([]);
+    expect(tokenize('   ')).toEqual([]);
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.add(createItem('prompts/quality/test-writer', 'Write a test for every test case.', {
+      title: 'Test Writer',
+      tags: ['testing'],
+    }), 1);
+    index.add(createItem('prompts/planning/roadmap', 'Plan around the latest release.', {
+      title: 'Roadmap',
+    }), 1);
+    index.add(createItem('skills/debugging', 'Mention a test once among many other words here.', {
+      title: 'Debugging',
+    }), 1);
+  });
+
+  it('should match whole tokens only', () => {
+    const hits = index.search('test');
+    const ids = hits.map((h) => h.id);
+
+    expect(ids).toContain('prompts/quality/test-writer');
+    expect(ids).not.toContain('prompts/planning/roadmap');
+  });
+
+  it('should rank by term frequency and field boosts', () => {
+    const hits = index.search('test');
+
+    expect(hits[0].id).toBe('prompts/quality/test-writer');
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('should boost title matches over body matches', () => {
+    index.add(createItem('prompts/development/roadmap-notes', 'A roadmap roadmap note.', {
+      title: 'Notes',
+    }), 1);
+
+    const hits = index.search('roadmap');
+    expect(hits[0].id).toBe('prompts/planning/roadmap');
+  });
+
+  it('should report which query terms matched', () => {
+    const hits = index.search('test release');
+    const writer = hits.find((h) => h.id === 'prompts/quality/test-writer');
+    const roadmap = hits.find((h) => h.id === 'prompts/planning/roadmap');
+
+    expect(writer?.matches).toEqual(['test']);
+    expect(roadmap?.matches).toEqual(['release']);
+  });
+
+  it('should apply the item weight', () => {
+    const before = index.search('debugging')[0].score;
+    index.add(createItem('skills/debugging', 'Mention a test once among many other words here.', {
+      title: 'Debugging',
+    }), 2);
+    const after = index.search('debugging')[0].score;
+
+    expect(after).toBeCloseTo(before * 2);
+  });
+
+  it('should replace an existing entry on re-add', () => {
+    index.add(createItem('prompts/planning/roadmap', 'Now about security.', { title: 'Roadmap' }), 1);
+
+    expect(index.size).toBe(3);
+    expect(index.search('release')).toEqual([]);
+    expect(index.search('security')[0].id).toBe('prompts/planning/roadmap');
+  });
+
+  it('should remove entries and their postings', () => {
+    expect(index.remove('prompts/planning/roadmap')).toBe(true);
+    expect(index.remove('prompts/planning/roadmap')).toBe(false);
+
+    expect(index.has('prompts/planning/roadmap')).toBe(false);
+    expect(index.search('release')).toEqual([]);
+  });
+
+  it('should return nothing for stopword-only or empty queries', () => {
+    expect(index.search('')).toEqual([]);
+    expect(index.search('the and of')).toEqual([]);
+  });
+
+  describe('correct', () => {
+    it('should correct misspelled words to indexed terms', () => {
+      expect(index.correct('debuging')).toBe('debugging');
+      expect(index.correct('relase')).toBe('release');
+    });
+
+    it('should keep known words and query structure intact', () => {
+      expect(index.correct('Test the relase!')).toBe('Test the release!');
+    });
+
+    it('should return null when nothing needs correcting', () => {
+      expect(index.correct('test release')).toBeNull();
+    });
+
+    it('should leave filters, phrases and exclusions as typed', () => {
+      expect(index.correct('tag:relase')).toBeNull();
+      expect(index.correct('author:debuging relase')).toBe('author:debuging release');
+      expect(index.correct('-tag:relase debuging')).toBe('-tag:relase debugging');
+      expect(index.correct('"the relase" debuging')).toBe('"the relase" debugging');
+      expect(index.correct('-relase NOT debuging')).toBeNull();
+      expect(index.correct('+relase AND debuging')).toBe('+release AND debugging');
+    });
+
+    it('should not correct short words or distant typos', () => {
+      expect(index.correct('tst')).toBeNull();
+      expect(index.correct('zzzzzzzz')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Snippets Tests - Tests for search result excerpts and highlighting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractSnippets, renderSnippet, plainText } from '../../src/lib/snippets.js';
+
+const mark = (text: string) => `[${text}]`;
+
+describe('plainText', () => {
+  it('should strip markdown markers and collapse whitespace', () => {
+    expect(plainText('## Heading\n\n- **bold** item\n> `code`')).toBe('Heading bold item code');
+  });
+});
+
+describe('extractSnippets', () => {
+  const filler = 'Lorem ipsum dolor sit amet consectetur adipiscing elit. '.repeat(6);
+
+  it('should highlight whole-word matches', () => {
+    const [snippet] = extractSnippets('Test the tests before testing.', ['test']);
+
+    expect(renderSnippet(snippet, mark)).toBe('[Test] the tests before testing.');
+  });
+
+  it('should highlight phrases as one range', () => {
+    const [snippet] = extractSnippets('Find the root cause, not a cause.', ['root'], ['root cause']);
+
+    expect(renderSnippet(snippet, mark)).toBe('Find the [root cause], not a cause.');
+  });
+
+  it('should return up to three non-overlapping excerpts', () => {
+    const body = ['alpha', 'beta', 'gamma', 'delta'].map((word) => `${filler}${word}`).join(' ');
+    const snippets = extractSnippets(body, ['alpha', 'beta', 'gamma', 'delta']);
+
+    expect(snippets).toHaveLength(3);
+    for (const snippet of snippets) {
+      expect(snippet.highlights).toHaveLength(1);
+    }
+  });
+
+  it('should prefer the window with the most distinct terms', () => {
+    const body = `${filler}security ${filler}security audit ${filler}`;
+    const [best] = extractSnippets(body, ['security', 'audit'], [], { maxSnippets: 1 });
+
+    expect(renderSnippet(best, mark)).toContain('[security] [audit]');
+  });
+
+  it('should cut at word boundaries and mark truncation', () => {
+    const [snippet] = extractSnippets(`${filler}needle ${filler}`, ['needle']);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    const words = new Set([...filler.split(' '), 'needle']);
+    expect(snippet.text.slice(1, -1).split(' ').every((w) => words.has(w))).toBe(true);
+  });
+
+  it('should fall back to the opening when nothing matched', () => {
+    const snippets = extractSnippets(`Opening line. ${filler}`, ['missing']);
+
+    expect(snippets).toHaveLength(1);
+    expect(snippets[0].text.startsWith('Opening line.')).toBe(true);
+    expect(snippets[0].highlights).toEqual([]);
+  });
+
+  it('should return nothing for an empty body', () => {
+    expect(extractSnippets('', ['test'])).toEqual([]);
+  });
+});
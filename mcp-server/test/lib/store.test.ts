@@ -0,0 +1,440 @@
+/**
+ * Library Store Tests - Tests for the filesystem, memory and archive stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { gzipSync, deflateRawSync } from 'zlib';
+import { normalizeStorePath, isHiddenPath, StoreError, type StoreEvent } from '../../src/lib/store.js';
+import { FileSystemStore } from '../../src/lib/fs-store.js';
+import { MemoryStore } from '../../src/lib/memory-store.js';
+import { ArchiveStore, isArchivePath } from '../../src/lib/archive-store.js';
+import { LayeredStore, parseLayerSpecs } from '../../src/lib/layered-store.js';
+import { Library } from '../../src/lib/library.js';
+
+const STORE_PATH = join(process.cwd(), '.test-store');
+
+const PRD = `---
+title: PRD Generator
+tags:
+  - planning
+---
+
+# PRD Generator
+
+Generate product requirement documents.
+`;
+
+/**
+ * A ustar archive of regular files
+ */
+function tarArchive(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write('0000644\0', 100);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write(`${Math.floor(Date.now() / 1000).toString(8).padStart(11, '0')}\0`, 136);
+    header.write('        ', 148);
+    header.write('0', 156);
+    header.write('ustar\u000000', 257);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+/**
+ * A zip archive; entries are deflated when `deflate` is set
+ */
+function zipArchive(files: Record<string, string>, deflate = false): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(content);
+    const data = deflate ? deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(deflate ? 8 : 0, 10);
+    entry.writeUInt16LE(0x5821, 14); // 2024-01-01
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('store paths', () => {
+  it('should normalize relative paths', () => {
+    expect(normalizeStorePath('prompts/./planning//prd.md')).toBe('prompts/planning/prd.md');
+    expect(normalizeStorePath('prompts\\planning\\prd.md')).toBe('prompts/planning/prd.md');
+    expect(normalizeStorePath('prompts/')).toBe('prompts');
+    expect(normalizeStorePath('.')).toBe('');
+  });
+
+  it('should reject paths outside the root', () => {
+    expect(normalizeStorePath('../secrets')).toBeNull();
+    expect(normalizeStorePath('prompts/../../secrets')).toBeNull();
+    expect(normalizeStorePath('/etc/passwd')).toBeNull();
+  });
+
+  it('should detect hidden paths and archives', () => {
+    expect(isHiddenPath('.history/prompts/a.md')).toBe(true);
+    expect(isHiddenPath('prompts/.a.md.tmp')).toBe(true);
+    expect(isHiddenPath('prompts/a.md')).toBe(false);
+    expect(isArchivePath('library.tar.gz')).toBe(true);
+    expect(isArchivePath('library.ZIP')).toBe(true);
+    expect(isArchivePath('library')).toBe(false);
+  });
+});
+
+describe('MemoryStore', () => {
+  it('should read, write, list and delete files', () => {
+    const store = new MemoryStore({ 'prompts/a.md': 'A' });
+    store.write('prompts/sub/b.md', 'B');
+    store.write('prompts/.c.md', 'hidden');
+
+    expect(store.read('prompts/a.md')).toBe('A');
+    expect(store.read('prompts/missing.md')).toBeNull();
+    expect(store.list('prompts')).toEqual(['prompts/a.md', 'prompts/sub/b.md']);
+    expect(store.stat('prompts/sub/b.md')?.size).toBe(1);
+
+    store.delete('prompts/a.md');
+    expect(store.read('prompts/a.md')).toBeNull();
+  });
+
+  it('should report changes under watched paths', () => {
+    const store = new MemoryStore();
+    const events: Array<[StoreEvent, string]> = [];
+    const watcher = store.watch(['prompts'], (event, path) => events.push([event, path]));
+
+    store.write('prompts/a.md', 'A');
+    store.write('prompts/a.md', 'A2');
+    store.write('skills/b.md', 'B');
+    store.write('prompts/.history/a.md', 'hidden');
+    store.delete('prompts/a.md');
+    watcher.close();
+    store.write('prompts/c.md', 'C');
+
+    expect(events).toEqual([
+      ['add', 'prompts/a.md'],
+      ['change', 'prompts/a.md'],
+      ['unlink', 'prompts/a.md'],
+    ]);
+  });
+
+  it('should refuse paths outside the library', () => {
+    const store = new MemoryStore();
+    expect(() => store.write('../escape.md', 'x')).toThrow(StoreError);
+  });
+});
+
+describe('FileSystemStore', () => {
+  beforeEach(() => {
+    mkdirSync(join(STORE_PATH, 'prompts', 'planning'), { recursive: true });
+    writeFileSync(join(STORE_PATH, 'prompts', 'planning', 'prd.md'), PRD);
+  });
+
+  afterEach(() => {
+    rmSync(STORE_PATH, { recursive: true, force: true });
+  });
+
+  it('should list and read files relative to the root', () => {
+    const store = new FileSystemStore(STORE_PATH);
+    expect(store.list('prompts')).toEqual(['prompts/planning/prd.md']);
+    expect(store.list('skills')).toEqual([]);
+    expect(store.read('prompts/planning/prd.md')).toBe(PRD);
+    expect(store.resolve('prompts/planning/prd.md')).toBe(join(STORE_PATH, 'prompts', 'planning', 'prd.md'));
+  });
+
+  it('should write into new directories without leaving temporary files', () => {
+    const store = new FileSystemStore(STORE_PATH);
+    store.write('skills/review/checklist.md', 'Checklist');
+
+    expect(readFileSync(join(STORE_PATH, 'skills', 'review', 'checklist.md'), 'utf-8')).toBe('Checklist');
+    expect(store.list('skills')).toEqual(['skills/review/checklist.md']);
+
+    store.delete('skills/review/checklist.md');
+    expect(existsSync(join(STORE_PATH, 'skills', 'review', 'checklist.md'))).toBe(false);
+  });
+
+  it('should refuse paths outside the root', () => {
+    const store = new FileSystemStore(STORE_PATH);
+    expect(() => store.read('../package.json')).toThrow(StoreError);
+    expect(() => store.write('prompts/../../escape.md', 'x')).toThrow(StoreError);
+  });
+});
+
+describe('ArchiveStore', () => {
+  beforeEach(() => {
+    mkdirSync(STORE_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(STORE_PATH, { recursive: true, force: true });
+  });
+
+  function writeArchive(name: string, data: Buffer): string {
+    const path = join(STORE_PATH, name);
+    writeFileSync(path, data);
+    return path;
+  }
+
+  it('should serve files from a tar archive', () => {
+    const store = new ArchiveStore(writeArchive('library.tar', tarArchive({ 'prompts/planning/prd.md': PRD })));
+
+    expect(store.readOnly).toBe(true);
+    expect(store.list('prompts')).toEqual(['prompts/planning/prd.md']);
+    expect(store.read('prompts/planning/prd.md')).toBe(PRD);
+    expect(store.stat('prompts/planning/prd.md')?.size).toBe(Buffer.byteLength(PRD));
+  });
+
+  it('should serve a gzipped tar packed inside a single folder', () => {
+    const archive = gzipSync(tarArchive({ 'my-library/prompts/planning/prd.md': PRD, 'my-library/README.md': 'Hi' }));
+    const store = new ArchiveStore(writeArchive('library.tgz', archive));
+
+    expect(store.list('')).toEqual(['README.md', 'prompts/planning/prd.md']);
+  });
+
+  it('should serve stored and deflated zip entries', () => {
+    const stored = new ArchiveStore(writeArchive('stored.zip', zipArchive({ 'prompts/prd.md': PRD })));
+    const deflated = new ArchiveStore(writeArchive('deflated.zip', zipArchive({ 'prompts/prd.md': PRD }, true)));
+
+    expect(stored.read('prompts/prd.md')).toBe(PRD);
+    expect(deflated.read('prompts/prd.md')).toBe(PRD);
+    expect(new Date(deflated.stat('prompts/prd.md')!.mtimeMs).getFullYear()).toBe(2024);
+  });
+
+  it('should skip entries that escape the root and refuse writes', () => {
+    const archive = tarArchive({ 'prompts/prd.md': PRD, '../escape.md': 'x' });
+    const store = new ArchiveStore(writeArchive('library.tar', archive));
+
+    expect(store.list('')).toEqual(['prompts/prd.md']);
+    expect(() => store.write('prompts/new.md', 'x')).toThrow(StoreError);
+    expect(() => store.delete('prompts/prd.md')).toThrow(StoreError);
+  });
+});
+
+describe('LayeredStore', () => {
+  function layers() {
+    const personal = new MemoryStore({ 'prompts/prd.md': 'personal PRD', 'snippets/terse.md': 'Be terse' });
+    const team = new MemoryStore({ 'prompts/prd.md': 'team PRD', 'prompts/retro.md': 'team retro' });
+    return {
+      personal,
+      team,
+      store: new LayeredStore([
+        { name: 'personal', store: personal },
+        { name: 'team', store: team },
+      ]),
+    };
+  }
+
+  it('should merge layers with the highest taking precedence', () => {
+    const { store } = layers();
+
+    expect(store.list('')).toEqual(['prompts/prd.md', 'prompts/retro.md', 'snippets/terse.md']);
+    expect(store.read('prompts/prd.md')).toBe('personal PRD');
+    expect(store.read('prompts/retro.md')).toBe('team retro');
+    expect(store.layer('prompts/prd.md')).toBe('personal');
+    expect(store.layer('prompts/retro.md')).toBe('team');
+    expect(store.resolve('prompts/retro.md')).toBe('memory:prompts/retro.md');
+  });
+
+  it('should write to the first writable layer by default', () => {
+    const { store, personal, team } = layers();
+    store.write('prompts/retro.md', 'my retro');
+
+    expect(personal.read('prompts/retro.md')).toBe('my retro');
+    expect(team.read('prompts/retro.md')).toBe('team retro');
+    expect(store.read('prompts/retro.md')).toBe('my retro');
+  });
+
+  it('should refuse writes hidden by a higher layer and deletes from other layers', () => {
+    const { personal, team } = layers();
+    const store = new LayeredStore(
+      [
+        { name: 'personal', store: personal },
+        { name: 'team', store: team },
+      ],
+      'team'
+    );
+
+    expect(store.checkWrite('prompts/prd.md', 'write')).toContain('overridden by layer "personal"');
+    expect(store.checkWrite('prompts/retro.md', 'write')).toBeNull();
+    expect(store.checkWrite('snippets/terse.md', 'delete')).toContain('is in layer "personal"');
+    expect(() => store.delete('snippets/terse.md')).toThrow(StoreError);
+  });
+
+  it('should report removing an override as a change', () => {
+    const { store, personal } = layers();
+    const events: Array<[StoreEvent, string]> = [];
+    const watcher = store.watch(['prompts'], (event, path) => events.push([event, path]));
+
+    personal.delete('prompts/prd.md');
+    personal.write('prompts/retro.md', 'my retro');
+    watcher.close();
+
+    expect(events).toEqual([
+      ['change', 'prompts/prd.md'],
+      ['add', 'prompts/retro.md'],
+    ]);
+  });
+
+  it('should be read-only without a writable layer', () => {
+    const bundled = Object.assign(new MemoryStore(), { readOnly: true });
+
+    expect(new LayeredStore([{ name: 'bundled', store: bundled }]).readOnly).toBe(true);
+    expect(() => new LayeredStore([{ name: 'bundled', store: bundled }], 'bundled')).toThrow(StoreError);
+    expect(() => new LayeredStore([{ name: 'bundled', store: bundled }], 'missing')).toThrow(StoreError);
+  });
+
+  it('should name layers from their paths', () => {
+    expect(parseLayerSpecs(['/home/me/prompts', 'team=/srv/library', '/opt/bundled.tar.gz', '/other/prompts'])).toEqual([
+      { name: 'prompts', location: '/home/me/prompts' },
+      { name: 'team', location: '/srv/library' },
+      { name: 'bundled', location: '/opt/bundled.tar.gz' },
+      { name: 'prompts-2', location: '/other/prompts' },
+    ]);
+    expect(() => parseLayerSpecs(['a=/one', 'a=/two'])).toThrow(StoreError);
+  });
+});
+
+describe('Library on a store', () => {
+  afterEach(() => {
+    rmSync(STORE_PATH, { recursive: true, force: true });
+  });
+
+  it('should index, write and keep history in a memory store', async () => {
+    const store = new MemoryStore({ 'prompts/planning/prd.md': PRD });
+    const library = new Library(store);
+    await library.initialize();
+
+    expect(library.getItem('prompts/planning/prd')?.metadata.title).toBe('PRD Generator');
+    expect(library.getItem('prompts/planning/prd')?.path).toBe('memory:prompts/planning/prd.md');
+
+    const { item, error } = library.saveItem({ category: 'prompts', name: 'retro', content: '# Retro\n\nRun a retro.' });
+    expect(error).toBeUndefined();
+    expect(item?.id).toBe('prompts/retro');
+    expect(store.read('prompts/retro.md')).toContain('Run a retro.');
+    expect(library.listRevisions('prompts/retro')).toHaveLength(1);
+    expect(store.list('')).not.toContain('.history/prompts/retro/revisions.json');
+  });
+
+  it('should pick up store changes while watching', async () => {
+    const store = new MemoryStore({ 'prompts/planning/prd.md': PRD });
+    const library = new Library(store);
+    await library.initialize();
+    library.enableWatch();
+
+    store.write('prompts/planning/okr.md', '# OKR Planner\n\nSet objectives.');
+    expect(library.getItem('prompts/planning/okr')?.metadata.title).toBe('OKR Planner');
+
+    store.delete('prompts/planning/prd.md');
+    expect(library.getAllItems().map((item) => item.id)).toEqual(['prompts/planning/okr']);
+    library.disableWatch();
+  });
+
+  it('should fall back to what is left when a watched override is deleted', async () => {
+    const personal = new MemoryStore({
+      'prompts/planning/prd.md': '# My PRD',
+      'chains/launch.chain.yaml': 'name: My Launch\nsteps:\n  - title: Ship\n    prompt: Ship it.\n',
+    });
+    const team = new MemoryStore({
+      'prompts/planning/prd.md': PRD,
+      'chains/launch.md': '# Team Launch\n\n## Step 1: Ship\n\n**Prompt:**\n```\nShip it.\n```\n',
+    });
+    const library = new Library(
+      new LayeredStore([
+        { name: 'personal', store: personal },
+        { name: 'team', store: team },
+      ])
+    );
+    await library.initialize();
+    library.enableWatch();
+
+    expect(library.getChain('chains/launch')?.name).toBe('My Launch');
+
+    personal.delete('prompts/planning/prd.md');
+    expect(library.getItem('prompts/planning/prd')).toMatchObject({ layer: 'team', metadata: { title: 'PRD Generator' } });
+
+    // The team's markdown chain was hidden by the personal definition
+    personal.delete('chains/launch.chain.yaml');
+    expect(library.getChain('chains/launch')?.name).toBe('Team Launch');
+    expect(library.getItem('chains/launch')?.relativePath).toBe('chains/launch.md');
+
+    team.delete('chains/launch.md');
+    expect(library.getItem('chains/launch')).toBeNull();
+    library.disableWatch();
+  });
+
+  it('should record layers and let a personal layer override a team item', async () => {
+    const personal = new MemoryStore();
+    const team = new MemoryStore({ 'prompts/planning/prd.md': PRD });
+    const library = new Library(
+      new LayeredStore([
+        { name: 'personal', store: personal },
+        { name: 'team', store: team },
+      ])
+    );
+    await library.initialize();
+
+    expect(library.getItem('prompts/planning/prd')?.layer).toBe('team');
+
+    const { item } = library.updateItem({ id: 'prompts/planning/prd', content: '# My PRD', overwrite: true });
+    expect(item?.layer).toBe('personal');
+    expect(team.read('prompts/planning/prd.md')).toBe(PRD);
+
+    // Deleting the override brings the team item back
+    const deleted = library.deleteItem({ id: 'prompts/planning/prd' });
+    expect(deleted.error).toBeUndefined();
+    expect(library.getItem('prompts/planning/prd')?.layer).toBe('team');
+
+    const refused = library.deleteItem({ id: 'prompts/planning/prd' });
+    expect(refused.error).toContain('is in layer "team"');
+  });
+
+  it('should serve an archive read-only', async () => {
+    mkdirSync(STORE_PATH, { recursive: true });
+    const archivePath = join(STORE_PATH, 'library.tar.gz');
+    writeFileSync(archivePath, gzipSync(tarArchive({ 'prompts/planning/prd.md': PRD })));
+
+    const library = new Library(archivePath);
+    await library.initialize();
+
+    expect(library.isReadOnly()).toBe(true);
+    expect(library.getItem('prompts/planning/prd')?.metadata.title).toBe('PRD Generator');
+
+    const { item, error } = library.saveItem({ category: 'prompts', name: 'retro', content: '# Retro' });
+    expect(item).toBeNull();
+    expect(error).toContain('read-only');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, templateVariables, TemplateError } from '../../src/lib/template.js';
+
+describe('renderTemplate', () => {
+  describe('variables', () => {
+    it('should substitute variables and nested paths', () => {
+      const result = renderTemplate('Build {{ app }} with {{stack.language}} ({{steps.1}})', {
+        app: 'a CLI',
+        stack: { language: 'Go' },
+        steps: ['plan', 'code'],
+      });
+
+      expect(result).toBe('Build a CLI with Go (code)');
+    });
+
+    it('should accept keys like step labels after the first path segment', () => {
+      expect(renderTemplate('{{steps.1b.output}}', { steps: { '1b': { output: 'logs' } } })).toBe('logs');
+    });
+
+    it('should match names case-insensitively with spaces as underscores', () => {
+      expect(renderTemplate('{{Another Var}}', { another_var: 'B' })).toBe('B');
+    });
+
+    it('should leave unknown variables as written', () => {
+      expect(renderTemplate('Hello {{name}} and {{ other | upper }}', { name: 'Ada' })).toBe('Hello Ada and {{ other | upper }}');
+    });
+
+    it('should leave text that is not template syntax alone', () => {
+      const jsx = "<Child style={{ color: 'red' }} /> <Tabs value={{ activeTab, setActiveTab }}>";
+      expect(renderTemplate(jsx, { color: 'blue' })).toBe(jsx);
+    });
+
+    it('should not reach outside the context through prototypes', () => {
+      const result = renderTemplate('{{constructor}}|{{name.constructor.name}}|{{__proto__}}', { name: 'x' });
+      expect(result).toBe('{{constructor}}|{{name.constructor.name}}|{{__proto__}}');
+    });
+  });
+
+  describe('filters', () => {
+    it('should apply defaults to missing and empty values', () => {
+      const template = '{{lang | default: "TypeScript"}} / {{style | default: \'plain\'}}';
+      expect(renderTemplate(template, { style: '' })).toBe('TypeScript / plain');
+      expect(renderTemplate(template, { lang: 'Rust', style: 'terse' })).toBe('Rust / terse');
+    });
+
+    it('should chain filters left to right', () => {
+      expect(renderTemplate('{{ name | trim | upper }}', { name: '  ada ' })).toBe('ADA');
+      expect(renderTemplate('{{ name | default: "x" | upper }}', {})).toBe('X');
+    });
+
+    it('should indent every non-empty line', () => {
+      expect(renderTemplate('{{ code | indent: 4 }}', { code: 'a\n\nb' })).toBe('    a\n\n    b');
+      expect(renderTemplate('{{ code | indent }}', { code: 'a' })).toBe('  a');
+    });
+
+    it('should wrap values in a code fence', () => {
+      expect(renderTemplate('{{ snippet | code-fence: "ts" }}', { snippet: 'let x = 1;' })).toBe('```ts\nlet x = 1;\n```');
+    });
+
+    it('should join lists', () => {
+      expect(renderTemplate('{{ tags | join: " / " }}', { tags: ['a', 'b'] })).toBe('a / b');
+    });
+
+    it('should reject unknown filters', () => {
+      expect(() => renderTemplate('{{ name | shout }}', { name: 'x' })).toThrow(/Unknown filter "shout" on line 1/);
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should render if and else branches', () => {
+      const template = '{{#if context}}Context: {{context}}{{else}}No context{{/if}}';
+      expect(renderTemplate(template, { context: 'Next.js' })).toBe('Context: Next.js');
+      expect(renderTemplate(template, { context: '' })).toBe('No context');
+      expect(renderTemplate(template, {})).toBe('No context');
+    });
+
+    it('should treat "false" as false for boolean variables', () => {
+      expect(renderTemplate('{{#if strict}}strict{{/if}}', { strict: 'false' })).toBe('');
+      expect(renderTemplate('{{#unless strict}}lenient{{/unless}}', { strict: 'false' })).toBe('lenient');
+    });
+
+    it('should drop the lines of block tags that stand alone', () => {
+      const template = 'Start\n{{#if extra}}\n  Extra line\n{{/if}}\nEnd';
+      expect(renderTemplate(template, { extra: 'yes' })).toBe('Start\n  Extra line\nEnd');
+      expect(renderTemplate(template, {})).toBe('Start\nEnd');
+    });
+  });
+
+  describe('loops', () => {
+    it('should iterate lists with this and @index', () => {
+      const template = '{{#each items}}{{@index}}:{{this}}{{#unless @last}}, {{/unless}}{{/each}}';
+      expect(renderTemplate(template, { items: ['a', 'b', 'c'] })).toBe('0:a, 1:b, 2:c');
+    });
+
+    it('should expose object fields and outer variables inside the loop', () => {
+      const template = '{{#each files}}{{path}} ({{owner}})\n{{/each}}';
+      const result = renderTemplate(template, { owner: 'me', files: [{ path: 'a.ts' }, { path: 'b.ts', owner: 'you' }] });
+      expect(result).toBe('a.ts (me)\nb.ts (you)\n');
+    });
+
+    it('should iterate the lines of a string', () => {
+      const template = '{{#each goals}}\n- {{this}}\n{{/each}}';
+      expect(renderTemplate(template, { goals: 'fast\n\n  small  \n' })).toBe('- fast\n- small\n');
+    });
+
+    it('should render the else branch for empty lists', () => {
+      expect(renderTemplate('{{#each items}}{{this}}{{else}}none{{/each}}', { items: [] })).toBe('none');
+    });
+  });
+
+  describe('includes', () => {
+    const partials: Record<string, string> = {
+      'snippets/modifiers/ultrathink': 'Ultrathink about {{topic}}.',
+      'snippets/outer': 'Outer > {{> snippets/inner}}',
+      'snippets/inner': 'Inner > {{> snippets/outer}}',
+      'snippets/self': '{{> snippets/self}}',
+    };
+    const include = (id: string) => partials[id] ?? null;
+
+    it('should render included items with the same context', () => {
+      const result = renderTemplate('Plan it. {{> snippets/modifiers/ultrathink}}', { topic: 'caching' }, { include });
+      expect(result).toBe('Plan it. Ultrathink about caching.');
+    });
+
+    it('should detect include cycles', () => {
+      expect(() => renderTemplate('{{> snippets/outer}}', {}, { include })).toThrow(
+        'Include cycle: snippets/outer -> snippets/inner -> snippets/outer'
+      );
+      expect(() => renderTemplate('{{> snippets/self}}', {}, { include, source: 'snippets/self' })).toThrow(
+        'Include cycle: snippets/self -> snippets/self'
+      );
+    });
+
+    it('should report unknown includes', () => {
+      expect(() => renderTemplate('x\n{{> missing/item}}', {}, { include })).toThrow('Unknown include "missing/item" on line 2');
+      expect(() => renderTemplate('{{> missing/item}}', {})).toThrow(TemplateError);
+    });
+
+    it('should name the included item in its parse errors', () => {
+      const broken = (id: string) => (id === 'bad' ? '{{#if x}}' : null);
+      expect(() => renderTemplate('{{> bad}}', {}, { include: broken })).toThrow('bad: Unclosed {{#if}} from line 1');
+    });
+  });
+
+  describe('errors', () => {
+    it('should report unclosed and mismatched blocks with line numbers', () => {
+      expect(() => renderTemplate('a\n{{#each items}}', {})).toThrow('Unclosed {{#each}} from line 2');
+      expect(() => renderTemplate('{{#if a}}\n{{/each}}', {})).toThrow(
+        'Expected {{/if}} to close the block from line 1, found {{/each}} on line 2'
+      );
+      expect(() => renderTemplate('{{/if}}', {})).toThrow('Unexpected {{/if}} on line 1');
+      expect(() => renderTemplate('{{else}}', {})).toThrow('Unexpected {{else}} on line 1');
+    });
+
+    it('should prefix errors with the template source', () => {
+      expect(() => renderTemplate('{{#if a}}', {}, { source: 'prompts/x' })).toThrow('prompts/x: Unclosed {{#if}} from line 1');
+    });
+  });
+});
+
+describe('templateVariables', () => {
+  it('should list top-level variables in order of first use', () => {
+    const template = '{{#if context}}{{context}}{{/if}} {{lang | default: "TS"}} {{#each files}}{{path}} {{@index}}{{/each}} {{app.name}}';
+    expect(templateVariables(template)).toEqual(['context', 'lang', 'files', 'app']);
+  });
+
+  it('should ignore text that is not template syntax', () => {
+    expect(templateVariables("style={{ color: 'red' }}")).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  variableKey,
+  parseVariableSection,
+  extractVariables,
+  coerceValue,
+  resolveVariables,
+  renderVariables,
+  describeVariable,
+} from '../../src/lib/variables.js';
+import type { VariableDefinition } from '../../src/types.js';
+
+const PROSE_BODY = `# PRD Generator
+
+> Turn an idea into a PRD
+
+## Variables
+- \`[your idea]\` - Brief description of what you want to build
+- \`[context]\` - (Optional) Existing tech stack, user base, or constraints
+
+## Prompt
+
+\`\`\`
+Write a PRD for [your idea].
+
+Context: [context]
+\`\`\``;
+
+describe('variableKey', () => {
+  it('should turn placeholders into identifiers', () => {
+    expect(variableKey('[your idea]')).toBe('your_idea');
+    expect(variableKey('[PRD or feature]')).toBe('prd_or_feature');
+    expect(variableKey('{{ task }}')).toBe('task');
+    expect(variableKey('your idea')).toBe('your_idea');
+  });
+});
+
+describe('parseVariableSection', () => {
+  it('should read variables from a ## Variables section', () => {
+    const variables = parseVariableSection(PROSE_BODY);
+
+    expect(variables).toEqual([
+      {
+        name: 'your_idea',
+        description: 'Brief description of what you want to build',
+        type: 'string',
+        required: true,
+        placeholder: '[your idea]',
+      },
+      {
+        name: 'context',
+        description: 'Existing tech stack, user base, or constraints',
+        type: 'string',
+        required: false,
+        placeholder: '[context]',
+      },
+    ]);
+  });
+
+  it('should treat an inline optional note as optional', () => {
+    const body = '## Variables\n- `[feature]` - The feature you want to add (optional, for targeted analysis)\n\n## Prompt';
+    const [feature] = parseVariableSection(body);
+
+    expect(feature.required).toBe(false);
+    expect(feature.description).toBe('The feature you want to add');
+  });
+
+  it('should stop at the next heading', () => {
+    const body = '## Variables\n- `[task]` - The task\n\n## Usage\n- `[other]` - Not a variable';
+    expect(parseVariableSection(body).map((v) => v.name)).toEqual(['task']);
+  });
+
+  it('should return nothing without a section', () => {
+    expect(parseVariableSection('# Title\n\nJust text.')).toEqual([]);
+  });
+});
+
+describe('extractVariables', () => {
+  it('should prefer frontmatter declarations over the prose section', () => {
+    const { variables, issues } = extractVariables(
+      {
+        variables: [
+          { name: 'idea', type: 'multiline', required: true, placeholder: '[your idea]' },
+          { name: 'platform', enum: ['web', 'mobile'], default: 'web' },
+          { name: 'pages', type: 'number', default: 3 },
+        ],
+      },
+      PROSE_BODY
+    );
+
+    expect(issues).toEqual([]);
+    expect(variables.map((v) => v.name)).toEqual(['idea', 'platform', 'pages']);
+    expect(variables[1]).toMatchObject({ type: 'enum', enum: ['web', 'mobile'], default: 'web', required: false });
+    expect(variables[2].default).toBe('3');
+  });
+
+  it('should report invalid frontmatter with JSON paths and fall back to prose', () => {
+    const { variables, issues } = extractVariables(
+      {
+        variables: [
+          { name: 'mode', type: 'enum' },
+          { name: 'count', type: 'number', default: 'many' },
+          { name: 'mode' },
+        ],
+      },
+      PROSE_BODY
+    );
+
+    expect(issues.map((i) => i.path)).toEqual(expect.arrayContaining(['$[0].enum', '$[2].name']));
+    expect(variables.map((v) => v.name)).toEqual(['your_idea', 'context']);
+  });
+
+  it('should check defaults against the declared type', () => {
+    const { issues } = extractVariables({ variables: [{ name: 'count', type: 'number', default: 'many' }] }, '');
+
+    expect(issues).toEqual([
+      { path: '$[0].default', message: 'Default "count" must be a number, got "many"', severity: 'error' },
+    ]);
+  });
+
+  it('should add undeclared {{name}} references as optional strings', () => {
+    const { variables } = extractVariables({}, 'Hello {{ name }}, see <div style={{ color: "red" }} />');
+
+    expect(variables).toEqual([{ name: 'name', type: 'string', required: false }]);
+  });
+});
+
+describe('coerceValue', () => {
+  const variable = (overrides: Partial<VariableDefinition>): VariableDefinition => ({
+    name: 'value',
+    type: 'string',
+    required: false,
+    ...overrides,
+  });
+
+  it('should normalize numbers and booleans', () => {
+    expect(coerceValue(variable({ type: 'number' }), ' 42 ')).toEqual({ value: '42' });
+    expect(coerceValue(variable({ type: 'boolean' }), 'Yes')).toEqual({ value: 'true' });
+    expect(coerceValue(variable({ type: 'boolean' }), '0')).toEqual({ value: 'false' });
+  });
+
+  it('should match enum values case-insensitively', () => {
+    expect(coerceValue(variable({ type: 'enum', enum: ['Web', 'Mobile'] }), 'web')).toEqual({ value: 'Web' });
+  });
+
+  it('should explain invalid values', () => {
+    expect(coerceValue(variable({ type: 'number' }), 'lots')).toEqual({ error: '"value" must be a number, got "lots"' });
+    expect(coerceValue(variable({ type: 'enum', enum: ['a', 'b'] }), 'c')).toEqual({
+      error: '"value" must be one of a, b; got "c"',
+    });
+  });
+
+  it('should keep multiline text as written', () => {
+    expect(coerceValue(variable({ type: 'multiline' }), '  line 1\nline 2')).toEqual({ value: '  line 1\nline 2' });
+  });
+});
+
+describe('resolveVariables', () => {
+  const variables = parseVariableSection(PROSE_BODY);
+
+  it('should report a missing required variable', () => {
+    const { errors } = resolveVariables(variables, {});
+
+    expect(errors).toEqual([
+      'Missing required variable "your_idea" (Brief description of what you want to build)',
+    ]);
+  });
+
+  it('should accept values keyed by placeholder text', () => {
+    const { values, errors } = resolveVariables(variables, { 'your idea': 'A habit tracker' });
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ your_idea: 'A habit tracker', context: '' });
+  });
+
+  it('should fill in defaults', () => {
+    const { values } = resolveVariables([{ name: 'tone', type: 'string', required: true, default: 'friendly' }], {});
+    expect(values.tone).toBe('friendly');
+  });
+
+  it('should reject unknown variables unless allowed', () => {
+    expect(resolveVariables(variables, { your_idea: 'x', extra: 'y' }).errors).toEqual([
+      'Unknown variable "extra" (declared: your_idea, context)',
+    ]);
+
+    const { values, errors } = resolveVariables(variables, { your_idea: 'x', extra: 'y' }, { allowUnknown: true });
+    expect(errors).toEqual([]);
+    expect(values.extra).toBe('y');
+  });
+});
+
+describe('renderVariables', () => {
+  it('should replace placeholders and {{name}} references', () => {
+    const variables: VariableDefinition[] = [
+      { name: 'idea', type: 'string', required: true, placeholder: '[your idea]' },
+      { name: 'tone', type: 'string', required: false },
+    ];
+    const text = 'Build [your idea] ({{idea}}) in a {{ tone }} voice. Keep [other] and {{unknown}}.';
+
+    expect(renderVariables(text, variables, { idea: 'a $1 app', tone: 'calm' })).toBe(
+      'Build a $1 app (a $1 app) in a calm voice. Keep [other] and {{unknown}}.'
+    );
+  });
+
+  it('should leave variables without a value untouched', () => {
+    const variables: VariableDefinition[] = [{ name: 'idea', type: 'string', required: true, placeholder: '[idea]' }];
+    expect(renderVariables('Build [idea]', variables, {})).toBe('Build [idea]');
+  });
+});
+
+describe('describeVariable', () => {
+  it('should summarize type, requirement and default', () => {
+    expect(describeVariable({ name: 'idea', type: 'multiline', required: true, description: 'The idea' })).toBe(
+      '`idea` (multiline, required) - The idea'
+    );
+    expect(describeVariable({ name: 'platform', type: 'enum', enum: ['web', 'mobile'], required: false, default: 'web' })).toBe(
+      '`platform` (web | mobile, default: web)'
+    );
+  });
+});
@@ -79,6 +79,18 @@ export interface Prompt {
 export interface SearchResult extends Prompt {
   /** Relevance score (higher = better match) */
   score: number;
+  /** Up to three excerpts of the content around where the query matched */
+  snippets: Snippet[];
+}
+
+/**
+ * Excerpt of a prompt's content
+ */
+export interface Snippet {
+  /** Excerpt text, with "…" where it was cut from the content */
+  text: string;
+  /** Character ranges of the matched query within `text` */
+  highlights: Array<{ start: number; end: number }>;
 }
 
 // Cache for parsed prompts
@@ -221,6 +233,53 @@ export function getPrompt(nameOrId: string): Prompt | null {
   return null;
 }
 
+const SNIPPET_WIDTH = 160;
+const MAX_SNIPPETS = 3;
+
+/**
+ * Cut excerpts around occurrences of the (lowercased) query in the content.
+ * Falls back to the opening of the content when the query only matched metadata.
+ */
+function extractSnippets(content: string, query: string): Snippet[] {
+  const text = content.replace(/[*`#>]+/g, '').replace(/\s+/g, ' ').trim();
+  const lower = text.toLowerCase();
+  const snippets: Snippet[] = [];
+  if (!text) return snippets;
+
+  const cut = (start: number, end: number, first: number, last: number): Snippet => {
+    // Snap to word boundaries without losing the match itself
+    const space = text.indexOf(' ', start);
+    if (start > 0 && space !== -1 && space < first) start = space + 1;
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (end < text.length && lastSpace >= last && lastSpace > start) end = lastSpace;
+
+    const prefix = start > 0 ? '…' : '';
+    const highlights: Snippet['highlights'] = [];
+    let at = query ? lower.indexOf(query, start) : -1;
+    while (at !== -1 && at + query.length <= end) {
+      highlights.push({ start: at - start + prefix.length, end: at - start + prefix.length + query.length });
+      at = lower.indexOf(query, at + query.length);
+    }
+    return { text: prefix + text.slice(start, end) + (end < text.length ? '…' : ''), highlights };
+  };
+
+  let from = 0;
+  while (query && snippets.length < MAX_SNIPPETS) {
+    const index = lower.indexOf(query, from);
+    if (index === -1) break;
+
+    const start = Math.max(0, index - Math.floor(SNIPPET_WIDTH / 3));
+    const end = Math.min(text.length, Math.max(start + SNIPPET_WIDTH, index + query.length));
+    snippets.push(cut(start, end, index, index + query.length));
+    from = end;
+  }
+
+  if (snippets.length === 0) {
+    snippets.push(cut(0, Math.min(text.length, SNIPPET_WIDTH), SNIPPET_WIDTH, 0));
+  }
+  return snippets;
+}
+
 /**
  * Search prompts by query string
  * 
@@ -228,6 +287,7 @@ export function getPrompt(nameOrId: string): Prompt | null {
  * ```typescript
  * const results = searchPrompts('security');
  * // Returns prompts matching "security" in title, description, or tags
+ * console.log(results[0].snippets[0].text);  // "…run a security audit before…"
  * ```
  */
 export function searchPrompts(query: string, options?: { 
@@ -264,7 +324,7 @@ export function searchPrompts(query: string, options?: {
     if (prompt.content.toLowerCase().includes(normalized)) score += 2;
     
     if (score > 0) {
-      results.push({ ...prompt, score });
+      results.push({ ...prompt, score, snippets: extractSnippets(prompt.content, normalized) });
     }
   }
   
@@ -92,6 +92,16 @@ describe('searchPrompts', () => {
     const results = searchPrompts('xyznonexistentquery123');
     expect(results).toEqual([]);
   });
+
+  it('includes highlighted snippets around content matches', () => {
+    const [result] = searchPrompts('root cause', { limit: 1 });
+    expect(result.snippets.length).toBeGreaterThan(0);
+    expect(result.snippets.length).toBeLessThanOrEqual(3);
+
+    const [snippet] = result.snippets;
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end).toLowerCase()).toBe('root cause');
+  });
 });
 
 describe('listPrompts', () => {